@@ -1,8 +1,19 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint8,
+    euint16,
+    euint32,
+    euint64,
+    ebool,
+    externalEuint8,
+    externalEuint16,
+    externalEuint32
+} from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ICredentialVerifier } from "./ICredentialVerifier.sol";
 
 contract AttentionVote_FHE is SepoliaConfig {
     struct Member {
@@ -13,96 +24,793 @@ contract AttentionVote_FHE is SepoliaConfig {
     }
 
     struct Proposal {
-        euint32 encryptedVoteCount;
+        euint32 encryptedForWeight;
+        euint32 encryptedAgainstWeight;
+        euint32 encryptedAbstainWeight;
+        euint32 encryptedTurnoutWeight;  // Sum of all three, i.e. weight that took part
+        euint32 encryptedEligibleWeight; // Total member weight when the proposal was created
         uint256 endTime;
         bool isExecuted;
+        bytes32 metadataHash;             // SHA-256 of the canonical off-chain proposal document
+        uint16 quorumBps;                 // Thresholds in force at creation
+        uint16 approvalBps;
+        bool outcomeRevealed;
+        bool quorumReached;
+        bool approved;
+        uint64 weightSnapshotId;          // Ballots count each voter's weight as of this snapshot
+        uint256 eta;                      // Earliest execution time once queued, 0 until it passes
     }
 
+    // A call the DAO makes when the proposal is executed, fixed at creation
+    struct Action {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+
+    // The delegate is public so weight can be routed to them; how much of the
+    // delegator's weight they receive is not.
+    struct Delegation {
+        address delegate;
+        euint16 shareBps;         // Share of the delegator's own weight, clamped to MAX_BPS
+        euint32 delegatedWeight;  // What is currently credited to the delegate
+    }
+
+    // A member's voting power (own weight minus what they delegated, plus
+    // what was delegated to them) from `snapshotId` until their next checkpoint
+    struct WeightCheckpoint {
+        uint64 snapshotId;
+        euint32 weight;
+    }
+
+    // Encrypted ballot choices. Any value other than against/for counts as an
+    // abstention, since an out-of-range ciphertext cannot be rejected.
+    uint8 public constant CHOICE_AGAINST = 0;
+    uint8 public constant CHOICE_FOR = 1;
+    uint8 public constant CHOICE_ABSTAIN = 2;
+
+    // Activity types weight a member's engagement vector into their attention
+    // score. Proposals and votes are registered at deployment, anything else
+    // (comments, attendance, ...) is registered by the admin later.
+    struct ActivityType {
+        string name;
+        uint32 weight;
+    }
+
+    uint256 public constant ACTIVITY_PROPOSAL = 0;
+    uint256 public constant ACTIVITY_VOTE = 1;
+
+    // Off-chain engagement reported for a member. The id names the source
+    // record (forum post, call, review) so the same record counts only once.
+    struct Attestation {
+        address member;
+        uint256 activityType;
+        externalEuint32 amount;
+        bytes32 attestationId;
+    }
+
+    // How an attention score becomes voting weight. Log2 weighs the score's bit
+    // length; Piecewise sums linear segments, each with its own slope.
+    enum WeightCurve { Sqrt, Linear, CappedLinear, Log2, Piecewise }
+
+    // Applies from `start` up to the next segment's start (or without bound)
+    struct CurveSegment {
+        uint32 start;
+        uint16 slopeBps;
+    }
+
+    uint256 public constant MAX_CURVE_SEGMENTS = 4;
+
+    struct RevealedTally {
+        bool revealed;
+        uint32 forWeight;
+        uint32 againstWeight;
+        uint32 abstainWeight;
+        uint32 turnoutWeight;
+    }
+
+    uint16 public constant MAX_BPS = 10000;
+    uint256 public constant MAX_ACTIONS = 10;
+
+    address public admin;
+    uint16 public quorumBps = 2000;     // Turnout weight needed, as a share of eligible weight
+    uint16 public approvalBps = 5000;   // For weight needed, as a share of for + against weight
+    // Attention decays by half every halfLife seconds without activity
+    uint32 public halfLife = 30 days;
+    // A passed proposal waits this long before it can be executed
+    uint32 public timelockDelay = 2 days;
+    
+    // curveParam is the cap for CappedLinear and the multiplier for Log2
+    WeightCurve public weightCurve = WeightCurve.Sqrt;
+    uint32 public curveParam;
+    CurveSegment[] private curveSegments;
+    euint32 private encryptedTotalWeight;
+
+    // Admission is open while no verifier is set. Otherwise joining needs a
+    // valid proof whose id is admissionProofId(joiner), so one member's proof
+    // cannot admit anyone else. Every joiner starts at admissionScore.
+    ICredentialVerifier public credentialVerifier;
+    bytes32 public requiredCredentialType;
+    uint32 public admissionScore;
+
     uint256 public proposalCount;
     mapping(address => Member) public members;
     mapping(uint256 => Proposal) public proposals;
-    mapping(uint256 => mapping(address => ebool)) public encryptedVotes;
+    mapping(uint256 => mapping(address => euint8)) public encryptedVotes;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => mapping(address => euint32)) private ballotWeights; // Weight each ballot was counted with
+    
+    // Every weight change is checkpointed under the current snapshot id, and
+    // creating a proposal closes that snapshot. Weight gained while a vote is
+    // live therefore never counts towards it.
+    uint64 public currentSnapshotId;
+    mapping(address => WeightCheckpoint[]) private weightCheckpoints;
+    mapping(uint256 => RevealedTally) private revealedTallies;
+    mapping(uint256 => Action[]) private proposalActions;
+    ActivityType[] public activityTypes;
+    
+    // Reporters attest engagement that never touches the chain. Each may
+    // submit at most reporterDailyLimit attestations per UTC day, and every
+    // encrypted amount is clamped to maxAttestedAmount.
+    mapping(address => bool) public reporters;
+    uint32 public reporterDailyLimit = 100;
+    uint32 public maxAttestedAmount = 10;
+    mapping(bytes32 => bool) public attestationUsed;
+    mapping(address => mapping(uint256 => uint32)) public attestationsPerDay; // reporter => day => count
+    mapping(address => mapping(uint256 => euint32)) private engagement; // Encrypted count per activity type
+    
+    // Delegation is one level deep: weight a member receives is never passed
+    // on, so a delegate who delegates only hands over their own weight.
+    mapping(address => Delegation) private delegations;
+    mapping(address => euint32) private receivedWeight; // Sum over all delegators, encrypted
     
     mapping(uint256 => uint256) private requestToProposalId;
-    mapping(address => uint256) private requestToMemberId;
+    mapping(uint256 => uint256) private outcomeRequestToProposalId;
     
     event MemberJoined(address indexed member);
-    event ProposalCreated(uint256 indexed proposalId, uint256 endTime);
+    event AdmissionPolicyUpdated(address verifier, bytes32 credentialType, uint32 initialScore);
+    event ProposalCreated(uint256 indexed proposalId, uint256 endTime, bytes32 metadataHash);
     event VoteCast(address indexed voter, uint256 proposalId);
+    event VoteChanged(address indexed voter, uint256 proposalId);
+    event ProposalQueued(uint256 indexed proposalId, uint256 eta);
     event ProposalExecuted(uint256 indexed proposalId);
+    event ActionExecuted(uint256 indexed proposalId, uint256 index, address target, uint256 value, bytes data);
     event DecryptionRequested(uint256 indexed id);
+    event OutcomeRequested(uint256 indexed proposalId);
+    event OutcomeRevealed(uint256 indexed proposalId, bool quorumReached, bool approved);
+    event ThresholdsUpdated(uint16 quorumBps, uint16 approvalBps);
+    event DecayModelUpdated(uint32 halfLife);
+    event TimelockDelayUpdated(uint32 delay);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event WeightCurveUpdated(WeightCurve curve, uint32 param);
+    event ActivityTypeRegistered(uint256 indexed activityType, string name, uint32 weight);
+    event ActivityWeightUpdated(uint256 indexed activityType, uint32 weight);
+    event DelegationChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+    event ReporterUpdated(address indexed reporter, bool allowed);
+    event ReporterLimitsUpdated(uint32 dailyLimit, uint32 maxAmount);
+    event ActivityAttested(
+        bytes32 indexed attestationId,
+        address indexed reporter,
+        address indexed member,
+        uint256 activityType
+    );
+    event TallyRevealed(
+        uint256 indexed proposalId,
+        uint32 forWeight,
+        uint32 againstWeight,
+        uint32 abstainWeight,
+        uint32 turnoutWeight
+    );
     
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not admin");
+        _;
+    }
+
     modifier onlyMember() {
         require(members[msg.sender].isActive, "Not a member");
         _;
     }
 
-    function joinDAO(euint32 encryptedInitialScore) public {
+    modifier votingOpen(uint256 proposalId) {
+        require(block.timestamp <= proposals[proposalId].endTime, "Voting ended");
+        require(!proposals[proposalId].isExecuted, "Proposal executed");
+        _;
+    }
+
+    modifier onlyReporter() {
+        require(reporters[msg.sender], "Not reporter");
+        _;
+    }
+
+    modifier knownActivity(uint256 activityType) {
+        require(activityType < activityTypes.length, "Unknown activity type");
+        _;
+    }
+
+    constructor() {
+        admin = msg.sender;
+        encryptedTotalWeight = FHE.asEuint32(0);
+        FHE.allowThis(encryptedTotalWeight);
+        
+        registerActivityType("proposal", 1);
+        registerActivityType("vote", 1);
+    }
+
+    // Proposal actions can only call admin functions once the DAO is its own admin
+    function transferAdmin(address newAdmin) public onlyAdmin {
+        require(newAdmin != address(0), "Invalid admin");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    // Proposal values are paid from the contract's own balance
+    receive() external payable {}
+
+    function setThresholds(uint16 newQuorumBps, uint16 newApprovalBps) public onlyAdmin {
+        require(newQuorumBps <= MAX_BPS && newApprovalBps <= MAX_BPS, "Invalid threshold");
+        quorumBps = newQuorumBps;
+        approvalBps = newApprovalBps;
+        emit ThresholdsUpdated(newQuorumBps, newApprovalBps);
+    }
+
+    // Applies from each member's next action, to all the time since they were last active
+    function setDecayModel(uint32 newHalfLife) public onlyAdmin {
+        require(newHalfLife > 0, "Invalid decay model");
+        halfLife = newHalfLife;
+        emit DecayModelUpdated(newHalfLife);
+    }
+
+    // Applies to members who join after the change
+    function setAdmissionPolicy(
+        ICredentialVerifier verifier,
+        bytes32 credentialType,
+        uint32 initialScore
+    ) public onlyAdmin {
+        credentialVerifier = verifier;
+        requiredCredentialType = credentialType;
+        admissionScore = initialScore;
+        emit AdmissionPolicyUpdated(address(verifier), credentialType, initialScore);
+    }
+
+    // The id the credential issuer generates the joiner's proof under
+    function admissionProofId(address joiner) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), joiner, requiredCredentialType));
+    }
+
+    // Applies to proposals whose outcome is revealed after the change
+    function setTimelockDelay(uint32 newDelay) public onlyAdmin {
+        timelockDelay = newDelay;
+        emit TimelockDelayUpdated(newDelay);
+    }
+
+    // Weights are recomputed on each member's next activity, so until then the
+    // DAO-wide total mixes members scored under the old and the new curve.
+    function setWeightCurve(WeightCurve curve, uint32 param) public onlyAdmin {
+        require(curve != WeightCurve.Piecewise, "Use setPiecewiseCurve");
+        require(
+            (curve != WeightCurve.CappedLinear && curve != WeightCurve.Log2) || param > 0,
+            "Invalid curve"
+        );
+        weightCurve = curve;
+        curveParam = param;
+        delete curveSegments;
+        emit WeightCurveUpdated(curve, param);
+    }
+
+    function setPiecewiseCurve(CurveSegment[] calldata segments) public onlyAdmin {
+        require(segments.length > 0 && segments.length <= MAX_CURVE_SEGMENTS, "Invalid curve");
+        require(segments[0].start == 0, "Invalid curve");
+        delete curveSegments;
+        for (uint256 i = 0; i < segments.length; i++) {
+            require(i == 0 || segments[i].start > segments[i - 1].start, "Invalid curve");
+            curveSegments.push(segments[i]);
+        }
+        weightCurve = WeightCurve.Piecewise;
+        curveParam = uint32(segments.length);
+        emit WeightCurveUpdated(WeightCurve.Piecewise, uint32(segments.length));
+    }
+
+    function getCurveSegments() public view returns (CurveSegment[] memory) {
+        return curveSegments;
+    }
+
+    function registerActivityType(string memory name, uint32 weight) public onlyAdmin returns (uint256) {
+        require(bytes(name).length > 0, "Missing name");
+        activityTypes.push(ActivityType({ name: name, weight: weight }));
+        emit ActivityTypeRegistered(activityTypes.length - 1, name, weight);
+        return activityTypes.length - 1;
+    }
+
+    // Scores are accumulated incrementally, so a new weight only applies to
+    // activity recorded after the change.
+    function setActivityWeight(uint256 activityType, uint32 weight) public onlyAdmin knownActivity(activityType) {
+        activityTypes[activityType].weight = weight;
+        emit ActivityWeightUpdated(activityType, weight);
+    }
+
+    function setReporter(address reporter, bool allowed) public onlyAdmin {
+        reporters[reporter] = allowed;
+        emit ReporterUpdated(reporter, allowed);
+    }
+
+    function setReporterLimits(uint32 dailyLimit, uint32 maxAmount) public onlyAdmin {
+        reporterDailyLimit = dailyLimit;
+        maxAttestedAmount = maxAmount;
+        emit ReporterLimitsUpdated(dailyLimit, maxAmount);
+    }
+
+    // All amounts in a batch are encrypted together under one input proof.
+    // Proposals and votes are recorded by the contract itself and cannot be attested.
+    function attestActivities(Attestation[] calldata attestations, bytes calldata inputProof) public onlyReporter {
+        uint256 day = block.timestamp / 1 days;
+        require(
+            attestationsPerDay[msg.sender][day] + attestations.length <= reporterDailyLimit,
+            "Rate limit exceeded"
+        );
+        attestationsPerDay[msg.sender][day] += uint32(attestations.length);
+        
+        for (uint256 i = 0; i < attestations.length; i++) {
+            Attestation calldata attestation = attestations[i];
+            require(members[attestation.member].isActive, "Not a member");
+            require(attestation.activityType < activityTypes.length, "Unknown activity type");
+            require(attestation.activityType > ACTIVITY_VOTE, "Reserved activity type");
+            require(!attestationUsed[attestation.attestationId], "Attestation replayed");
+            attestationUsed[attestation.attestationId] = true;
+            
+            euint32 amount = FHE.min(FHE.fromExternal(attestation.amount, inputProof), maxAttestedAmount);
+            updateActivityScore(attestation.member, attestation.activityType, amount);
+            emit ActivityAttested(attestation.attestationId, msg.sender, attestation.member, attestation.activityType);
+        }
+    }
+
+    function activityTypeCount() public view returns (uint256) {
+        return activityTypes.length;
+    }
+
+    // Only the member (and this contract) may decrypt the returned handle
+    function getEngagement(address member, uint256 activityType) public view returns (euint32) {
+        return engagement[member][activityType];
+    }
+
+    // proofId is ignored while admission is open
+    function joinDAO(bytes32 proofId) public {
         require(!members[msg.sender].isActive, "Already member");
+        if (address(credentialVerifier) != address(0)) {
+            require(proofId == admissionProofId(msg.sender), "Wrong proof id");
+            (bool isValid, ) = credentialVerifier.getProofResult(proofId);
+            require(isValid, "Credential not verified");
+        }
         
         members[msg.sender] = Member({
-            encryptedActivityScore: encryptedInitialScore,
+            encryptedActivityScore: FHE.asEuint32(admissionScore),
             encryptedVotingWeight: FHE.asEuint32(0),
             lastActive: block.timestamp,
             isActive: true
         });
+        // The policy's score carries weight from the start, so the member can
+        // vote on every proposal created after they joined
+        rescore(msg.sender);
         
         emit MemberJoined(msg.sender);
     }
 
-    function createProposal(uint256 duration) public onlyMember {
+    function createProposal(
+        uint256 duration,
+        bytes32 metadataHash,
+        Action[] calldata actions
+    ) public onlyMember {
+        require(metadataHash != bytes32(0), "Missing metadata");
+        require(actions.length <= MAX_ACTIONS, "Too many actions");
+        
+        // Runs first so the creator's refreshed weight is part of the snapshot
+        updateActivityScore(msg.sender, ACTIVITY_PROPOSAL, FHE.asEuint32(1));
+        uint64 snapshotId = currentSnapshotId++;
+        
         proposalCount++;
+        euint32 initialCount = FHE.asEuint32(0);
+        FHE.allowThis(initialCount);
+        
+        // Handles are immutable, so the four tallies can start from one zero
         proposals[proposalCount] = Proposal({
-            encryptedVoteCount: FHE.asEuint32(0),
+            encryptedForWeight: initialCount,
+            encryptedAgainstWeight: initialCount,
+            encryptedAbstainWeight: initialCount,
+            encryptedTurnoutWeight: initialCount,
+            encryptedEligibleWeight: encryptedTotalWeight,
             endTime: block.timestamp + duration,
-            isExecuted: false
+            isExecuted: false,
+            metadataHash: metadataHash,
+            quorumBps: quorumBps,
+            approvalBps: approvalBps,
+            outcomeRevealed: false,
+            quorumReached: false,
+            approved: false,
+            weightSnapshotId: snapshotId,
+            eta: 0
         });
+        for (uint256 i = 0; i < actions.length; i++) {
+            proposalActions[proposalCount].push(actions[i]);
+        }
         
-        updateActivityScore(msg.sender);
-        emit ProposalCreated(proposalCount, block.timestamp + duration);
+        emit ProposalCreated(proposalCount, block.timestamp + duration, metadataHash);
     }
 
-    function castVote(uint256 proposalId, ebool encryptedVote) public onlyMember {
-        require(block.timestamp <= proposals[proposalId].endTime, "Voting ended");
-        require(!proposals[proposalId].isExecuted, "Proposal executed");
+    function castVote(
+        uint256 proposalId,
+        externalEuint8 encryptedChoice,
+        bytes calldata inputProof
+    ) public onlyMember votingOpen(proposalId) {
+        require(!hasVoted[proposalId][msg.sender], "Already voted");
         
-        encryptedVotes[proposalId][msg.sender] = encryptedVote;
+        euint8 choice = readChoice(encryptedChoice, inputProof);
+        encryptedVotes[proposalId][msg.sender] = choice;
+        hasVoted[proposalId][msg.sender] = true;
         
-        euint32 voteWeight = members[msg.sender].encryptedVotingWeight;
-        proposals[proposalId].encryptedVoteCount = FHE.add(
-            proposals[proposalId].encryptedVoteCount,
-            FHE.mul(FHE.asEuint32(encryptedVote), voteWeight)
-        );
+        euint32 voteWeight = weightAt(msg.sender, proposals[proposalId].weightSnapshotId);
+        ballotWeights[proposalId][msg.sender] = voteWeight;
+        tallyBallot(proposals[proposalId], choice, voteWeight, true);
         
-        updateActivityScore(msg.sender);
+        updateActivityScore(msg.sender, ACTIVITY_VOTE, FHE.asEuint32(1));
         emit VoteCast(msg.sender, proposalId);
     }
 
+    // Replaces an earlier ballot. The previous weighted ballot is subtracted
+    // before the new one is added, both at the weight the ballot was first
+    // counted with, so re-voting neither inflates the tally nor picks up
+    // weight gained after the original vote. Only the first ballot earns a
+    // vote credit, so changing it leaves the member's score untouched.
+    function changeVote(
+        uint256 proposalId,
+        externalEuint8 encryptedChoice,
+        bytes calldata inputProof
+    ) public onlyMember votingOpen(proposalId) {
+        require(hasVoted[proposalId][msg.sender], "Not voted");
+        
+        euint8 choice = readChoice(encryptedChoice, inputProof);
+        euint8 previousChoice = encryptedVotes[proposalId][msg.sender];
+        encryptedVotes[proposalId][msg.sender] = choice;
+        
+        euint32 voteWeight = ballotWeights[proposalId][msg.sender];
+        tallyBallot(proposals[proposalId], previousChoice, voteWeight, false);
+        tallyBallot(proposals[proposalId], choice, voteWeight, true);
+        
+        emit VoteChanged(msg.sender, proposalId);
+    }
+
+    function readChoice(externalEuint8 encryptedChoice, bytes calldata inputProof) private returns (euint8 choice) {
+        choice = FHE.fromExternal(encryptedChoice, inputProof);
+        FHE.allowThis(choice);
+    }
+
+    // Runs every action in order. One failing action reverts the whole
+    // execution, so a proposal is either applied completely or not at all.
     function executeProposal(uint256 proposalId) public onlyMember {
-        require(block.timestamp > proposals[proposalId].endTime, "Voting ongoing");
-        require(!proposals[proposalId].isExecuted, "Already executed");
+        Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp > proposal.endTime, "Voting ongoing");
+        require(!proposal.isExecuted, "Already executed");
+        require(proposal.outcomeRevealed, "Outcome pending");
+        require(proposal.quorumReached && proposal.approved, "Proposal failed");
+        require(block.timestamp >= proposal.eta, "Timelock active");
         
-        proposals[proposalId].isExecuted = true;
+        // Set before the calls so an action cannot re-enter and execute it twice
+        proposal.isExecuted = true;
+        Action[] storage actions = proposalActions[proposalId];
+        for (uint256 i = 0; i < actions.length; i++) {
+            Action storage action = actions[i];
+            (bool success, ) = action.target.call{ value: action.value }(action.data);
+            require(success, "Action failed");
+            emit ActionExecuted(proposalId, i, action.target, action.value, action.data);
+        }
         emit ProposalExecuted(proposalId);
     }
 
-    function updateActivityScore(address member) private {
-        euint32 timeSinceActive = FHE.asEuint32(uint32(block.timestamp - members[member].lastActive));
+    function getActions(uint256 proposalId) public view returns (Action[] memory) {
+        return proposalActions[proposalId];
+    }
+
+    // Hands part of the caller's own weight to another member, replacing any
+    // earlier delegation. The share stays encrypted, and shares above MAX_BPS
+    // count as MAX_BPS since an out-of-range ciphertext cannot be rejected.
+    // Like every weight change it only applies to proposals created later.
+    function delegate(
+        address to,
+        externalEuint16 encryptedShareBps,
+        bytes calldata inputProof
+    ) public onlyMember {
+        require(to != msg.sender, "Self delegation");
+        require(members[to].isActive, "Not a member");
+        
+        address previous = withdrawDelegation(msg.sender);
+        Delegation storage delegation = delegations[msg.sender];
+        delegation.delegate = to;
+        delegation.shareBps = FHE.min(FHE.fromExternal(encryptedShareBps, inputProof), MAX_BPS);
+        FHE.allowThis(delegation.shareBps);
+        FHE.allow(delegation.shareBps, msg.sender);
+        
+        syncDelegation(msg.sender);
+        checkpointWeight(msg.sender);
+        emit DelegationChanged(msg.sender, previous, to);
+    }
+
+    function revokeDelegation() public onlyMember {
+        address previous = withdrawDelegation(msg.sender);
+        require(previous != address(0), "Not delegated");
+        
+        checkpointWeight(msg.sender);
+        emit DelegationChanged(msg.sender, previous, address(0));
+    }
+
+    function delegateOf(address member) public view returns (address) {
+        return delegations[member].delegate;
+    }
+
+    // Only the delegator may decrypt the share and the weight it currently amounts to
+    function getDelegation(address member) public view returns (address, euint16, euint32) {
+        Delegation storage delegation = delegations[member];
+        return (delegation.delegate, delegation.shareBps, delegation.delegatedWeight);
+    }
+
+    // The aggregate over all delegators; only the delegate may decrypt it
+    function getReceivedWeight(address member) public view returns (euint32) {
+        return receivedWeight[member];
+    }
+
+    // Voting power as of the latest checkpoint, i.e. what the next proposal
+    // would count. Uninitialized for members whose weight never changed.
+    function getVotingPower(address member) public view returns (euint32) {
+        WeightCheckpoint[] storage checkpoints = weightCheckpoints[member];
+        if (checkpoints.length == 0) {
+            return euint32.wrap(0);
+        }
+        return checkpoints[checkpoints.length - 1].weight;
+    }
+
+    // Keeps the handle usable by this contract and decryptable by the member
+    function allowMember(euint32 value, address member) private {
+        FHE.allowThis(value);
+        FHE.allow(value, member);
+    }
+
+    // Adds `amount` of one activity to the member's engagement vector and
+    // credits it to their decayed score at that activity's weight.
+    function updateActivityScore(address member, uint256 activityType, euint32 amount) private {
+        engagement[member][activityType] = FHE.add(engagement[member][activityType], amount);
+        allowMember(engagement[member][activityType], member);
+        
         members[member].encryptedActivityScore = FHE.add(
-            members[member].encryptedActivityScore,
-            FHE.div(timeSinceActive, FHE.asEuint32(3600)) // 1 point per hour
+            decayedScore(members[member].encryptedActivityScore, block.timestamp - members[member].lastActive),
+            FHE.mul(amount, activityTypes[activityType].weight)
         );
-        
-        // Voting weight = sqrt(activity score)
-        members[member].encryptedVotingWeight = FHE.sqrt(members[member].encryptedActivityScore);
         members[member].lastActive = block.timestamp;
+        rescore(member);
+    }
+
+    // Derives the member's weight from their current score and brings the
+    // DAO-wide total, their delegation and their checkpoint in line with it.
+    function rescore(address member) private {
+        euint32 previousWeight = members[member].encryptedVotingWeight;
+        members[member].encryptedVotingWeight = curveWeight(members[member].encryptedActivityScore);
+        
+        // Keep the DAO-wide total in step with the member's new weight
+        encryptedTotalWeight = FHE.add(
+            FHE.sub(encryptedTotalWeight, previousWeight),
+            members[member].encryptedVotingWeight
+        );
+        
+        // Only the member may user-decrypt their own score and weight
+        allowMember(members[member].encryptedActivityScore, member);
+        allowMember(members[member].encryptedVotingWeight, member);
+        FHE.allowThis(encryptedTotalWeight);
+        
+        // Delegation moves weight between members, so the total is unaffected
+        syncDelegation(member);
+        checkpointWeight(member);
+    }
+
+    // Recomputes the delegated part of the member's current weight and moves
+    // the difference to their delegate, whose received sum stays encrypted.
+    // 64 bits so weight * shareBps cannot overflow.
+    function syncDelegation(address member) private {
+        Delegation storage delegation = delegations[member];
+        if (delegation.delegate == address(0)) {
+            return;
+        }
+        
+        euint32 previousDelegated = delegation.delegatedWeight;
+        delegation.delegatedWeight = FHE.asEuint32(
+            FHE.div(
+                FHE.mul(FHE.asEuint64(members[member].encryptedVotingWeight), FHE.asEuint64(delegation.shareBps)),
+                MAX_BPS
+            )
+        );
+        allowMember(delegation.delegatedWeight, member);
+        
+        creditDelegate(
+            delegation.delegate,
+            FHE.add(FHE.sub(receivedWeight[delegation.delegate], previousDelegated), delegation.delegatedWeight)
+        );
+    }
+
+    // Takes back whatever the member had delegated and clears the delegation
+    function withdrawDelegation(address member) private returns (address previous) {
+        Delegation storage delegation = delegations[member];
+        previous = delegation.delegate;
+        if (previous != address(0)) {
+            creditDelegate(previous, FHE.sub(receivedWeight[previous], delegation.delegatedWeight));
+            delete delegations[member];
+        }
+    }
+
+    function creditDelegate(address delegatee, euint32 received) private {
+        receivedWeight[delegatee] = received;
+        allowMember(received, delegatee);
+        checkpointWeight(delegatee);
+    }
+
+    // Voting power is the member's own weight, less what they delegated, plus
+    // what they received. Several changes within one snapshot collapse into
+    // its last checkpoint.
+    function checkpointWeight(address member) private {
+        euint32 weight = members[member].encryptedVotingWeight;
+        if (FHE.isInitialized(receivedWeight[member])) {
+            weight = FHE.add(weight, receivedWeight[member]);
+        }
+        if (delegations[member].delegate != address(0)) {
+            weight = FHE.sub(weight, delegations[member].delegatedWeight);
+        }
+        allowMember(weight, member);
+        
+        WeightCheckpoint[] storage checkpoints = weightCheckpoints[member];
+        uint256 count = checkpoints.length;
+        if (count > 0 && checkpoints[count - 1].snapshotId == currentSnapshotId) {
+            checkpoints[count - 1].weight = weight;
+        } else {
+            checkpoints.push(WeightCheckpoint({ snapshotId: currentSnapshotId, weight: weight }));
+        }
+    }
+
+    // Binary search for the last checkpoint at or before the snapshot. A member
+    // without one had no weight yet, so they vote with an encrypted zero.
+    function weightAt(address member, uint64 snapshotId) private returns (euint32) {
+        WeightCheckpoint[] storage checkpoints = weightCheckpoints[member];
+        uint256 low = 0;
+        uint256 high = checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].snapshotId > snapshotId) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        
+        if (low == 0) {
+            euint32 zero = FHE.asEuint32(0);
+            allowMember(zero, member);
+            return zero;
+        }
+        return checkpoints[low - 1].weight;
+    }
+
+    // Halves the score once per full half-life, then decays it linearly towards
+    // the next halving for the part of a half-life that is left. Elapsed time is
+    // public, so the factor is plaintext and only the score stays encrypted.
+    // src/attention/attentionModel.ts mirrors this rounding exactly.
+    function decayedScore(euint32 score, uint256 elapsed) private returns (euint32) {
+        uint256 halvings = elapsed / halfLife;
+        if (halvings >= 32) {
+            return FHE.asEuint32(0);
+        }
+        euint32 halved = FHE.shr(score, uint8(halvings));
+        
+        uint64 lostBps = uint64(((elapsed % halfLife) * (MAX_BPS / 2)) / halfLife);
+        if (lostBps == 0) {
+            return halved;
+        }
+        // The loss is rounded down so short gaps do not cost small scores a point.
+        // 64 bits so score * lostBps cannot overflow.
+        euint64 lost = FHE.div(FHE.mul(FHE.asEuint64(halved), lostBps), MAX_BPS);
+        return FHE.sub(halved, FHE.asEuint32(lost));
     }
 
+    // Adds (or removes) a weighted ballot. The choice stays encrypted: each
+    // tally receives either the full weight or an encrypted zero via select.
+    function tallyBallot(Proposal storage proposal, euint8 choice, euint32 weight, bool add) private {
+        euint32 zero = FHE.asEuint32(0);
+        euint32 forWeight = FHE.select(FHE.eq(choice, CHOICE_FOR), weight, zero);
+        euint32 againstWeight = FHE.select(FHE.eq(choice, CHOICE_AGAINST), weight, zero);
+        euint32 abstainWeight = FHE.sub(FHE.sub(weight, forWeight), againstWeight);
+        
+        if (add) {
+            proposal.encryptedForWeight = FHE.add(proposal.encryptedForWeight, forWeight);
+            proposal.encryptedAgainstWeight = FHE.add(proposal.encryptedAgainstWeight, againstWeight);
+            proposal.encryptedAbstainWeight = FHE.add(proposal.encryptedAbstainWeight, abstainWeight);
+            proposal.encryptedTurnoutWeight = FHE.add(proposal.encryptedTurnoutWeight, weight);
+        } else {
+            proposal.encryptedForWeight = FHE.sub(proposal.encryptedForWeight, forWeight);
+            proposal.encryptedAgainstWeight = FHE.sub(proposal.encryptedAgainstWeight, againstWeight);
+            proposal.encryptedAbstainWeight = FHE.sub(proposal.encryptedAbstainWeight, abstainWeight);
+            proposal.encryptedTurnoutWeight = FHE.sub(proposal.encryptedTurnoutWeight, weight);
+        }
+        
+        FHE.allowThis(proposal.encryptedForWeight);
+        FHE.allowThis(proposal.encryptedAgainstWeight);
+        FHE.allowThis(proposal.encryptedAbstainWeight);
+        FHE.allowThis(proposal.encryptedTurnoutWeight);
+    }
+
+    // src/attention/weightCurves.ts simulates each curve with the same rounding
+    function curveWeight(euint32 score) private returns (euint32) {
+        if (weightCurve == WeightCurve.Linear) {
+            return score;
+        }
+        if (weightCurve == WeightCurve.CappedLinear) {
+            return FHE.min(score, curveParam);
+        }
+        if (weightCurve == WeightCurve.Log2) {
+            return FHE.mul(encryptedBitLength(score), curveParam);
+        }
+        if (weightCurve == WeightCurve.Piecewise) {
+            return encryptedPiecewise(score);
+        }
+        return encryptedSqrt(score);
+    }
+
+    // Number of significant bits, clamped to 16 like the square root
+    function encryptedBitLength(euint32 value) private returns (euint32) {
+        euint32 clamped = FHE.min(value, 65535);
+        euint32 bits = FHE.asEuint32(0);
+        for (uint32 bit = 0; bit < 16; bit++) {
+            bits = FHE.add(bits, FHE.asEuint32(FHE.ge(clamped, uint32(1) << bit)));
+        }
+        return bits;
+    }
+
+    // Each segment adds the part of the score that falls inside it, scaled by
+    // its slope and rounded down. 64 bits so length * slope cannot overflow.
+    function encryptedPiecewise(euint32 score) private returns (euint32) {
+        euint64 total = FHE.asEuint64(0);
+        for (uint256 i = 0; i < curveSegments.length; i++) {
+            CurveSegment memory segment = curveSegments[i];
+            euint32 inside = FHE.sub(FHE.max(score, segment.start), segment.start);
+            if (i + 1 < curveSegments.length) {
+                inside = FHE.min(inside, curveSegments[i + 1].start - segment.start);
+            }
+            total = FHE.add(total, FHE.div(FHE.mul(FHE.asEuint64(inside), uint64(segment.slopeBps)), MAX_BPS));
+        }
+        return FHE.asEuint32(total);
+    }
+
+    // Integer square root, digit by digit. The score is clamped to 16 bits so the
+    // eight rounds stay within the per-transaction HCU depth limit.
+    function encryptedSqrt(euint32 value) private returns (euint32) {
+        euint32 remainder = FHE.min(value, 65535);
+        euint32 root = FHE.asEuint32(0);
+
+        for (uint32 bit = 1 << 14; bit > 0; bit >>= 2) {
+            euint32 candidate = FHE.add(root, bit);
+            ebool fits = FHE.ge(remainder, candidate);
+            remainder = FHE.select(fits, FHE.sub(remainder, candidate), remainder);
+            root = FHE.shr(root, 1);
+            root = FHE.select(fits, FHE.add(root, bit), root);
+        }
+        return root;
+    }
+
+    // Tallies are final once voting ends, so a tally is revealed at most once.
+    // Re-requesting is allowed until then in case the oracle never answered.
     function requestVoteCountDecryption(uint256 proposalId) public onlyMember {
         Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp > proposal.endTime, "Voting ongoing");
+        require(!revealedTallies[proposalId].revealed, "Tally revealed");
         
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(proposal.encryptedVoteCount);
+        // One request for all four tallies so they are revealed together and consistent
+        bytes32[] memory ciphertexts = new bytes32[](4);
+        ciphertexts[0] = FHE.toBytes32(proposal.encryptedForWeight);
+        ciphertexts[1] = FHE.toBytes32(proposal.encryptedAgainstWeight);
+        ciphertexts[2] = FHE.toBytes32(proposal.encryptedAbstainWeight);
+        ciphertexts[3] = FHE.toBytes32(proposal.encryptedTurnoutWeight);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptVoteCount.selector);
         requestToProposalId[reqId] = proposalId;
@@ -120,33 +828,28 @@ contract AttentionVote_FHE is SepoliaConfig {
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        uint32 voteCount = abi.decode(cleartexts, (uint32));
-        // Handle decrypted vote count
+        require(!revealedTallies[proposalId].revealed, "Tally revealed");
+        (uint32 forWeight, uint32 againstWeight, uint32 abstainWeight, uint32 turnoutWeight) = abi.decode(
+            cleartexts,
+            (uint32, uint32, uint32, uint32)
+        );
+        revealedTallies[proposalId] = RevealedTally({
+            revealed: true,
+            forWeight: forWeight,
+            againstWeight: againstWeight,
+            abstainWeight: abstainWeight,
+            turnoutWeight: turnoutWeight
+        });
+        emit TallyRevealed(proposalId, forWeight, againstWeight, abstainWeight, turnoutWeight);
     }
 
-    function requestMemberDataDecryption() public onlyMember {
-        Member storage member = members[msg.sender];
-        
-        bytes32[] memory ciphertexts = new bytes32[](2);
-        ciphertexts[0] = FHE.toBytes32(member.encryptedActivityScore);
-        ciphertexts[1] = FHE.toBytes32(member.encryptedVotingWeight);
-        
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptMemberData.selector);
-        requestToMemberId[msg.sender] = reqId;
+    // The weight a ballot was counted with; only the voter may decrypt it
+    function getBallotWeight(uint256 proposalId, address voter) public view returns (euint32) {
+        return ballotWeights[proposalId][voter];
     }
 
-    function decryptMemberData(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
-        address member = msg.sender;
-        require(requestToMemberId[member] == requestId, "Invalid request");
-        
-        FHE.checkSignatures(requestId, cleartexts, proof);
-        
-        uint32[] memory memberData = abi.decode(cleartexts, (uint32[]));
-        // Handle decrypted member data
+    function getRevealedTally(uint256 proposalId) public view returns (RevealedTally memory) {
+        return revealedTallies[proposalId];
     }
 
     function getProposalStatus(uint256 proposalId) public view returns (bool, bool) {
@@ -156,15 +859,65 @@ contract AttentionVote_FHE is SepoliaConfig {
         );
     }
 
-    function calculateQuorum(uint256 proposalId) public view returns (ebool) {
-        euint32 totalWeight = FHE.asEuint32(0);
-        uint256 memberCount = 0;
+    // Quorum: turnout / eligible >= quorumBps. Approval: for / (for + against)
+    // > approvalBps, so abstentions count towards quorum but not approval.
+    // Both sides are scaled to basis points in 64 bits to avoid overflow.
+    function evaluateOutcome(Proposal storage proposal) private returns (ebool quorumReached, ebool approved) {
+        euint64 forWeight = FHE.asEuint64(proposal.encryptedForWeight);
+        euint64 decidedWeight = FHE.add(forWeight, FHE.asEuint64(proposal.encryptedAgainstWeight));
         
-        // This would require iterating through all members in a real implementation
-        // Simplified for demonstration
-        return FHE.gt(
-            proposals[proposalId].encryptedVoteCount, 
-            FHE.div(totalWeight, FHE.asEuint32(2))
+        quorumReached = FHE.ge(
+            FHE.mul(FHE.asEuint64(proposal.encryptedTurnoutWeight), uint64(MAX_BPS)),
+            FHE.mul(FHE.asEuint64(proposal.encryptedEligibleWeight), uint64(proposal.quorumBps))
+        );
+        approved = FHE.gt(
+            FHE.mul(forWeight, uint64(MAX_BPS)),
+            FHE.mul(decidedWeight, uint64(proposal.approvalBps))
         );
     }
-}
\ No newline at end of file
+
+    // Decrypts only the two pass/fail booleans; the weights stay encrypted.
+    function requestOutcomeDecryption(uint256 proposalId) public onlyMember {
+        Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp > proposal.endTime, "Voting ongoing");
+        require(!proposal.outcomeRevealed, "Outcome revealed");
+        
+        (ebool quorumReached, ebool approved) = evaluateOutcome(proposal);
+        FHE.allowThis(quorumReached);
+        FHE.allowThis(approved);
+        
+        bytes32[] memory ciphertexts = new bytes32[](2);
+        ciphertexts[0] = FHE.toBytes32(quorumReached);
+        ciphertexts[1] = FHE.toBytes32(approved);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.resolveOutcome.selector);
+        outcomeRequestToProposalId[reqId] = proposalId;
+        
+        emit OutcomeRequested(proposalId);
+    }
+
+    function resolveOutcome(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 proposalId = outcomeRequestToProposalId[requestId];
+        require(proposalId != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        Proposal storage proposal = proposals[proposalId];
+        require(!proposal.outcomeRevealed, "Outcome revealed");
+        (bool quorumReached, bool approved) = abi.decode(cleartexts, (bool, bool));
+        proposal.outcomeRevealed = true;
+        proposal.quorumReached = quorumReached;
+        proposal.approved = approved;
+        
+        emit OutcomeRevealed(proposalId, quorumReached, approved);
+        // A passing proposal enters the timelock queue as soon as it is known to pass
+        if (quorumReached && approved) {
+            proposal.eta = block.timestamp + timelockDelay;
+            emit ProposalQueued(proposalId, proposal.eta);
+        }
+    }
+}
@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// The proof side of a VeriIdWalletFHE credential wallet: a proof is requested
+// with generateProof and, once the encrypted condition is decrypted, its
+// result is readable here by id.
+interface ICredentialVerifier {
+    function getProofResult(bytes32 proofId) external view returns (bool isValid, uint256 verifiedAt);
+}
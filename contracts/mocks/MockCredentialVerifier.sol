@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ICredentialVerifier } from "../ICredentialVerifier.sol";
+
+// Stands in for a VeriIdWalletFHE wallet in tests, where proofs are verified
+// by the decryption oracle rather than set directly
+contract MockCredentialVerifier is ICredentialVerifier {
+    mapping(bytes32 => uint256) private verifiedAt;
+
+    function setProofResult(bytes32 proofId, bool isValid) external {
+        verifiedAt[proofId] = isValid ? block.timestamp : 0;
+    }
+
+    function getProofResult(bytes32 proofId) external view returns (bool, uint256) {
+        return (verifiedAt[proofId] != 0, verifiedAt[proofId]);
+    }
+}
@@ -4,6 +4,8 @@ import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { LOCAL_CHAIN_ID, networkForChain, parseNetworkRegistry } from "../src/network/networks";
+import { MULTICALL3_ADDRESS } from "../src/network/multicall";
 
 
 const WORD_LIBRARY = [
@@ -334,32 +336,60 @@ async function main() {
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
+  const chainId = Number((await provider.getNetwork()).chainId);
 
   console.log("Deployer account:", wallet.address);
-
-  // Deploy the plain UniversalAdapter contract
-  const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-  const factory = await UniversalAdapterFactory.deploy();
-  await factory.waitForDeployment();
-
-  const deployedAddress = (factory as any).target || (factory as any).address;
-  console.log("UniversalAdapter contract deployed at:", deployedAddress);
+  console.log("Chain id:", chainId);
+
+  // Deploy the AttentionVote_FHE governance contract
+  const AttentionVoteFactory = await hardhatEthers.getContractFactory("AttentionVote_FHE", wallet);
+  const attentionVote = await AttentionVoteFactory.deploy();
+  await attentionVote.waitForDeployment();
+
+  const deployedAddress = await attentionVote.getAddress();
+  const deployReceipt = await attentionVote.deploymentTransaction()?.wait();
+  console.log("AttentionVote_FHE contract deployed at:", deployedAddress);
+
+  // The frontend batches its reads through Multicall3. Most public chains have
+  // the canonical deployment; a local node gets its own.
+  let multicall3 = MULTICALL3_ADDRESS;
+  if ((await provider.getCode(MULTICALL3_ADDRESS)) === "0x") {
+    const MulticallFactory = await hardhatEthers.getContractFactory("Multicall3", wallet);
+    const multicall = await MulticallFactory.deploy();
+    await multicall.waitForDeployment();
+    multicall3 = await multicall.getAddress();
+    console.log("Multicall3 deployed at:", multicall3);
+  }
 
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
     console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
   } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
+    // Only the entry for the chain deployed to changes; other networks keep their addresses
+    const configPath = path.join(frontendConfigDir, "config.json");
+    const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    const existing = networkForChain(parseNetworkRegistry(config), chainId);
+    const key = existing?.key ?? (chainId === LOCAL_CHAIN_ID ? "localhost" : `chain-${chainId}`);
+    const entry = config.networks[key] ?? {
+      name: key,
+      chainId,
+      rpcUrls: [],
+      explorerUrl: null,
+      currency: "ETH",
+      contracts: {},
+      relayer: null,
+    };
+    config.networks[key] = {
+      ...entry,
+      rpcUrls: entry.rpcUrls.includes(rpc) ? entry.rpcUrls : [rpc, ...entry.rpcUrls],
+      contracts: { ...entry.contracts, attentionVote: deployedAddress, multicall3 },
+      // The event indexer starts replaying logs from this block
+      deployBlock: deployReceipt?.blockNumber ?? null,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+    config.deployer = wallet.address;
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    console.log(`Wrote the ${key} network to frontend/web/src/config.json`);
 
     // Copy ABI to the frontend
     try {
@@ -368,16 +398,16 @@ async function main() {
         "..",
         "artifacts",
         "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
+        "AttentionVote_FHE.sol",
+        "AttentionVote_FHE.json"
       );
       const targetAbiPath = path.join(frontendConfigDir, "abi");
       if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
+      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "AttentionVote_FHE.json"));
+      console.log("Copied ABI to frontend/web/src/abi/AttentionVote_FHE.json");
     } catch (e) {
       console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
+        "Failed to copy ABI automatically. Please copy artifacts/.../AttentionVote_FHE.json manually to frontend/web/src/abi/AttentionVote_FHE.json",
         e
       );
     }
@@ -1,71 +1,135 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Route, Routes, useNavigate } from "react-router-dom";
+import { contractAddress, getContractReadOnly, getContractWithSigner, normAddr } from "./contract";
+import { activeNetwork, selectNetworkForChain, switchWalletNetwork } from "./networks";
+import type { NetworkConfig } from "../../../src/network/networks";
+import {
+  AdmissionPolicy,
+  castVote,
+  changeVote,
+  createProposal,
+  delegate,
+  executeProposal,
+  getActivityTypes,
+  getAdmissionPolicy,
+  getDecayModel,
+  getMember,
+  getProposalCount,
+  getProposals,
+  getThresholds,
+  getWeightCurve,
+  hasVoted,
+  joinDAO,
+  MemberState,
+  VoteChoice,
+  requestOutcomeDecryption,
+  requestVoteCountDecryption,
+  revokeDelegation,
+  Thresholds
+} from "./attentionVote";
+import type { ActivityType, DecayModel } from "../../../src/attention/attentionModel";
+import type { WeightCurve } from "../../../src/attention/weightCurves";
+import { encryptShareBps, encryptVote, userDecrypt } from "./fhe";
+import { emptyIndex, IndexedDelegation, IndexedVote } from "./indexer";
+import { syncGovernanceIndex } from "./indexCache";
+import { metadataStore } from "./metadataStore";
+import { loadProposal, ProposalDocument, publishProposal } from "../../../src/metadata/proposalMetadata";
+import type { ProposalAction } from "../../../src/execution/proposalActions";
+import { formatBps, outcomeLabel, phaseOf, Proposal } from "./proposals";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import ProposalForm from "./components/ProposalForm";
+import ProposalPage from "./components/ProposalPage";
+import DelegationPage from "./components/DelegationPage";
+import JoinWizard from "./components/JoinWizard";
+import MyAttentionPanel from "./components/MyAttentionPanel";
+import WeightCurvePanel from "./components/WeightCurvePanel";
+import RpcDiagnostics from "./components/RpcDiagnostics";
+import ConsistencyWarning from "./components/ConsistencyWarning";
+import { criticalRead } from "./criticalReads";
+import { notDeployedError, toAppError, walletNotConnectedError } from "./errors";
+import type { AppError } from "../../../src/errors/appErrors";
+import ErrorNotice from "./components/ErrorNotice";
 import "./App.css";
+import ExplorerLink from "./components/ExplorerLink";
 
-interface VoteRecord {
-  id: string;
-  proposalId: string;
-  voter: string;
-  attentionScore: number;
-  timestamp: number;
-  encryptedVote: string;
-  weight: number;
-  status: "pending" | "counted" | "invalid";
-}
-
-interface Proposal {
-  id: string;
-  title: string;
-  description: string;
-  creator: string;
-  createdAt: number;
-  endTime: number;
-  totalVotes: number;
-  status: "active" | "passed" | "rejected";
-}
 
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
-  const [votes, setVotes] = useState<VoteRecord[]>([]);
+  const [votes, setVotes] = useState<IndexedVote[]>([]);
+  const [memberAddresses, setMemberAddresses] = useState<string[]>([]);
+  const [delegations, setDelegations] = useState<Record<string, IndexedDelegation>>({});
   const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [member, setMember] = useState<MemberState | null>(null);
+  const [thresholds, setThresholds] = useState<Thresholds | null>(null);
+  const [decayModel, setDecayModel] = useState<DecayModel | null>(null);
+  const [weightCurve, setWeightCurve] = useState<WeightCurve | null>(null);
+  const [admissionPolicy, setAdmissionPolicy] = useState<AdmissionPolicy | null>(null);
+  const [countWarning, setCountWarning] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<AppError | null>(null);
+  const [activityTypes, setActivityTypes] = useState<ActivityType[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [network, setNetwork] = useState<NetworkConfig>(activeNetwork());
+  // Null until a wallet connects
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
     message: string;
+    // Errors say what to do next, and offer a button where the app can do it
+    recovery?: string;
+    action?: { label: string; run: () => void };
   }>({ visible: false, status: "pending", message: "" });
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
+  const navigate = useNavigate();
 
   // Calculate statistics for dashboard
-  const countedVotes = votes.filter(v => v.status === "counted").length;
-  const pendingVotes = votes.filter(v => v.status === "pending").length;
-  const invalidVotes = votes.filter(v => v.status === "invalid").length;
-  const activeProposals = proposals.filter(p => p.status === "active").length;
-  const passedProposals = proposals.filter(p => p.status === "passed").length;
-  const rejectedProposals = proposals.filter(p => p.status === "rejected").length;
+  const phaseById = new Map(proposals.map(p => [p.id, p.phase]));
+  const activeProposals = proposals.filter(p => p.phase === "active").length;
+  const endedProposals = proposals.filter(p => p.phase === "ended").length;
+  const executedProposals = proposals.filter(p => p.phase === "executed").length;
+  const votedOn = new Set(votes.filter(v => account && v.voter === normAddr(account)).map(v => v.proposalId));
+  const pendingProposals = proposals.filter(p => p.phase !== "executed");
+  const votesOnActive = votes.filter(v => phaseById.get(v.proposalId) === "active").length;
 
   // Filter votes based on search and filter criteria
   const filteredVotes = votes.filter(vote => {
     const matchesSearch = searchQuery === "" || 
-      vote.proposalId.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      String(vote.proposalId).includes(searchQuery) ||
       vote.voter.toLowerCase().includes(searchQuery.toLowerCase());
     
-    const matchesFilter = statusFilter === "all" || vote.status === statusFilter;
+    const matchesFilter = statusFilter === "all" || phaseById.get(vote.proposalId) === statusFilter;
     
     return matchesSearch && matchesFilter;
   });
 
+  const explorerUrl = network.explorerUrl;
+  const wrongNetwork = walletChainId !== null && walletChainId !== network.chainId;
+
+  // Everything on screen belongs to one network, so a switch reloads it all
   useEffect(() => {
     loadData().finally(() => setLoading(false));
-  }, []);
+  }, [network.key]);
+
+  useEffect(() => {
+    loadMember();
+  }, [account, network.key]);
+
+  // The app follows the wallet onto any network the registry knows; on any
+  // other chain it keeps the current network and offers to switch back
+  const followChain = (chainId: number) => {
+    setWalletChainId(chainId);
+    const matched = selectNetworkForChain(chainId);
+    if (matched) {
+      setNetwork(matched);
+    }
+  };
 
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -74,14 +138,20 @@ const App: React.FC = () => {
       setProvider(web3Provider);
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
+      followChain(Number((await web3Provider.getNetwork()).chainId));
       setAccount(acc);
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+      wallet.provider.on("chainChanged", (chainId: string) => {
+        // The old BrowserProvider is pinned to the previous chain
+        setProvider(new ethers.BrowserProvider(wallet.provider));
+        followChain(parseInt(chainId, 16));
+      });
     } catch (e) {
-      alert("Failed to connect wallet");
+      showError("Wallet connection failed", e);
     }
   };
 
@@ -89,145 +159,211 @@ const App: React.FC = () => {
   const onDisconnect = () => {
     setAccount("");
     setProvider(null);
+    setWalletChainId(null);
   };
 
+  const switchToActiveNetwork = async () => {
+    try {
+      await switchWalletNetwork((window as any).ethereum, network);
+    } catch (e) {
+      showError(`Could not switch to ${network.name}`, e);
+    }
+  };
+
+  // Errors stay up until dismissed so their recovery can be read
+  const showError = (failurePrefix: string, e: unknown) => {
+    const error = toAppError(e);
+    setTransactionStatus({
+      visible: true,
+      status: "error",
+      message: error.kind === "userRejected" ? error.message : `${failurePrefix}: ${error.message}`,
+      recovery: error.recovery,
+      action: error.kind === "wrongNetwork"
+        ? { label: `Switch to ${network.name}`, run: switchToActiveNetwork }
+        : error.kind === "walletNotConnected"
+          ? { label: "Connect wallet", run: onConnect }
+          : undefined
+    });
+  };
+
+  const dismissStatus = () => setTransactionStatus({ visible: false, status: "pending", message: "" });
+
   const loadData = async () => {
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
+      if (!contract) {
+        // Nothing deployed on this network; don't keep showing the last one's data
+        setProposals([]);
+        setVotes([]);
+        setMemberAddresses([]);
+        setDelegations({});
+        setCountWarning(null);
+        setLoadError(null);
         return;
       }
       
-      // Load vote records
-      const votesBytes = await contract.getData("vote_records");
-      let voteList: VoteRecord[] = [];
-      
-      if (votesBytes.length > 0) {
-        try {
-          voteList = JSON.parse(ethers.toUtf8String(votesBytes));
-        } catch (e) {
-          console.error("Error parsing vote records:", e);
-        }
-      }
-      
-      // Load proposals
-      const proposalsBytes = await contract.getData("proposals");
-      let proposalList: Proposal[] = [];
+      // History comes from replayed event logs; live status still comes from contract state
+      const [
+        proposalList,
+        index,
+        currentThresholds,
+        currentDecayModel,
+        currentWeightCurve,
+        currentActivityTypes,
+        currentAdmissionPolicy
+      ] = await Promise.all([
+        criticalRead(contract, "the proposal count", getProposalCount).then(({ value, warning }) => {
+          setCountWarning(warning);
+          return getProposals(contract, value);
+        }),
+        // Without a known deploy block the indexer would scan from genesis
+        network.deployBlock === null ? emptyIndex() : syncGovernanceIndex(contract, network.deployBlock),
+        getThresholds(contract),
+        getDecayModel(contract),
+        getWeightCurve(contract),
+        getActivityTypes(contract),
+        getAdmissionPolicy(contract)
+      ]);
       
-      if (proposalsBytes.length > 0) {
-        try {
-          proposalList = JSON.parse(ethers.toUtf8String(proposalsBytes));
-        } catch (e) {
-          console.error("Error parsing proposals:", e);
-        }
-      }
+      // Metadata is verified against the on-chain hash; a missing document is not fatal
+      const metadataList = await Promise.all(
+        proposalList.map(p => loadProposal(metadataStore, p.metadataHash).catch(() => null))
+      );
       
-      setVotes(voteList);
-      setProposals(proposalList);
+      setVotes([...index.votes].reverse());
+      setMemberAddresses(Object.keys(index.members));
+      setDelegations(index.delegations);
+      setThresholds(currentThresholds);
+      setDecayModel(currentDecayModel);
+      setWeightCurve(currentWeightCurve);
+      setActivityTypes(currentActivityTypes);
+      setAdmissionPolicy(currentAdmissionPolicy);
+      setProposals(proposalList.map((p, i) => ({
+        ...p,
+        phase: phaseOf(p),
+        created: index.proposals[p.id]?.created ?? null,
+        voteCount: index.proposals[p.id]?.voteCount ?? 0,
+        decryptionRequests: index.proposals[p.id]?.decryptionRequests.length ?? 0,
+        tally: index.proposals[p.id]?.tally ?? null,
+        outcomeRequested: (index.proposals[p.id]?.outcomeRequests.length ?? 0) > 0,
+        outcomeRef: index.proposals[p.id]?.outcome?.ref ?? null,
+        metadata: metadataList[i]
+      })));
+      setLoadError(null);
     } catch (e) {
-      console.error("Error loading data:", e);
+      setLoadError(toAppError(e));
     } finally {
       setIsRefreshing(false);
       setLoading(false);
     }
   };
 
+  const loadMember = async () => {
+    if (!account) {
+      setMember(null);
+      return;
+    }
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) {
+        setMember(null);
+        return;
+      }
+      setMember(await getMember(contract, account));
+    } catch (e) {
+      setLoadError(toAppError(e));
+    }
+  };
+
   const checkAvailability = async () => {
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
+      if (!contract) throw notDeployedError();
       
-      const isAvailable = await contract.isAvailable();
+      const count = await contract.proposalCount();
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: isAvailable ? "Contract is available!" : "Contract is not available"
+        message: `Contract is available! ${count} proposals on-chain`
       });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
     } catch (e) {
+      showError("Contract unavailable", e);
+    }
+  };
+
+  const submitProposal = async (document: ProposalDocument, duration: number, actions: ProposalAction[]) => {
+    if (!provider) {
+      showError("Creation failed", walletNotConnectedError());
+      return;
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Publishing proposal metadata..."
+    });
+    
+    try {
+      const metadataHash = await publishProposal(metadataStore, document);
+      
       setTransactionStatus({
         visible: true,
-        status: "error",
-        message: "Error checking availability"
+        status: "pending",
+        message: "Submitting proposal..."
       });
       
+      const contract = await getContractWithSigner();
+      const { proposalId } = await createProposal(contract, duration, metadataHash, actions);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Proposal #${proposalId} created!`
+      });
+      
+      await loadData();
+      navigate(`/proposals/${proposalId}`);
+      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      }, 2000);
+    } catch (e) {
+      showError("Creation failed", e);
     }
   };
 
-  const createTestVote = async () => {
-    if (!provider) { 
-      alert("Please connect wallet first"); 
-      return; 
+  // Execute and tally requests share the same flow: one signed call, then a
+  // refresh so the indexer picks up the emitted event.
+  const runLifecycleAction = async (
+    pendingMessage: string,
+    successMessage: string,
+    failurePrefix: string,
+    action: () => Promise<unknown>
+  ) => {
+    if (!provider || !account) {
+      showError(failurePrefix, walletNotConnectedError());
+      return;
     }
     
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Creating encrypted vote with FHE..."
+      message: pendingMessage
     });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      // Generate random vote data
-      const voteId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const proposalId = `prop-${Math.floor(Math.random() * 5) + 1}`;
-      const attentionScore = Math.floor(Math.random() * 100) + 1;
-      const weight = Math.floor(attentionScore * 0.8) + Math.random() * 20;
-      
-      const voteData = {
-        id: voteId,
-        proposalId,
-        voter: account,
-        attentionScore,
-        timestamp: Math.floor(Date.now() / 1000),
-        encryptedVote: `FHE-ENCRYPTED-VOTE-${btoa(JSON.stringify({
-          choice: Math.random() > 0.5 ? "yes" : "no",
-          confidence: Math.random()
-        }))}`,
-        weight,
-        status: "pending"
-      };
-      
-      // Update vote records
-      const votesBytes = await contract.getData("vote_records");
-      let voteList: VoteRecord[] = [];
-      
-      if (votesBytes.length > 0) {
-        try {
-          voteList = JSON.parse(ethers.toUtf8String(votesBytes));
-        } catch (e) {
-          console.error("Error parsing votes:", e);
-        }
-      }
-      
-      voteList.push(voteData);
-      
-      await contract.setData(
-        "vote_records", 
-        ethers.toUtf8Bytes(JSON.stringify(voteList))
-      );
+      await action();
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Encrypted vote created with FHE!"
+        message: successMessage
       });
       
       await loadData();
@@ -235,20 +371,114 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Creation failed: " + (e.message || "Unknown error");
+    } catch (e) {
+      showError(failurePrefix, e);
+    }
+  };
+
+  const executeLifecycle = (proposalId: number) =>
+    runLifecycleAction(
+      `Executing proposal #${proposalId}...`,
+      `Proposal #${proposalId} executed!`,
+      "Execution failed",
+      async () => executeProposal(await getContractWithSigner(), proposalId)
+    );
+
+  const requestOutcome = (proposalId: number) =>
+    runLifecycleAction(
+      `Requesting the quorum outcome for proposal #${proposalId}...`,
+      "Outcome sent to the decryption oracle",
+      "Outcome request failed",
+      async () => requestOutcomeDecryption(await getContractWithSigner(), proposalId)
+    );
+
+  const requestTally = (proposalId: number) =>
+    runLifecycleAction(
+      `Requesting tally decryption for proposal #${proposalId}...`,
+      "Tally sent to the decryption oracle",
+      "Decryption request failed",
+      async () => requestVoteCountDecryption(await getContractWithSigner(), proposalId)
+    );
+
+  const delegateWeight = async (to: string, shareBps: number) =>
+    runLifecycleAction(
+      `Encrypting and delegating ${formatBps(shareBps)} of your weight...`,
+      "Delegation updated",
+      "Delegation failed",
+      async () => delegate(await getContractWithSigner(), to, await encryptShareBps(contractAddress(), account, shareBps))
+    );
+
+  const revokeOwnDelegation = () =>
+    runLifecycleAction(
+      "Revoking your delegation...",
+      "Delegation revoked",
+      "Revoke failed",
+      async () => revokeDelegation(await getContractWithSigner())
+    );
+
+  const decryptOwn = async (handles: string[]) => {
+    if (!provider) throw walletNotConnectedError();
+    return userDecrypt(contractAddress(), await provider.getSigner(), handles);
+  };
+
+  // The admission policy assigns the starting score; the proof id is only
+  // needed while the DAO requires a credential
+  const joinDao = (proofId?: string) =>
+    runLifecycleAction(
+      "Joining the DAO...",
+      "Welcome to the DAO!",
+      "Join failed",
+      async () => {
+        await joinDAO(await getContractWithSigner(), proofId);
+        await loadMember();
+      }
+    );
+
+  const castEncryptedVote = async (proposalId: number, choice: VoteChoice) => {
+    if (!provider || !account) {
+      showError("Vote failed", walletNotConnectedError());
+      return;
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Encrypting vote with FHE..."
+    });
+    
+    try {
+      const vote = await encryptVote(contractAddress(), account, choice);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted vote..."
+      });
+      
+      // The contract rejects a second castVote, so an existing ballot is replaced instead
+      const contract = await getContractWithSigner();
+      const replacing = await hasVoted(contract, proposalId, account);
+      if (replacing) {
+        await changeVote(contract, proposalId, vote);
+      } else {
+        await castVote(contract, proposalId, vote);
+      }
       
       setTransactionStatus({
         visible: true,
-        status: "error",
-        message: errorMessage
+        status: "success",
+        message: replacing
+          ? `Encrypted vote on proposal #${proposalId} changed!`
+          : `Encrypted vote cast on proposal #${proposalId}!`
       });
       
+      await loadData();
+      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      }, 2000);
+    } catch (e) {
+      showError("Vote failed", e);
     }
   };
 
@@ -261,8 +491,8 @@ const App: React.FC = () => {
   };
 
   const renderBarChart = () => {
-    // Sample data for bar chart - proposal votes
-    const data = proposals.slice(0, 5).map(p => p.totalVotes);
+    // Ballots cast per proposal, newest proposals first
+    const data = proposals.slice(-5).reverse().map(p => p.voteCount);
     const maxValue = Math.max(...data, 1);
     
     return (
@@ -298,12 +528,26 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          {!member?.isActive && (
+            <button 
+              onClick={() => navigate("/join")} 
+              className="action-btn cyber-button"
+            >
+              Join DAO
+            </button>
+          )}
           <button 
-            onClick={createTestVote} 
+            onClick={() => navigate("/proposals/new")} 
             className="action-btn cyber-button"
           >
             <div className="pulse-dot"></div>
-            Cast Test Vote
+            New Proposal
+          </button>
+          <button 
+            onClick={() => navigate("/delegation")} 
+            className="action-btn cyber-button"
+          >
+            Delegation
           </button>
           <button 
             onClick={checkAvailability}
@@ -311,218 +555,401 @@ const App: React.FC = () => {
           >
             Check FHE Status
           </button>
+          <span className="network-badge" title={`Chain ${network.chainId}`}>{network.name}</span>
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
       
-      <div className="main-content">
-        {/* Project Introduction */}
-        <div className="intro-section cyber-card">
-          <h2>FHE-Based Private DAO with Attention-based Voting</h2>
-          <p>
-            A decentralized autonomous organization where voting power is dynamically determined 
-            by encrypted, historical participation (attention) using Fully Homomorphic Encryption (FHE).
-          </p>
-          <div className="fhe-badge">
-            <span>FHE-Powered Privacy</span>
-          </div>
+      <ConsistencyWarning warning={countWarning} />
+      <ErrorNotice error={loadError} onRetry={loadData} onSwitchNetwork={switchToActiveNetwork} />
+
+      {wrongNetwork && (
+        <div className="network-banner">
+          <span>
+            Your wallet is on chain {walletChainId}, which this app is not configured for. Reads still come
+            from {network.name}, but transactions need the wallet on it too.
+          </span>
+          <button className="cyber-button" onClick={switchToActiveNetwork}>
+            Switch to {network.name}
+          </button>
         </div>
+      )}
+      
+      <div className="main-content">
+        <Routes>
+          <Route path="/proposals/new" element={
+            <ProposalForm
+              canSubmit={!!member?.isActive}
+              thresholds={thresholds}
+              onSubmit={submitProposal}
+              onCancel={() => navigate("/")}
+            />
+          } />
+          <Route path="/proposals/:id" element={
+            <ProposalPage
+              proposals={proposals}
+              account={account}
+              isMember={!!member?.isActive}
+              votedOn={votedOn}
+              explorerUrl={explorerUrl}
+              onVote={castEncryptedVote}
+              onExecute={executeLifecycle}
+              onRequestOutcome={requestOutcome}
+              onRequestTally={requestTally}
+              onDecrypt={decryptOwn}
+            />
+          } />
+          <Route path="/join" element={
+            <JoinWizard
+              account={account}
+              isMember={!!member?.isActive}
+              policy={admissionPolicy}
+              explorerUrl={explorerUrl}
+              onConnect={onConnect}
+              onJoin={joinDao}
+            />
+          } />
+          <Route path="/delegation" element={
+            <DelegationPage
+              account={account}
+              isMember={!!member?.isActive}
+              members={memberAddresses}
+              delegations={delegations}
+              explorerUrl={explorerUrl}
+              onDelegate={delegateWeight}
+              onRevoke={revokeOwnDelegation}
+              onDecrypt={decryptOwn}
+            />
+          } />
+          <Route path="/" element={
+            <>
+              {/* Project Introduction */}
+              <div className="intro-section cyber-card">
+                <h2>FHE-Based Private DAO with Attention-based Voting</h2>
+                <p>
+                  A decentralized autonomous organization where voting power is dynamically determined 
+                  by encrypted, historical participation (attention) using Fully Homomorphic Encryption (FHE).
+                </p>
+                <div className="fhe-badge">
+                  <span>FHE-Powered Privacy</span>
+                </div>
+              </div>
         
-        {/* Dashboard Stats */}
-        <div className="dashboard-grid">
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">📊</div>
-            <div className="stat-content">
-              <h3>{votes.length}</h3>
-              <p>Total Votes</p>
-            </div>
-          </div>
-          
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">✅</div>
-            <div className="stat-content">
-              <h3>{countedVotes}</h3>
-              <p>Counted Votes</p>
-            </div>
-          </div>
-          
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">⏳</div>
-            <div className="stat-content">
-              <h3>{pendingVotes}</h3>
-              <p>Pending Votes</p>
-            </div>
-          </div>
+              {/* Dashboard Stats */}
+              <div className="dashboard-grid">
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">📊</div>
+                  <div className="stat-content">
+                    <h3>{votes.length}</h3>
+                    <p>Total Votes</p>
+                  </div>
+                </div>
           
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">🚫</div>
-            <div className="stat-content">
-              <h3>{invalidVotes}</h3>
-              <p>Invalid Votes</p>
-            </div>
-          </div>
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">👥</div>
+                  <div className="stat-content">
+                    <h3>{memberAddresses.length}</h3>
+                    <p>DAO Members</p>
+                  </div>
+                </div>
           
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">🗳️</div>
-            <div className="stat-content">
-              <h3>{proposals.length}</h3>
-              <p>Total Proposals</p>
-            </div>
-          </div>
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">⏳</div>
+                  <div className="stat-content">
+                    <h3>{votesOnActive}</h3>
+                    <p>Votes on Open Proposals</p>
+                  </div>
+                </div>
           
-          <div className="stat-card cyber-card">
-            <div className="stat-icon">🔵</div>
-            <div className="stat-content">
-              <h3>{activeProposals}</h3>
-              <p>Active Proposals</p>
-            </div>
-          </div>
-        </div>
-        
-        {/* Charts Section */}
-        <div className="charts-section">
-          <div className="chart-card cyber-card">
-            <h3>Vote Status Distribution</h3>
-            <div className="pie-chart-container">
-              <div className="pie-chart">
-                <div 
-                  className="pie-segment counted" 
-                  style={{ transform: `rotate(${(countedVotes / votes.length) * 360}deg)` }}
-                ></div>
-                <div 
-                  className="pie-segment pending" 
-                  style={{ transform: `rotate(${((countedVotes + pendingVotes) / votes.length) * 360}deg)` }}
-                ></div>
-                <div 
-                  className="pie-segment invalid" 
-                  style={{ transform: `rotate(${((countedVotes + pendingVotes + invalidVotes) / votes.length) * 360}deg)` }}
-                ></div>
-                <div className="pie-center">
-                  <div className="pie-value">{votes.length}</div>
-                  <div className="pie-label">Votes</div>
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">✅</div>
+                  <div className="stat-content">
+                    <h3>{executedProposals}</h3>
+                    <p>Executed Proposals</p>
+                  </div>
                 </div>
-              </div>
-              <div className="pie-legend">
-                <div className="legend-item">
-                  <div className="color-box counted"></div>
-                  <span>Counted: {countedVotes}</span>
+          
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">👤</div>
+                  <div className="stat-content">
+                    <h3>{member?.isActive ? "Member" : "Guest"}</h3>
+                    <p>{member?.isActive ? `Last active ${new Date(member.lastActive * 1000).toLocaleDateString()}` : "Not a DAO member"}</p>
+                  </div>
                 </div>
-                <div className="legend-item">
-                  <div className="color-box pending"></div>
-                  <span>Pending: {pendingVotes}</span>
+          
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">🗳️</div>
+                  <div className="stat-content">
+                    <h3>{proposals.length}</h3>
+                    <p>Total Proposals</p>
+                  </div>
                 </div>
-                <div className="legend-item">
-                  <div className="color-box invalid"></div>
-                  <span>Invalid: {invalidVotes}</span>
+          
+                <div className="stat-card cyber-card">
+                  <div className="stat-icon">🔵</div>
+                  <div className="stat-content">
+                    <h3>{activeProposals}</h3>
+                    <p>Active Proposals</p>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
-          
-          <div className="chart-card cyber-card">
-            <h3>Top Proposals by Votes</h3>
-            {renderBarChart()}
-          </div>
-        </div>
-        
-        {/* Votes List with Search & Filter */}
-        <div className="votes-section">
-          <div className="section-header">
-            <h2>Encrypted Vote Records</h2>
-            <div className="header-actions">
-              <div className="search-box">
-                <input 
-                  type="text" 
-                  placeholder="Search votes..." 
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="cyber-input"
+
+              {account && member?.isActive && (
+                <MyAttentionPanel
+                  member={member}
+                  decayModel={decayModel}
+                  weightCurve={weightCurve}
+                  activityTypes={activityTypes}
+                  onDecrypt={decryptOwn}
                 />
+              )}
+        
+              {/* Activity Weights */}
+              <div className="activity-types cyber-card">
+                <h3>Activity Weights</h3>
+                <p className="form-hint">
+                  Each member keeps an encrypted count per activity type. Activity is credited to the attention score at
+                  these weights, so a reweighting only affects activity from then on.
+                </p>
+                {activityTypes.map(type => (
+                  <div className="detail-row" key={type.id}>
+                    <span className="detail-label">{type.name}</span>
+                    <span className="detail-value">× {type.weight}</span>
+                  </div>
+                ))}
               </div>
-              <select 
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value)}
-                className="cyber-select"
-              >
-                <option value="all">All Status</option>
-                <option value="counted">Counted</option>
-                <option value="pending">Pending</option>
-                <option value="invalid">Invalid</option>
-              </select>
-              <button 
-                onClick={loadData}
-                className="refresh-btn cyber-button"
-                disabled={isRefreshing}
-              >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-          </div>
-          
-          <div className="votes-list cyber-card">
-            {filteredVotes.length === 0 ? (
-              <div className="no-votes">
-                <div className="no-votes-icon">🗳️</div>
-                <p>No vote records found</p>
-                <button 
-                  className="cyber-button primary"
-                  onClick={createTestVote}
-                >
-                  Create Test Vote
-                </button>
-              </div>
-            ) : (
-              filteredVotes.map(vote => (
-                <div className="vote-item" key={vote.id}>
-                  <div className="vote-summary" onClick={() => toggleExpand(vote.id)}>
-                    <div className="vote-info">
-                      <div className="vote-id">Vote #{vote.id.substring(0, 6)}</div>
-                      <div className="vote-proposal">Proposal: {vote.proposalId}</div>
-                      <div className="vote-voter">Voter: {vote.voter.substring(0, 6)}...{vote.voter.substring(38)}</div>
+        
+              <WeightCurvePanel curve={weightCurve} />
+        
+              <RpcDiagnostics network={network} />
+        
+              {/* Charts Section */}
+              <div className="charts-section">
+                <div className="chart-card cyber-card">
+                  <h3>Proposal Status Distribution</h3>
+                  <div className="pie-chart-container">
+                    <div className="pie-chart">
+                      <div 
+                        className="pie-segment active" 
+                        style={{ transform: `rotate(${(activeProposals / proposals.length) * 360}deg)` }}
+                      ></div>
+                      <div 
+                        className="pie-segment ended" 
+                        style={{ transform: `rotate(${((activeProposals + endedProposals) / proposals.length) * 360}deg)` }}
+                      ></div>
+                      <div 
+                        className="pie-segment executed" 
+                        style={{ transform: `rotate(${((activeProposals + endedProposals + executedProposals) / proposals.length) * 360}deg)` }}
+                      ></div>
+                      <div className="pie-center">
+                        <div className="pie-value">{proposals.length}</div>
+                        <div className="pie-label">Proposals</div>
+                      </div>
                     </div>
-                    <div className="vote-stats">
-                      <div className="attention-score">
-                        <span className="label">Attention:</span>
-                        <span className="value">{vote.attentionScore}</span>
+                    <div className="pie-legend">
+                      <div className="legend-item">
+                        <div className="color-box active"></div>
+                        <span>Active: {activeProposals}</span>
                       </div>
-                      <div className="vote-weight">
-                        <span className="label">Weight:</span>
-                        <span className="value">{vote.weight.toFixed(2)}</span>
+                      <div className="legend-item">
+                        <div className="color-box ended"></div>
+                        <span>Awaiting execution: {endedProposals}</span>
                       </div>
-                      <div className={`vote-status ${vote.status}`}>
-                        {vote.status}
+                      <div className="legend-item">
+                        <div className="color-box executed"></div>
+                        <span>Executed: {executedProposals}</span>
                       </div>
                     </div>
-                    <div className="expand-icon">
-                      {expandedItem === vote.id ? "▼" : "▶"}
+                  </div>
+                </div>
+          
+                <div className="chart-card cyber-card">
+                  <h3>Top Proposals by Votes</h3>
+                  {renderBarChart()}
+                </div>
+              </div>
+        
+              {/* Open Proposals */}
+              <div className="votes-section">
+                <div className="section-header">
+                  <h2>Pending Proposals</h2>
+                </div>
+          
+                <div className="votes-list cyber-card">
+                  {pendingProposals.length === 0 ? (
+                    <div className="no-votes">
+                      <p>No proposals are open for voting or awaiting execution</p>
+                    </div>
+                  ) : (
+                    pendingProposals.map(proposal => (
+                      <div className="vote-item" key={proposal.id}>
+                        <div className="vote-summary">
+                          <div className="vote-info">
+                            <div className="vote-id">
+                              <Link to={`/proposals/${proposal.id}`}>
+                                Proposal #{proposal.id}: {proposal.metadata?.document.title ?? "Metadata unavailable"}
+                              </Link>
+                              {proposal.metadata && (
+                                <span className={`metadata-badge ${proposal.metadata.verified ? "verified" : "mismatch"}`}>
+                                  {proposal.metadata.verified ? "✓ hash verified" : "⚠ hash mismatch"}
+                                </span>
+                              )}
+                            </div>
+                            <div className="vote-proposal">Ends: {new Date(proposal.endTime * 1000).toLocaleString()}</div>
+                            {proposal.created && (
+                              <div className="vote-voter">
+                                Created in block{" "}
+                                <ExplorerLink base={explorerUrl} path={`tx/${proposal.created.txHash}`}>
+                                  {proposal.created.blockNumber}
+                                </ExplorerLink>
+                              </div>
+                            )}
+                          </div>
+                          <div className="vote-stats">
+                            {proposal.phase === "active" ? (
+                              <>
+                                <button 
+                                  className="cyber-button"
+                                  disabled={!member?.isActive}
+                                  onClick={() => castEncryptedVote(proposal.id, "for")}
+                                >
+                                  {votedOn.has(proposal.id) ? "Change to For" : "Vote For"}
+                                </button>
+                                <button 
+                                  className="cyber-button"
+                                  disabled={!member?.isActive}
+                                  onClick={() => castEncryptedVote(proposal.id, "against")}
+                                >
+                                  {votedOn.has(proposal.id) ? "Change to Against" : "Vote Against"}
+                                </button>
+                                <button 
+                                  className="cyber-button"
+                                  disabled={!member?.isActive}
+                                  onClick={() => castEncryptedVote(proposal.id, "abstain")}
+                                >
+                                  {votedOn.has(proposal.id) ? "Change to Abstain" : "Abstain"}
+                                </button>
+                              </>
+                            ) : (
+                              <Link to={`/proposals/${proposal.id}`} className="cyber-button success">
+                                {outcomeLabel(proposal)}
+                              </Link>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+        
+              {/* Votes List with Search & Filter */}
+              <div className="votes-section">
+                <div className="section-header">
+                  <h2>Encrypted Vote Records</h2>
+                  <div className="header-actions">
+                    <div className="search-box">
+                      <input 
+                        type="text" 
+                        placeholder="Search votes..." 
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="cyber-input"
+                      />
                     </div>
+                    <select 
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value)}
+                      className="cyber-select"
+                    >
+                      <option value="all">All Proposals</option>
+                      <option value="active">Active</option>
+                      <option value="ended">Awaiting Execution</option>
+                      <option value="executed">Executed</option>
+                    </select>
+                    <button 
+                      onClick={loadData}
+                      className="refresh-btn cyber-button"
+                      disabled={isRefreshing}
+                    >
+                      {isRefreshing ? "Refreshing..." : "Refresh"}
+                    </button>
                   </div>
+                </div>
+          
+                <div className="votes-list cyber-card">
+                  {filteredVotes.length === 0 ? (
+                    <div className="no-votes">
+                      <div className="no-votes-icon">🗳️</div>
+                      <p>No vote records found</p>
+                      <button 
+                        className="cyber-button primary"
+                        onClick={() => navigate("/proposals/new")}
+                      >
+                        Create Proposal
+                      </button>
+                    </div>
+                  ) : (
+                    filteredVotes.map(vote => (
+                      <div className="vote-item" key={vote.id}>
+                        <div className="vote-summary" onClick={() => toggleExpand(vote.id)}>
+                          <div className="vote-info">
+                            <div className="vote-id">Vote {vote.ref.txHash.substring(0, 10)}</div>
+                            <div className="vote-proposal">
+                              Proposal: <Link to={`/proposals/${vote.proposalId}`} onClick={e => e.stopPropagation()}>#{vote.proposalId}</Link>
+                            </div>
+                            <div className="vote-voter">Voter: {vote.voter.substring(0, 6)}...{vote.voter.substring(38)}</div>
+                          </div>
+                          <div className="vote-stats">
+                            <div className="attention-score">
+                              <span className="label">Block:</span>
+                              <span className="value">{vote.ref.blockNumber}</span>
+                            </div>
+                            <div className={`vote-status ${phaseById.get(vote.proposalId)}`}>
+                              {phaseById.get(vote.proposalId)}
+                            </div>
+                          </div>
+                          <div className="expand-icon">
+                            {expandedItem === vote.id ? "▼" : "▶"}
+                          </div>
+                        </div>
                   
-                  {expandedItem === vote.id && (
-                    <div className="vote-details">
-                      <div className="detail-row">
-                        <span className="detail-label">Vote ID:</span>
-                        <span className="detail-value">{vote.id}</span>
-                      </div>
-                      <div className="detail-row">
-                        <span className="detail-label">Timestamp:</span>
-                        <span className="detail-value">{new Date(vote.timestamp * 1000).toLocaleString()}</span>
-                      </div>
-                      <div className="detail-row">
-                        <span className="detail-label">Encrypted Vote:</span>
-                        <span className="detail-value encrypted">{vote.encryptedVote.substring(0, 30)}...</span>
+                        {expandedItem === vote.id && (
+                          <div className="vote-details">
+                            <div className="detail-row">
+                              <span className="detail-label">Transaction:</span>
+                              <ExplorerLink className="detail-value" base={explorerUrl} path={`tx/${vote.ref.txHash}`}>
+                                {vote.ref.txHash}
+                              </ExplorerLink>
+                            </div>
+                            <div className="detail-row">
+                              <span className="detail-label">Block:</span>
+                              <ExplorerLink className="detail-value" base={explorerUrl} path={`block/${vote.ref.blockNumber}`}>
+                                {vote.ref.blockNumber} ({vote.ref.blockHash.substring(0, 10)}...)
+                              </ExplorerLink>
+                            </div>
+                            <div className="detail-row">
+                              <span className="detail-label">Ballot:</span>
+                              <span className="detail-value encrypted">Encrypted on-chain, weighted by attention</span>
+                            </div>
+                            {vote.changes.length > 0 && (
+                              <div className="detail-row">
+                                <span className="detail-label">Changed:</span>
+                                <ExplorerLink className="detail-value" base={explorerUrl} path={`tx/${vote.changes[vote.changes.length - 1].txHash}`}>
+                                  {vote.changes.length} time{vote.changes.length === 1 ? "" : "s"}, last in block {vote.changes[vote.changes.length - 1].blockNumber}
+                                </ExplorerLink>
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
-                      <div className="detail-row">
-                        <span className="detail-label">FHE Processed:</span>
-                        <span className="detail-value">{vote.status === "counted" ? "Yes" : "No"}</span>
-                      </div>
-                    </div>
+                    ))
                   )}
                 </div>
-              ))
-            )}
-          </div>
-        </div>
+              </div>
+            </>
+          } />
+        </Routes>
       </div>
       
       {walletSelectorOpen && (
@@ -544,6 +971,26 @@ const App: React.FC = () => {
             <div className="transaction-message">
               {transactionStatus.message}
             </div>
+            {transactionStatus.status === "error" && (
+              <>
+                {transactionStatus.recovery && (
+                  <div className="transaction-recovery">{transactionStatus.recovery}</div>
+                )}
+                <div className="transaction-actions">
+                  {transactionStatus.action && (
+                    <button
+                      className="cyber-button"
+                      onClick={() => { dismissStatus(); transactionStatus.action?.run(); }}
+                    >
+                      {transactionStatus.action.label}
+                    </button>
+                  )}
+                  <button className="cyber-button" onClick={dismissStatus}>
+                    Dismiss
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,350 @@
+// attentionVote.ts
+import { ZeroAddress, ZeroHash } from "ethers";
+import type { BigNumberish, BlockTag } from "ethers";
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import { VeriIdWalletFHE__factory } from "../../../types/factories/contracts/VeriIdWalletFHE__factory";
+import type { ActivityType, DecayModel } from "../../../src/attention/attentionModel";
+import { CurveKind, WeightCurve } from "../../../src/attention/weightCurves";
+import type { ProposalAction } from "../../../src/execution/proposalActions";
+import { normAddr } from "./contract";
+import type { EncryptedInput } from "./fhe";
+
+export interface ProposalStatus {
+  votingEnded: boolean;
+  isExecuted: boolean;
+}
+
+export type VoteChoice = "against" | "for" | "abstain";
+
+// Must match the CHOICE_* constants in AttentionVote_FHE.sol
+export const CHOICE_VALUES: Record<VoteChoice, number> = {
+  against: 0,
+  for: 1,
+  abstain: 2,
+};
+
+// Per-choice weight sums plus the weight of everyone who voted. On-chain these
+// are ciphertext handles until the tally is revealed.
+export interface Tally<T = number> {
+  forWeight: T;
+  againstWeight: T;
+  abstainWeight: T;
+  turnoutWeight: T;
+}
+
+// Pass/fail booleans decrypted by the oracle; the weights behind them stay encrypted.
+export interface ProposalOutcome {
+  revealed: boolean;
+  quorumReached: boolean;
+  approved: boolean;
+}
+
+// Basis points, snapshotted on the proposal when it is created
+export interface Thresholds {
+  quorumBps: number;
+  approvalBps: number;
+}
+
+export interface ProposalState extends ProposalStatus {
+  id: number;
+  endTime: number;
+  encryptedTally: Tally<string>;
+  metadataHash: string;
+  thresholds: Thresholds;
+  outcome: ProposalOutcome;
+  // Ballots count each voter's weight as it stood in this snapshot
+  weightSnapshotId: number;
+  // Unix time a passed proposal leaves the timelock, 0 until it is queued
+  eta: number;
+}
+
+export interface MemberState {
+  address: string;
+  isActive: boolean;
+  lastActive: number;
+  encryptedActivityScore: string;
+  encryptedVotingWeight: string;
+}
+
+// Joining is open when verifier is null. Otherwise the joiner needs a valid
+// proof from that VeriIdWalletFHE wallet, under the id the DAO derives for them.
+export interface AdmissionPolicy {
+  verifier: string | null;
+  credentialType: string;
+  initialScore: number;
+}
+
+export interface AdmissionProof {
+  proofId: string;
+  isValid: boolean;
+  // Unix time the verifier recorded the result, 0 while none is recorded
+  verifiedAt: number;
+}
+
+// Handles are ethers.ZeroHash until the contract first writes them
+export interface DelegationState {
+  delegate: string | null;
+  encryptedShareBps: string;
+  encryptedDelegatedWeight: string;
+  encryptedReceivedWeight: string;
+  encryptedVotingPower: string;
+}
+
+export const hasPassed = (outcome: ProposalOutcome) => outcome.revealed && outcome.quorumReached && outcome.approved;
+
+// Every lifecycle action needs the deadline to have passed. The outcome and
+// the tally are each revealed once, and execution additionally needs the
+// outcome to have passed and its timelock to have run out. Whether the tally is already public is tracked by
+// the reveal state machine in tallyReveal.ts.
+export const canRequestOutcome = (status: ProposalStatus, outcome: ProposalOutcome) =>
+  status.votingEnded && !outcome.revealed;
+export const canExecute = (status: ProposalStatus, outcome: ProposalOutcome, eta: number, now = Date.now()) =>
+  status.votingEnded && !status.isExecuted && hasPassed(outcome) && eta * 1000 <= now;
+export const canRequestTally = (status: ProposalStatus) => status.votingEnded;
+
+type PendingTx = ReturnType<AttentionVote_FHE["executeProposal"]>;
+
+const confirm = async (pending: PendingTx) => {
+  const tx = await pending;
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  return receipt;
+};
+
+// The proof id is ignored while admission is open. Simulating the call first
+// surfaces a missing or unverified proof before the wallet prompt.
+export async function joinDAO(contract: AttentionVote_FHE, proofId: string = ZeroHash) {
+  await contract.joinDAO.staticCall(proofId);
+  return confirm(contract.joinDAO(proofId));
+}
+
+// The actions are bound to the proposal for good; executing it makes each call in order
+export async function createProposal(
+  contract: AttentionVote_FHE,
+  duration: BigNumberish,
+  metadataHash: string,
+  actions: ProposalAction[] = []
+) {
+  await contract.createProposal.staticCall(duration, metadataHash, actions);
+  const receipt = await confirm(contract.createProposal(duration, metadataHash, actions));
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "ProposalCreated") {
+      return { receipt, proposalId: Number(parsed.args.proposalId) };
+    }
+  }
+  throw new Error("ProposalCreated event missing from receipt");
+}
+
+export async function castVote(contract: AttentionVote_FHE, proposalId: BigNumberish, vote: EncryptedInput) {
+  await contract.castVote.staticCall(proposalId, vote.handle, vote.inputProof);
+  return confirm(contract.castVote(proposalId, vote.handle, vote.inputProof));
+}
+
+// Only valid after castVote; the contract keeps one ballot per member and
+// swaps it in place, so the tally never counts a voter twice.
+export async function changeVote(contract: AttentionVote_FHE, proposalId: BigNumberish, vote: EncryptedInput) {
+  await contract.changeVote.staticCall(proposalId, vote.handle, vote.inputProof);
+  return confirm(contract.changeVote(proposalId, vote.handle, vote.inputProof));
+}
+
+// Replaces any earlier delegation. Like every weight change it only counts
+// towards proposals created afterwards.
+export async function delegate(contract: AttentionVote_FHE, to: string, shareBps: EncryptedInput) {
+  await contract.delegate.staticCall(to, shareBps.handle, shareBps.inputProof);
+  return confirm(contract.delegate(to, shareBps.handle, shareBps.inputProof));
+}
+
+export async function revokeDelegation(contract: AttentionVote_FHE) {
+  return confirm(contract.revokeDelegation());
+}
+
+export async function hasVoted(contract: AttentionVote_FHE, proposalId: BigNumberish, address: string) {
+  return contract.hasVoted(proposalId, address);
+}
+
+export async function executeProposal(contract: AttentionVote_FHE, proposalId: BigNumberish) {
+  return confirm(contract.executeProposal(proposalId));
+}
+
+export async function requestVoteCountDecryption(contract: AttentionVote_FHE, proposalId: BigNumberish) {
+  return confirm(contract.requestVoteCountDecryption(proposalId));
+}
+
+export async function requestOutcomeDecryption(contract: AttentionVote_FHE, proposalId: BigNumberish) {
+  return confirm(contract.requestOutcomeDecryption(proposalId));
+}
+
+export async function getThresholds(contract: AttentionVote_FHE): Promise<Thresholds> {
+  const [quorumBps, approvalBps] = await Promise.all([contract.quorumBps(), contract.approvalBps()]);
+  return { quorumBps: Number(quorumBps), approvalBps: Number(approvalBps) };
+}
+
+export async function getDecayModel(contract: AttentionVote_FHE): Promise<DecayModel> {
+  return { halfLife: Number(await contract.halfLife()) };
+}
+
+export async function getWeightCurve(contract: AttentionVote_FHE): Promise<WeightCurve> {
+  const [kind, param] = await Promise.all([contract.weightCurve(), contract.curveParam()]);
+  switch (Number(kind) as CurveKind) {
+    case CurveKind.CappedLinear:
+      return { kind: CurveKind.CappedLinear, cap: Number(param) };
+    case CurveKind.Log2:
+      return { kind: CurveKind.Log2, scale: Number(param) };
+    case CurveKind.Piecewise: {
+      const segments = await contract.getCurveSegments();
+      return {
+        kind: CurveKind.Piecewise,
+        segments: segments.map(({ start, slopeBps }) => ({ start: Number(start), slopeBps: Number(slopeBps) }))
+      };
+    }
+    case CurveKind.Linear:
+      return { kind: CurveKind.Linear };
+    default:
+      return { kind: CurveKind.Sqrt };
+  }
+}
+
+export async function getAdmissionPolicy(contract: AttentionVote_FHE): Promise<AdmissionPolicy> {
+  const [verifier, credentialType, initialScore] = await Promise.all([
+    contract.credentialVerifier(),
+    contract.requiredCredentialType(),
+    contract.admissionScore()
+  ]);
+  return {
+    verifier: verifier === ZeroAddress ? null : verifier,
+    credentialType,
+    initialScore: Number(initialScore)
+  };
+}
+
+// Looks up the joiner's proof on the verifier the DAO trusts. The issuer
+// creates it with generateProof under this id, so it only admits this account.
+export async function getAdmissionProof(
+  contract: AttentionVote_FHE,
+  verifier: string,
+  account: string
+): Promise<AdmissionProof> {
+  const proofId = await contract.admissionProofId(account);
+  const wallet = VeriIdWalletFHE__factory.connect(verifier, contract.runner);
+  const { isValid, verifiedAt } = await wallet.getProofResult(proofId);
+  return { proofId, isValid, verifiedAt: Number(verifiedAt) };
+}
+
+// Activity type ids are array indexes, assigned in registration order
+export async function getActivityTypes(contract: AttentionVote_FHE): Promise<ActivityType[]> {
+  const count = Number(await contract.activityTypeCount());
+  const ids = Array.from({ length: count }, (_, i) => i);
+  return Promise.all(
+    ids.map(async id => {
+      const { name, weight } = await contract.activityTypes(id);
+      return { id, name, weight: Number(weight) };
+    })
+  );
+}
+
+// Critical reads take a block tag so criticalReads.ts can compare endpoints at the same block
+export async function getProposalStatus(
+  contract: AttentionVote_FHE,
+  proposalId: BigNumberish,
+  blockTag?: BlockTag
+): Promise<ProposalStatus> {
+  const [votingEnded, isExecuted] = await contract.getProposalStatus(proposalId, { blockTag });
+  return { votingEnded, isExecuted };
+}
+
+// Handle of the weight a ballot was counted with, decryptable only by the voter
+export async function getBallotWeight(contract: AttentionVote_FHE, proposalId: BigNumberish, voter: string): Promise<string> {
+  return contract.getBallotWeight(proposalId, voter);
+}
+
+export async function getRevealedTally(
+  contract: AttentionVote_FHE,
+  proposalId: BigNumberish,
+  blockTag?: BlockTag
+): Promise<Tally | null> {
+  const tally = await contract.getRevealedTally(proposalId, { blockTag });
+  if (!tally.revealed) return null;
+  return {
+    forWeight: Number(tally.forWeight),
+    againstWeight: Number(tally.againstWeight),
+    abstainWeight: Number(tally.abstainWeight),
+    turnoutWeight: Number(tally.turnoutWeight),
+  };
+}
+
+export async function getProposal(contract: AttentionVote_FHE, proposalId: number): Promise<ProposalState> {
+  const [proposal, status] = await Promise.all([
+    contract.proposals(proposalId),
+    getProposalStatus(contract, proposalId),
+  ]);
+  return {
+    id: proposalId,
+    endTime: Number(proposal.endTime),
+    encryptedTally: {
+      forWeight: proposal.encryptedForWeight,
+      againstWeight: proposal.encryptedAgainstWeight,
+      abstainWeight: proposal.encryptedAbstainWeight,
+      turnoutWeight: proposal.encryptedTurnoutWeight,
+    },
+    metadataHash: proposal.metadataHash,
+    thresholds: {
+      quorumBps: Number(proposal.quorumBps),
+      approvalBps: Number(proposal.approvalBps),
+    },
+    outcome: {
+      revealed: proposal.outcomeRevealed,
+      quorumReached: proposal.quorumReached,
+      approved: proposal.approved,
+    },
+    weightSnapshotId: Number(proposal.weightSnapshotId),
+    eta: Number(proposal.eta),
+    ...status,
+  };
+}
+
+export async function getProposalCount(contract: AttentionVote_FHE, blockTag?: BlockTag): Promise<number> {
+  return Number(await contract.proposalCount({ blockTag }));
+}
+
+// Proposal ids start at 1 and are assigned sequentially by createProposal.
+export async function getProposals(contract: AttentionVote_FHE, count?: number): Promise<ProposalState[]> {
+  const total = count ?? (await getProposalCount(contract));
+  const ids = Array.from({ length: total }, (_, i) => i + 1);
+  return Promise.all(ids.map(id => getProposal(contract, id)));
+}
+
+export async function getActions(contract: AttentionVote_FHE, proposalId: BigNumberish): Promise<ProposalAction[]> {
+  const actions = await contract.getActions(proposalId);
+  return actions.map(({ target, value, data }) => ({ target, value, data }));
+}
+
+export async function getDelegation(contract: AttentionVote_FHE, address: string): Promise<DelegationState> {
+  const [[delegateAddress, encryptedShareBps, encryptedDelegatedWeight], encryptedReceivedWeight, encryptedVotingPower] =
+    await Promise.all([
+      contract.getDelegation(address),
+      contract.getReceivedWeight(address),
+      contract.getVotingPower(address)
+    ]);
+  return {
+    delegate: delegateAddress === ZeroAddress ? null : normAddr(delegateAddress),
+    encryptedShareBps,
+    encryptedDelegatedWeight,
+    encryptedReceivedWeight,
+    encryptedVotingPower,
+  };
+}
+
+export async function getMember(contract: AttentionVote_FHE, address: string): Promise<MemberState> {
+  const member = await contract.members(address);
+  return {
+    address: normAddr(address),
+    isActive: member.isActive,
+    lastActive: Number(member.lastActive),
+    encryptedActivityScore: member.encryptedActivityScore,
+    encryptedVotingWeight: member.encryptedVotingWeight,
+  };
+}
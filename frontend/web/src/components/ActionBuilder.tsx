@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  callableFunctions,
+  encodeAction,
+  MAX_ACTIONS,
+  ProposalAction,
+  transferAction
+} from '../../../../src/execution/proposalActions';
+import { KNOWN_ABIS } from '../knownAbis';
+import ActionList from './ActionList';
+
+interface ActionBuilderProps {
+  daoAddress: string;
+  actions: ProposalAction[];
+  onChange: (actions: ProposalAction[]) => void;
+}
+
+// Select value for a plain ETH transfer, which needs no ABI
+const TRANSFER = '';
+
+export default function ActionBuilder({ daoAddress, actions, onChange }: ActionBuilderProps) {
+  const [contractName, setContractName] = useState(KNOWN_ABIS[0].name);
+  const [target, setTarget] = useState(daoAddress);
+  const [signature, setSignature] = useState('');
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [value, setValue] = useState('0');
+  const [error, setError] = useState('');
+
+  const known = KNOWN_ABIS.find(k => k.name === contractName);
+  const functions = useMemo(() => (known ? callableFunctions(known.abi) : []), [known]);
+  const fragment = functions.find(f => f.format('sighash') === signature) ?? functions[0];
+
+  const selectContract = (name: string) => {
+    setContractName(name);
+    setSignature('');
+    setInputs([]);
+    setError('');
+    // Calls to the DAO itself are the common case, e.g. changing its own parameters
+    if (name === KNOWN_ABIS[0].name) setTarget(daoAddress);
+  };
+
+  const selectFunction = (sighash: string) => {
+    setSignature(sighash);
+    setInputs([]);
+    setError('');
+  };
+
+  const add = () => {
+    setError('');
+    try {
+      const wei = !known || fragment?.payable ? ethers.parseEther(value || '0') : 0n;
+      const action = known && fragment
+        ? encodeAction(known.abi, target, fragment.format('sighash'), fragment.inputs.map((_, i) => inputs[i] ?? ''), wei)
+        : transferAction(target, wei);
+      onChange([...actions, action]);
+      setInputs([]);
+    } catch (e: any) {
+      setError(e.shortMessage || e.message);
+    }
+  };
+
+  return (
+    <div className="action-builder">
+      <ActionList actions={actions} onRemove={i => onChange(actions.filter((_, j) => j !== i))} />
+
+      <div className="form-row">
+        <select className="cyber-select" value={contractName} onChange={(e) => selectContract(e.target.value)}>
+          {KNOWN_ABIS.map(k => <option key={k.name} value={k.name}>{k.name}</option>)}
+          <option value={TRANSFER}>ETH transfer</option>
+        </select>
+        <input
+          className="cyber-input"
+          value={target}
+          onChange={(e) => setTarget(e.target.value.trim())}
+          placeholder="Target address"
+        />
+      </div>
+
+      {known && fragment && (
+        <>
+          <select className="cyber-select" value={fragment.format('sighash')} onChange={(e) => selectFunction(e.target.value)}>
+            {functions.map(f => (
+              <option key={f.format('sighash')} value={f.format('sighash')}>{f.format('sighash')}</option>
+            ))}
+          </select>
+          {fragment.inputs.map((param, i) => (
+            <label className="form-field" key={`${fragment.selector}-${i}`}>
+              <span>{param.name || `arg ${i}`} ({param.type})</span>
+              <input
+                className="cyber-input"
+                value={inputs[i] ?? ''}
+                onChange={(e) => {
+                  const next = [...inputs];
+                  next[i] = e.target.value;
+                  setInputs(next);
+                }}
+                placeholder={param.isArray() || param.isTuple() ? 'JSON' : param.type}
+              />
+            </label>
+          ))}
+        </>
+      )}
+
+      {(!known || fragment?.payable) && (
+        <label className="form-field">
+          <span>Value (ETH, paid from the DAO's balance)</span>
+          <input className="cyber-input" value={value} onChange={(e) => setValue(e.target.value)} />
+        </label>
+      )}
+
+      {error && <div className="form-hint error">{error}</div>}
+      <div className="form-actions">
+        <button type="button" className="cyber-button" disabled={actions.length >= MAX_ACTIONS} onClick={add}>
+          Add Action
+        </button>
+      </div>
+      <div className="form-hint">
+        Up to {MAX_ACTIONS} calls, made by the DAO in order once the proposal passes and its timelock runs out. If any
+        call fails, none of them take effect. Admin functions only work once the DAO is its own admin.
+      </div>
+    </div>
+  );
+}
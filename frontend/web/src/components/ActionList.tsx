@@ -0,0 +1,55 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { decodeAction, describeAction, ProposalAction } from '../../../../src/execution/proposalActions';
+import { deployedAbis } from '../knownAbis';
+
+interface ActionListProps {
+  actions: ProposalAction[];
+  onRemove?: (index: number) => void;
+}
+
+// Shows what a proposal will do in terms of the known ABIs. Calldata none of
+// them recognise is listed raw, and calls to contracts other than known
+// deployments are flagged, so voters can see what is unverified.
+export default function ActionList({ actions, onRemove }: ActionListProps) {
+  if (actions.length === 0) {
+    return <div className="form-hint">No actions: executing this proposal only records that it passed.</div>;
+  }
+
+  const abis = deployedAbis();
+  return (
+    <ol className="action-list">
+      {actions.map((action, i) => {
+        const decoded = decodeAction(action, abis);
+        const unknown = ethers.dataLength(action.data) > 0 && !decoded.signature;
+        const guessed = decoded.signature !== null && decoded.contract === null;
+        return (
+          <li key={i} className={`action-item ${unknown || guessed ? 'unknown' : ''}`}>
+            <div className="action-summary">
+              <span>{describeAction(decoded)}</span>
+              {onRemove && (
+                <button type="button" className="cyber-button" onClick={() => onRemove(i)}>
+                  Remove
+                </button>
+              )}
+            </div>
+            {decoded.args.length > 0 && (
+              <div className="action-args">
+                {decoded.args.map((arg, j) => (
+                  <div className="detail-row" key={j}>
+                    <span className="detail-label">{arg.name || `arg ${j}`} ({arg.type})</span>
+                    <span className="detail-value">{arg.value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {unknown && <div className="form-hint error">⚠ No known ABI matches this calldata</div>}
+            {guessed && (
+              <div className="form-hint error">⚠ Decoded from the selector only: the target is not a known contract</div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { getContractReadOnly } from '../contract';
+import { notDeployedError, toAppError } from '../errors';
+import type { AppError } from '../../../../src/errors/appErrors';
+import { getBallotWeight } from '../attentionVote';
+import type { Proposal } from '../proposals';
+import ExplorerLink from './ExplorerLink';
+import ErrorNotice from './ErrorNotice';
+
+interface BallotWeightProps {
+  proposal: Proposal;
+  account: string;
+  explorerUrl: string | null;
+  onDecrypt: (handles: string[]) => Promise<Record<string, bigint>>;
+}
+
+// Rendered with key={proposal.id} so a decrypted weight never leaks onto another proposal.
+export default function BallotWeight({ proposal, account, explorerUrl, onDecrypt }: BallotWeightProps) {
+  const [weight, setWeight] = useState<bigint | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  const reveal = async () => {
+    setDecrypting(true);
+    setError(null);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) throw notDeployedError();
+      const handle = await getBallotWeight(contract, proposal.id, account);
+      setWeight((await onDecrypt([handle]))[handle]);
+    } catch (e) {
+      setError(toAppError(e));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="ballot-weight">
+      <h3>Your ballot</h3>
+      <div className="form-hint">
+        Counted with your voting weight from snapshot #{proposal.weightSnapshotId}, taken when the proposal was created
+        {proposal.created && (
+          <>
+            {' '}in block{' '}
+            <ExplorerLink base={explorerUrl} path={`tx/${proposal.created.txHash}`}>
+              {proposal.created.blockNumber}
+            </ExplorerLink>
+          </>
+        )}
+        . Weight you gain or lose after that does not change it.
+      </div>
+      {weight !== null && (
+        <div className="detail-row">
+          <span className="detail-label">Ballot weight:</span>
+          <span className="detail-value">{weight.toString()}</span>
+        </div>
+      )}
+      <ErrorNotice error={error} />
+      <div className="form-actions">
+        <button className="cyber-button" disabled={decrypting} onClick={reveal}>
+          {decrypting ? 'Decrypting...' : weight === null ? 'Decrypt My Ballot Weight' : 'Refresh'}
+        </button>
+      </div>
+    </div>
+  );
+}
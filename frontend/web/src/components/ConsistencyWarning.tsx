@@ -0,0 +1,15 @@
+import React from 'react';
+
+interface ConsistencyWarningProps {
+  warning: string | null;
+}
+
+// Shown where a quorum read found the RPC endpoints disagreeing
+export default function ConsistencyWarning({ warning }: ConsistencyWarningProps) {
+  if (!warning) return null;
+  return (
+    <div className="consistency-warning" role="alert">
+      <strong>⚠ Unconfirmed read.</strong> {warning} Check another RPC endpoint or a block explorer before acting on it.
+    </div>
+  );
+}
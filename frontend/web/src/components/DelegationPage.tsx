@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Link } from 'react-router-dom';
+import { getContractReadOnly, normAddr } from '../contract';
+import { toAppError } from '../errors';
+import type { AppError } from '../../../../src/errors/appErrors';
+import { DelegationState, getDelegation } from '../attentionVote';
+import type { IndexedDelegation } from '../indexer';
+import { formatBps } from '../proposals';
+import ExplorerLink from './ExplorerLink';
+import ErrorNotice from './ErrorNotice';
+
+interface DelegationPageProps {
+  account: string;
+  isMember: boolean;
+  members: string[];
+  delegations: Record<string, IndexedDelegation>;
+  explorerUrl: string | null;
+  onDelegate: (to: string, shareBps: number) => Promise<void>;
+  onRevoke: () => Promise<void>;
+  onDecrypt: (handles: string[]) => Promise<Record<string, bigint>>;
+}
+
+interface DecryptedDelegation {
+  shareBps: bigint | null;
+  delegatedWeight: bigint | null;
+  receivedWeight: bigint;
+  votingPower: bigint;
+}
+
+// Handles the contract never wrote decrypt to zero without asking the relayer
+const decryptOrZero = (values: Record<string, bigint>, handle: string) =>
+  handle === ethers.ZeroHash ? 0n : values[handle];
+
+const shortAddr = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function DelegationPage({
+  account,
+  isMember,
+  members,
+  delegations,
+  explorerUrl,
+  onDelegate,
+  onRevoke,
+  onDecrypt
+}: DelegationPageProps) {
+  const [state, setState] = useState<DelegationState | null>(null);
+  const [decrypted, setDecrypted] = useState<DecryptedDelegation | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [loadError, setLoadError] = useState<AppError | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  const [delegateTo, setDelegateTo] = useState('');
+  const [sharePercent, setSharePercent] = useState('100');
+
+  const me = account ? normAddr(account) : '';
+  const mine = me ? delegations[me] : undefined;
+  const delegators = Object.values(delegations).filter(d => d.delegate === me);
+
+  const loadDelegation = async () => {
+    if (!account) return;
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setState(await getDelegation(contract, account));
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(toAppError(e));
+    }
+  };
+
+  // The index changes whenever a delegation to or from this account does,
+  // and every change replaces the encrypted handles
+  useEffect(() => {
+    setDecrypted(null);
+    loadDelegation();
+  }, [account, mine?.since.txHash, delegators.map(d => d.since.txHash).join()]);
+
+  const shareBps = Math.round(Number(sharePercent) * 100);
+  const candidates = members.filter(m => m !== me);
+  const formError = !ethers.isAddress(delegateTo)
+    ? 'Choose a member to delegate to'
+    : normAddr(delegateTo) === me
+      ? 'You cannot delegate to yourself'
+      : !Number.isFinite(shareBps) || shareBps <= 0 || shareBps > 10000
+        ? 'Share must be more than 0% and at most 100%'
+        : '';
+
+  const reveal = async () => {
+    if (!state) return;
+    setDecrypting(true);
+    setError(null);
+    try {
+      const handles = [
+        state.encryptedReceivedWeight,
+        state.encryptedVotingPower,
+        ...(state.delegate ? [state.encryptedShareBps, state.encryptedDelegatedWeight] : [])
+      ].filter(h => h !== ethers.ZeroHash);
+      const values = handles.length > 0 ? await onDecrypt(handles) : {};
+      setDecrypted({
+        shareBps: state.delegate ? decryptOrZero(values, state.encryptedShareBps) : null,
+        delegatedWeight: state.delegate ? decryptOrZero(values, state.encryptedDelegatedWeight) : null,
+        receivedWeight: decryptOrZero(values, state.encryptedReceivedWeight),
+        votingPower: decryptOrZero(values, state.encryptedVotingPower)
+      });
+    } catch (e) {
+      setError(toAppError(e));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className="delegation-page cyber-card">
+        <div className="no-votes">
+          <p>Connect your wallet to manage delegation</p>
+          <Link to="/" className="cyber-button">Back to dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="delegation-page cyber-card">
+      <div className="section-header">
+        <h2>Delegation</h2>
+      </div>
+      <p className="form-hint">
+        Hand part or all of your own voting weight to a member who follows a topic more closely. Who you delegate to is
+        public; the share, and the weight it amounts to, stay encrypted. Delegates vote with what they receive on top of
+        their own weight, but cannot pass it on. Changes count towards proposals created afterwards.
+      </p>
+
+      <div className="delegation-section">
+        <h3>My delegation</h3>
+        <div className="detail-row">
+          <span className="detail-label">Delegate:</span>
+          <span className="detail-value">
+            {state?.delegate ?? 'None, you vote with all of your weight'}
+            {mine && (
+              <>
+                {' '}(since block{' '}
+                <ExplorerLink base={explorerUrl} path={`tx/${mine.since.txHash}`}>
+                  {mine.since.blockNumber}
+                </ExplorerLink>)
+              </>
+            )}
+          </span>
+        </div>
+        {state?.delegate && (
+          <>
+            <div className="detail-row">
+              <span className="detail-label">Share:</span>
+              <span className="detail-value encrypted">
+                {decrypted?.shareBps != null ? formatBps(Number(decrypted.shareBps)) : '🔒 encrypted'}
+              </span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">Weight delegated:</span>
+              <span className="detail-value encrypted">
+                {decrypted?.delegatedWeight != null ? decrypted.delegatedWeight.toString() : '🔒 encrypted'}
+              </span>
+            </div>
+          </>
+        )}
+
+        <div className="form-field">
+          <span>{state?.delegate ? 'Re-delegate to' : 'Delegate to'}</span>
+          <div className="form-row">
+            <input
+              className="cyber-input"
+              list="delegation-members"
+              value={delegateTo}
+              onChange={(e) => setDelegateTo(e.target.value.trim())}
+              placeholder="Member address"
+            />
+            <datalist id="delegation-members">
+              {candidates.map(m => <option key={m} value={m} />)}
+            </datalist>
+            <input
+              className="cyber-input"
+              type="number"
+              min="0.01"
+              max="100"
+              step="0.01"
+              value={sharePercent}
+              onChange={(e) => setSharePercent(e.target.value)}
+              title="Share of your own weight, in percent"
+            />
+          </div>
+          {delegateTo && formError && <div className="form-hint error">{formError}</div>}
+        </div>
+
+        <div className="form-actions">
+          <button
+            className="cyber-button primary"
+            disabled={!isMember || !!formError}
+            onClick={() => onDelegate(normAddr(delegateTo), shareBps)}
+          >
+            {state?.delegate ? 'Re-delegate' : 'Delegate'}
+          </button>
+          <button className="cyber-button" disabled={!isMember || !state?.delegate} onClick={onRevoke}>
+            Revoke
+          </button>
+        </div>
+      </div>
+
+      <div className="delegation-section">
+        <h3>Delegated to me</h3>
+        {delegators.length === 0 ? (
+          <div className="form-hint">No member delegates to you</div>
+        ) : (
+          delegators.map(d => (
+            <div className="detail-row" key={d.delegator}>
+              <span className="detail-label">{shortAddr(d.delegator)}</span>
+              <ExplorerLink className="detail-value" base={explorerUrl} path={`tx/${d.since.txHash}`}>
+                since block {d.since.blockNumber}
+              </ExplorerLink>
+            </div>
+          ))
+        )}
+        <div className="detail-row">
+          <span className="detail-label">Weight received:</span>
+          <span className="detail-value encrypted">
+            {decrypted ? decrypted.receivedWeight.toString() : '🔒 encrypted'}
+          </span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Voting power:</span>
+          <span className="detail-value encrypted">
+            {decrypted ? decrypted.votingPower.toString() : '🔒 encrypted'}
+          </span>
+        </div>
+        <div className="form-hint">
+          Only the total is visible to you, never what each delegator contributed. Voting power is your own weight,
+          less what you delegated, plus what you received, as the next proposal will count it.
+        </div>
+      </div>
+
+      <ErrorNotice error={loadError} onRetry={loadDelegation} />
+      <ErrorNotice error={error} />
+      <div className="form-actions">
+        <button className="cyber-button" disabled={decrypting || !state} onClick={reveal}>
+          {decrypting ? 'Decrypting...' : decrypted ? 'Refresh' : 'Decrypt My Delegation'}
+        </button>
+      </div>
+      {!isMember && <div className="form-hint">Only DAO members can delegate</div>}
+    </div>
+  );
+}
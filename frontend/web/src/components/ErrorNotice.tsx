@@ -0,0 +1,29 @@
+import React from 'react';
+import type { AppError } from '../../../../src/errors/appErrors';
+
+interface ErrorNoticeProps {
+  error: AppError | null;
+  // Offered for failures that may pass on a second attempt
+  onRetry?: () => void;
+  // Offered when the wallet is on the wrong network
+  onSwitchNetwork?: () => void;
+}
+
+const RETRYABLE = new Set(['userRejected', 'rpcUnavailable', 'oracleTimeout', 'encryptionFailed', 'unknown']);
+
+// What went wrong, what to do about it, and a button for it where there is one
+export default function ErrorNotice({ error, onRetry, onSwitchNetwork }: ErrorNoticeProps) {
+  if (!error) return null;
+  return (
+    <div className={`error-notice ${error.kind}`} role="alert">
+      <div className="error-notice-message">{error.message}</div>
+      <div className="form-hint">{error.recovery}</div>
+      {error.kind === 'wrongNetwork' && onSwitchNetwork && (
+        <button className="cyber-button" onClick={onSwitchNetwork}>Switch Network</button>
+      )}
+      {RETRYABLE.has(error.kind) && onRetry && (
+        <button className="cyber-button" onClick={onRetry}>Retry</button>
+      )}
+    </div>
+  );
+}
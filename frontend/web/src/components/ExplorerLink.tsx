@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface ExplorerLinkProps {
+  // Explorer base URL, null on networks without one
+  base: string | null;
+  // e.g. "tx/0x..." or "block/123"
+  path: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Local networks have no explorer, so the reference is shown as plain text there
+export default function ExplorerLink({ base, path, className, children }: ExplorerLinkProps) {
+  if (!base) {
+    return <span className={className}>{children}</span>;
+  }
+  return (
+    <a className={className} href={`${base}/${path}`} target="_blank" rel="noreferrer">
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getContractReadOnly } from '../contract';
+import { notDeployedError, toAppError } from '../errors';
+import type { AppError } from '../../../../src/errors/appErrors';
+import { AdmissionPolicy, AdmissionProof, getAdmissionProof } from '../attentionVote';
+import ExplorerLink from './ExplorerLink';
+import ErrorNotice from './ErrorNotice';
+
+interface JoinWizardProps {
+  account: string;
+  isMember: boolean;
+  policy: AdmissionPolicy | null;
+  explorerUrl: string | null;
+  onConnect: () => void;
+  onJoin: (proofId?: string) => Promise<void>;
+}
+
+type StepState = 'done' | 'current' | 'todo';
+
+function Step({ index, title, state, children }: {
+  index: number;
+  title: string;
+  state: StepState;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={`join-step ${state}`}>
+      <h3>
+        <span className="join-step-index">{state === 'done' ? '✓' : index}</span> {title}
+      </h3>
+      {state !== 'todo' && <div className="join-step-body">{children}</div>}
+    </div>
+  );
+}
+
+// Walks a new member through connecting, proving their credential when the
+// DAO requires one, and joining at the score the admission policy assigns.
+export default function JoinWizard({ account, isMember, policy, explorerUrl, onConnect, onJoin }: JoinWizardProps) {
+  const [proof, setProof] = useState<AdmissionProof | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const gated = !!policy?.verifier;
+
+  const checkProof = async () => {
+    if (!policy?.verifier || !account) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) throw notDeployedError();
+      setProof(await getAdmissionProof(contract, policy.verifier, account));
+    } catch (e) {
+      setError(toAppError(e));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // The proof id depends on the account and the required credential type
+  useEffect(() => {
+    setProof(null);
+    setCopied(false);
+    checkProof();
+  }, [account, policy?.verifier, policy?.credentialType]);
+
+  const copyProofId = async () => {
+    if (!proof) return;
+    await navigator.clipboard.writeText(proof.proofId);
+    setCopied(true);
+  };
+
+  if (isMember) {
+    return (
+      <div className="join-wizard cyber-card">
+        <div className="no-votes">
+          <p>You are already a member of this DAO</p>
+          <Link to="/" className="cyber-button">Back to dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const proved = !gated || !!proof?.isValid;
+  const connectState: StepState = account ? 'done' : 'current';
+  const proofState: StepState = !account ? 'todo' : proved ? 'done' : 'current';
+  const joinState: StepState = account && proved ? 'current' : 'todo';
+
+  return (
+    <div className="join-wizard cyber-card">
+      <div className="section-header">
+        <h2>Join the DAO</h2>
+      </div>
+      <p className="form-hint">
+        Every member starts at the same attention score, set by the DAO's admission policy, and builds weight from there
+        by proposing, voting and taking part.
+      </p>
+
+      <Step index={1} title="Connect your wallet" state={connectState}>
+        {account ? (
+          <div className="detail-row">
+            <span className="detail-label">Account:</span>
+            <span className="detail-value">{account}</span>
+          </div>
+        ) : (
+          <button className="cyber-button primary" onClick={onConnect}>Connect Wallet</button>
+        )}
+      </Step>
+
+      <Step index={2} title="Prove your credential" state={proofState}>
+        {!policy ? (
+          <div className="form-hint">Loading the admission policy...</div>
+        ) : !gated ? (
+          <div className="form-hint">Not required: this DAO currently admits anyone.</div>
+        ) : (
+          <>
+            <div className="detail-row">
+              <span className="detail-label">Verifier:</span>
+              <span className="detail-value">
+                <ExplorerLink base={explorerUrl} path={`address/${policy.verifier}`}>
+                  {policy.verifier}
+                </ExplorerLink>
+              </span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">Credential type:</span>
+              <span className="detail-value">{policy.credentialType}</span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">Your proof id:</span>
+              <span className="detail-value">
+                {proof ? proof.proofId : '...'}
+                {proof && (
+                  <button className="cyber-button" onClick={copyProofId}>{copied ? 'Copied' : 'Copy'}</button>
+                )}
+              </span>
+            </div>
+            <p className="form-hint">
+              Send this proof id to the credential issuer. They request a proof on their VeriIdWalletFHE wallet under
+              this id for the credential type above, and the decryption oracle checks your encrypted credential
+              without revealing it. The id only admits your account, so a proof cannot be passed on.
+            </p>
+            <div className="detail-row">
+              <span className="detail-label">Status:</span>
+              <span className="detail-value">
+                {!proof
+                  ? 'Checking...'
+                  : proof.isValid
+                    ? `✓ Verified ${new Date(proof.verifiedAt * 1000).toLocaleString()}`
+                    : proof.verifiedAt > 0
+                      ? '✗ The credential did not meet the condition'
+                      : 'Waiting for the issuer to request the proof'}
+              </span>
+            </div>
+            <ErrorNotice error={error} />
+            <div className="form-actions">
+              <button className="cyber-button" disabled={checking} onClick={checkProof}>
+                {checking ? 'Checking...' : 'Check Again'}
+              </button>
+            </div>
+          </>
+        )}
+      </Step>
+
+      <Step index={3} title="Join" state={joinState}>
+        <div className="detail-row">
+          <span className="detail-label">Starting score:</span>
+          <span className="detail-value">{policy ? policy.initialScore : '...'}</span>
+        </div>
+        <div className="form-hint">
+          Your score is stored encrypted and only you can decrypt it. Voting weight starts at zero and follows from your
+          first activity.
+        </div>
+        <div className="form-actions">
+          <button
+            className="cyber-button primary"
+            disabled={!policy || !proved}
+            onClick={() => onJoin(gated ? proof?.proofId : undefined)}
+          >
+            Join DAO
+          </button>
+        </div>
+      </Step>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import type { MemberState } from '../attentionVote';
+import {
+  ACTIVITY_VOTE,
+  ActivityType,
+  DecayModel,
+  scoreAfterActivity,
+} from '../../../../src/attention/attentionModel';
+import { votingWeight, WeightCurve } from '../../../../src/attention/weightCurves';
+import { formatCountdown } from '../duration';
+import { toAppError } from '../errors';
+import type { AppError } from '../../../../src/errors/appErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface MyAttentionPanelProps {
+  member: MemberState;
+  decayModel: DecayModel | null;
+  weightCurve: WeightCurve | null;
+  activityTypes: ActivityType[];
+  onDecrypt: (handles: string[]) => Promise<Record<string, bigint>>;
+}
+
+interface OwnAttention {
+  score: bigint;
+  weight: bigint;
+}
+
+const ONE_DAY = 24 * 3600;
+// How far ahead the preview looks, in seconds from now
+const PROJECTION_HORIZONS = [0, 7 * ONE_DAY, 30 * ONE_DAY];
+
+// Only rendered for the connected account: the relayer refuses to re-encrypt
+// these handles for anyone but the member the contract granted them to.
+export default function MyAttentionPanel({ member, decayModel, weightCurve, activityTypes, onDecrypt }: MyAttentionPanelProps) {
+  const { encryptedActivityScore, encryptedVotingWeight } = member;
+  const [attention, setAttention] = useState<OwnAttention | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+
+  // Every activity update replaces the handles, so old plaintexts are stale
+  useEffect(() => {
+    setAttention(null);
+    setError(null);
+  }, [encryptedActivityScore, encryptedVotingWeight]);
+
+  const voteType = activityTypes.find(type => type.id === ACTIVITY_VOTE);
+
+  const reveal = async () => {
+    setDecrypting(true);
+    setError(null);
+    try {
+      const values = await onDecrypt([encryptedActivityScore, encryptedVotingWeight]);
+      setAttention({ score: values[encryptedActivityScore], weight: values[encryptedVotingWeight] });
+    } catch (e) {
+      setError(toAppError(e));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="attention-panel cyber-card">
+      <h3>My attention</h3>
+      {attention ? (
+        <div>
+          <div className="detail-row">
+            <span className="detail-label">Activity score</span>
+            <span className="detail-value">{attention.score.toString()}</span>
+          </div>
+          <div className="detail-row">
+            <span className="detail-label">Voting weight</span>
+            <span className="detail-value">{attention.weight.toString()}</span>
+          </div>
+          {decayModel && weightCurve && voteType && (
+            <>
+              <h4>Projected weight after your next vote</h4>
+              {PROJECTION_HORIZONS.map(horizon => {
+                // The score only changes on actions, so it is still the one from lastActive
+                const elapsed = Math.floor(Date.now() / 1000) + horizon - member.lastActive;
+                const score = scoreAfterActivity(attention.score, elapsed, decayModel, voteType.weight);
+                return (
+                  <div className="detail-row" key={horizon}>
+                    <span className="detail-label">{horizon === 0 ? 'Acting now' : `In ${formatCountdown(horizon)}`}</span>
+                    <span className="detail-value">
+                      {votingWeight(score, weightCurve).toString()} (score {score.toString()})
+                    </span>
+                  </div>
+                );
+              })}
+              <div className="form-hint">
+                Scores halve every {formatCountdown(decayModel.halfLife)} without activity and each vote adds{' '}
+                {voteType.weight}
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="form-hint">
+          Your score and weight stay encrypted on-chain. Sign a request with your wallet to decrypt them in this
+          browser only.
+        </div>
+      )}
+      <ErrorNotice error={error} />
+      <div className="form-actions">
+        <button className="cyber-button primary" disabled={decrypting} onClick={reveal}>
+          {decrypting ? 'Decrypting...' : attention ? 'Refresh' : 'Decrypt My Attention'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { ProposalDocument } from '../../../../src/metadata/proposalMetadata';
+import type { ProposalAction } from '../../../../src/execution/proposalActions';
+import { activeNetwork } from '../networks';
+import type { Thresholds } from '../attentionVote';
+import { DurationUnit, formatCountdown, toDurationSeconds } from '../duration';
+import { formatBps } from '../proposals';
+import ActionBuilder from './ActionBuilder';
+
+interface ProposalFormProps {
+  canSubmit: boolean;
+  thresholds: Thresholds | null;
+  onSubmit: (document: ProposalDocument, duration: number, actions: ProposalAction[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+type DurationMode = 'relative' | 'date';
+
+export default function ProposalForm({ canSubmit, thresholds, onSubmit, onCancel }: ProposalFormProps) {
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [mode, setMode] = useState<DurationMode>('relative');
+  const [amount, setAmount] = useState('3');
+  const [unit, setUnit] = useState<DurationUnit>('days');
+  const [endsAt, setEndsAt] = useState('');
+  const [actions, setActions] = useState<ProposalAction[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Recomputed on every render so the preview tracks both the inputs and the clock
+  let duration: number | null = null;
+  let durationError = '';
+  try {
+    duration = mode === 'relative'
+      ? toDurationSeconds({ kind: 'relative', amount: Number(amount), unit })
+      : toDurationSeconds({ kind: 'date', endsAt: new Date(endsAt) });
+  } catch (e: any) {
+    durationError = e.message;
+  }
+
+  const valid = title.trim() !== '' && duration !== null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid || duration === null) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit({ title, body, options: ['For', 'Against', 'Abstain'], links: [] }, duration, actions);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="proposal-form cyber-card" onSubmit={handleSubmit}>
+      <h2>New Proposal</h2>
+
+      <label className="form-field">
+        <span>Title</span>
+        <input
+          className="cyber-input"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What should the DAO decide?"
+        />
+      </label>
+
+      <label className="form-field">
+        <span>Description</span>
+        <textarea
+          className="cyber-input"
+          rows={6}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Context, motivation and expected outcome"
+        />
+      </label>
+
+      <div className="form-field">
+        <span>Voting period</span>
+        <div className="form-row">
+          <select className="cyber-select" value={mode} onChange={(e) => setMode(e.target.value as DurationMode)}>
+            <option value="relative">Lasts for</option>
+            <option value="date">Ends at</option>
+          </select>
+          {mode === 'relative' ? (
+            <>
+              <input
+                className="cyber-input"
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <select className="cyber-select" value={unit} onChange={(e) => setUnit(e.target.value as DurationUnit)}>
+                <option value="minutes">Minutes</option>
+                <option value="hours">Hours</option>
+                <option value="days">Days</option>
+                <option value="weeks">Weeks</option>
+              </select>
+            </>
+          ) : (
+            <input
+              className="cyber-input"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+          )}
+        </div>
+        <div className={`form-hint ${durationError ? 'error' : ''}`}>
+          {duration !== null ? `Voting stays open for ${formatCountdown(duration)} (${duration} seconds)` : durationError}
+        </div>
+      </div>
+
+      <div className="form-field">
+        <span>Actions</span>
+        <ActionBuilder daoAddress={activeNetwork().contracts.attentionVote ?? ''} actions={actions} onChange={setActions} />
+      </div>
+
+      {thresholds && (
+        <div className="form-hint">
+          Passes with a turnout of at least {formatBps(thresholds.quorumBps)} of member weight and more
+          than {formatBps(thresholds.approvalBps)} of for + against weight voting for. Thresholds are fixed at creation.
+        </div>
+      )}
+
+      <div className="form-actions">
+        <button type="button" className="cyber-button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="cyber-button primary" disabled={!canSubmit || !valid || submitting}>
+          {submitting ? 'Submitting...' : 'Publish Proposal'}
+        </button>
+      </div>
+      {!canSubmit && <div className="form-hint">Only DAO members can create proposals</div>}
+    </form>
+  );
+}
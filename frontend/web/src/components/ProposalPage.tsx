@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { getContractReadOnly } from '../contract';
+import {
+  canExecute,
+  canRequestOutcome,
+  getActions,
+  getProposalStatus,
+  ProposalStatus,
+  VoteChoice
+} from '../attentionVote';
+import { formatCountdown } from '../duration';
+import { formatBps, outcomeLabel, phaseOf, Proposal } from '../proposals';
+import TallyPanel from './TallyPanel';
+import BallotWeight from './BallotWeight';
+import ActionList from './ActionList';
+import type { ProposalAction } from '../../../../src/execution/proposalActions';
+import ExplorerLink from './ExplorerLink';
+import ConsistencyWarning from './ConsistencyWarning';
+import { criticalRead } from '../criticalReads';
+import { toAppError } from '../errors';
+import type { AppError } from '../../../../src/errors/appErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface ProposalPageProps {
+  proposals: Proposal[];
+  account: string;
+  isMember: boolean;
+  votedOn: Set<number>;
+  explorerUrl: string | null;
+  onVote: (proposalId: number, choice: VoteChoice) => Promise<void>;
+  onExecute: (proposalId: number) => Promise<void>;
+  onRequestOutcome: (proposalId: number) => Promise<void>;
+  onRequestTally: (proposalId: number) => Promise<void>;
+  onDecrypt: (handles: string[]) => Promise<Record<string, bigint>>;
+}
+
+// The contract compares against block.timestamp, which can trail the local
+// clock, so the status is re-read until the chain agrees voting has ended.
+const STATUS_POLL_MS = 5000;
+
+const CHOICES: { choice: VoteChoice; label: string }[] = [
+  { choice: 'for', label: 'For' },
+  { choice: 'against', label: 'Against' },
+  { choice: 'abstain', label: 'Abstain' },
+];
+
+export default function ProposalPage({
+  proposals,
+  account,
+  isMember,
+  votedOn,
+  explorerUrl,
+  onVote,
+  onExecute,
+  onRequestOutcome,
+  onRequestTally,
+  onDecrypt
+}: ProposalPageProps) {
+  const { id } = useParams();
+  const proposal = proposals.find(p => p.id === Number(id));
+  const [status, setStatus] = useState<ProposalStatus | null>(null);
+  const [statusWarning, setStatusWarning] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [actions, setActions] = useState<ProposalAction[] | null>(null);
+  const [readError, setReadError] = useState<AppError | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    if (!proposal) return;
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const { value, warning } = await criticalRead(
+        contract,
+        `the status of proposal ${proposal.id}`,
+        (c, blockTag) => getProposalStatus(c, proposal.id, blockTag)
+      );
+      setStatus(value);
+      setStatusWarning(warning);
+      setReadError(null);
+    } catch (e) {
+      setReadError(toAppError(e));
+    }
+  }, [proposal?.id]);
+
+  const loadActions = useCallback(async () => {
+    if (!proposal) return;
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setActions(await getActions(contract, proposal.id));
+    } catch (e) {
+      setReadError(toAppError(e));
+    }
+  }, [proposal?.id]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus, proposal?.isExecuted, proposal?.decryptionRequests]);
+
+  // Actions are fixed at creation, so they are read once per proposal
+  useEffect(() => {
+    setActions(null);
+    loadActions();
+  }, [loadActions]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = proposal ? Math.max(0, proposal.endTime - Math.floor(now / 1000)) : 0;
+  const expired = remaining === 0;
+
+  useEffect(() => {
+    if (!expired || !status || status.votingEnded) return;
+    const timer = setTimeout(refreshStatus, STATUS_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [expired, status, refreshStatus]);
+
+  if (!proposal) {
+    return (
+      <div className="proposal-page cyber-card">
+        <div className="no-votes">
+          <p>Proposal #{id} not found</p>
+          <Link to="/" className="cyber-button">Back to dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Until the first read completes, fall back to the status loaded with the list
+  const current = status ?? proposal;
+  const phase = phaseOf({ ...proposal, ...current });
+  const voted = votedOn.has(proposal.id);
+  const timelockLeft = Math.max(0, proposal.eta - Math.floor(now / 1000));
+
+  return (
+    <div className="proposal-page cyber-card">
+      <div className="section-header">
+        <h2>
+          Proposal #{proposal.id}: {proposal.metadata?.document.title ?? 'Metadata unavailable'}
+          {proposal.metadata && (
+            <span className={`metadata-badge ${proposal.metadata.verified ? 'verified' : 'mismatch'}`}>
+              {proposal.metadata.verified ? '✓ hash verified' : '⚠ hash mismatch'}
+            </span>
+          )}
+        </h2>
+        <div className={`vote-status ${phase}`}>{phase}</div>
+      </div>
+
+      {proposal.metadata?.document.body && (
+        <p className="proposal-body">{proposal.metadata.document.body}</p>
+      )}
+
+      <ConsistencyWarning warning={statusWarning} />
+      <ErrorNotice
+        error={readError}
+        onRetry={() => { refreshStatus(); if (!actions) loadActions(); }}
+      />
+
+      <div className="countdown">
+        {current.votingEnded ? (
+          <span>Voting closed {new Date(proposal.endTime * 1000).toLocaleString()}</span>
+        ) : expired ? (
+          <span>Deadline reached, waiting for the next block...</span>
+        ) : (
+          <>
+            <span className="countdown-value">{formatCountdown(remaining)}</span>
+            <span> left to vote (ends {new Date(proposal.endTime * 1000).toLocaleString()})</span>
+          </>
+        )}
+      </div>
+
+      <div className="outcome-panel">
+        <h3>Outcome</h3>
+        <div className="detail-row">
+          <span className="detail-label">Quorum:</span>
+          <span className="detail-value">
+            {formatBps(proposal.thresholds.quorumBps)} of eligible weight
+            {proposal.outcome.revealed && (
+              <span className={`metadata-badge ${proposal.outcome.quorumReached ? 'verified' : 'mismatch'}`}>
+                {proposal.outcome.quorumReached ? 'reached' : 'not reached'}
+              </span>
+            )}
+          </span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Approval:</span>
+          <span className="detail-value">
+            more than {formatBps(proposal.thresholds.approvalBps)} of for + against weight
+            {proposal.outcome.revealed && (
+              <span className={`metadata-badge ${proposal.outcome.approved ? 'verified' : 'mismatch'}`}>
+                {proposal.outcome.approved ? 'approved' : 'rejected'}
+              </span>
+            )}
+          </span>
+        </div>
+        {proposal.eta > 0 && (
+          <div className="detail-row">
+            <span className="detail-label">Timelock:</span>
+            <span className="detail-value">
+              {current.isExecuted
+                ? 'Executed'
+                : timelockLeft > 0
+                  ? `Executable in ${formatCountdown(timelockLeft)} (${new Date(proposal.eta * 1000).toLocaleString()})`
+                  : 'Ready to execute'}
+            </span>
+          </div>
+        )}
+        <div className="detail-row">
+          <span className="detail-label">Result:</span>
+          <span className="detail-value">
+            {outcomeLabel({ ...proposal, ...current })}
+            {proposal.outcomeRef && (
+              <>
+                {' '}(block{' '}
+                <ExplorerLink base={explorerUrl} path={`tx/${proposal.outcomeRef.txHash}`}>
+                  {proposal.outcomeRef.blockNumber}
+                </ExplorerLink>)
+              </>
+            )}
+          </span>
+        </div>
+      </div>
+
+      <div className="actions-panel">
+        <h3>Actions</h3>
+        {actions ? <ActionList actions={actions} /> : <div className="form-hint">Loading actions...</div>}
+      </div>
+
+      <TallyPanel
+        key={proposal.id}
+        proposal={proposal}
+        status={current}
+        isMember={isMember}
+        explorerUrl={explorerUrl}
+        onRequestTally={onRequestTally}
+      />
+
+      {voted && account && (
+        <BallotWeight key={proposal.id} proposal={proposal} account={account} explorerUrl={explorerUrl} onDecrypt={onDecrypt} />
+      )}
+
+      <div className="vote-details">
+        <div className="detail-row">
+          <span className="detail-label">Ballots cast:</span>
+          <span className="detail-value">{proposal.voteCount}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Tally requests:</span>
+          <span className="detail-value">{proposal.decryptionRequests}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Weight snapshot:</span>
+          <span className="detail-value">#{proposal.weightSnapshotId}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Metadata hash:</span>
+          <span className="detail-value encrypted">{proposal.metadataHash}</span>
+        </div>
+        {proposal.created && (
+          <div className="detail-row">
+            <span className="detail-label">Created:</span>
+            <ExplorerLink className="detail-value" base={explorerUrl} path={`tx/${proposal.created.txHash}`}>
+              Block {proposal.created.blockNumber}
+            </ExplorerLink>
+          </div>
+        )}
+      </div>
+
+      <div className="form-actions">
+        {CHOICES.map(({ choice, label }) => (
+          <button
+            key={choice}
+            className="cyber-button"
+            disabled={!isMember || current.votingEnded || expired}
+            onClick={() => onVote(proposal.id, choice)}
+          >
+            {voted ? `Change to ${label}` : label}
+          </button>
+        ))}
+        <button
+          className="cyber-button"
+          disabled={!isMember || !canRequestOutcome(current, proposal.outcome)}
+          onClick={() => onRequestOutcome(proposal.id)}
+        >
+          Reveal Outcome
+        </button>
+        <button
+          className="cyber-button success"
+          disabled={!isMember || !canExecute(current, proposal.outcome, proposal.eta, now)}
+          onClick={() => onExecute(proposal.id)}
+        >
+          Execute
+        </button>
+      </div>
+      {voted && !current.votingEnded && (
+        <div className="form-hint">You have voted. Voting again replaces your ballot instead of adding to the tally.</div>
+      )}
+      {!isMember && <div className="form-hint">Only DAO members can vote or run lifecycle actions</div>}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import type { NetworkConfig } from '../../../../src/network/networks';
+import type { EndpointHealth } from '../../../../src/network/providerPool';
+import { endpointLabel, readBatchStats, readPoolHealth, readProvider, subscribeReadPool } from '../rpcPool';
+import { QuorumMismatch, quorumMismatches, quorumSize, setQuorumSize, subscribeQuorumMismatches } from '../criticalReads';
+
+interface RpcDiagnosticsProps {
+  network: NetworkConfig;
+}
+
+const STATUS_LABELS: Record<EndpointHealth['status'], string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  cooling: 'Cooling down',
+};
+
+// Live health of the read endpoints, in the order reads try them
+export default function RpcDiagnostics({ network }: RpcDiagnosticsProps) {
+  const [health, setHealth] = useState<EndpointHealth[]>(() => readPoolHealth(network));
+  const [probing, setProbing] = useState(false);
+  const [quorum, setQuorum] = useState(quorumSize);
+  const [mismatches, setMismatches] = useState<QuorumMismatch[]>(quorumMismatches);
+
+  useEffect(() => {
+    setHealth(readPoolHealth(network));
+    return subscribeReadPool(network, setHealth);
+  }, [network.key]);
+
+  useEffect(() => subscribeQuorumMismatches(setMismatches), []);
+
+  const probe = async () => {
+    setProbing(true);
+    try {
+      await readProvider(network).getBlockNumber();
+    } catch (e) {
+      // The failure is already recorded against the endpoints
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  const changeQuorum = (size: number) => {
+    setQuorumSize(size);
+    setQuorum(quorumSize());
+  };
+
+  const batchStats = readBatchStats(network);
+  const networkMismatches = mismatches.filter(mismatch => mismatch.network === network.key);
+
+  return (
+    <div className="rpc-diagnostics cyber-card">
+      <div className="section-header">
+        <h3>RPC Endpoints</h3>
+        <button className="cyber-button" disabled={probing} onClick={probe}>
+          {probing ? 'Probing...' : 'Probe'}
+        </button>
+      </div>
+      <p className="form-hint">
+        Reads from {network.name} go to the fastest endpoint with the fewest recent errors. An endpoint that fails
+        several times in a row is skipped for a minute.
+      </p>
+      <table className="rpc-table">
+        <thead>
+          <tr>
+            <th>Endpoint</th>
+            <th>Status</th>
+            <th>Latency</th>
+            <th>Errors</th>
+            <th>Requests</th>
+          </tr>
+        </thead>
+        <tbody>
+          {health.map((endpoint, i) => (
+            <tr key={endpoint.url} className={`rpc-${endpoint.status}`}>
+              <td>
+                {endpointLabel(endpoint.url)}
+                {i === 0 && endpoint.status !== 'cooling' && <span className="rpc-in-use">in use</span>}
+              </td>
+              <td title={endpoint.lastError ?? undefined}>
+                {STATUS_LABELS[endpoint.status]}
+                {endpoint.coolingUntil !== null && ` until ${new Date(endpoint.coolingUntil).toLocaleTimeString()}`}
+              </td>
+              <td>{endpoint.latencyMs === null ? '-' : `${endpoint.latencyMs} ms`}</td>
+              <td>{Math.round(endpoint.errorRate * 100)}%</td>
+              <td>{endpoint.requests}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="detail-row">
+        <span className="detail-label">Batching:</span>
+        <span className="detail-value">
+          {batchStats
+            ? `${batchStats.calls} contract reads in ${batchStats.requests} Multicall3 requests`
+            : `JSON-RPC batches only: ${network.name} has no Multicall3 configured`}
+        </span>
+      </div>
+      <div className="detail-row">
+        <span className="detail-label">Quorum reads:</span>
+        <span className="detail-value">
+          <select
+            className="cyber-input"
+            value={health.length < 2 ? 0 : Math.min(quorum, health.length)}
+            disabled={health.length < 2}
+            onChange={e => changeQuorum(Number(e.target.value))}
+          >
+            <option value={0}>Off</option>
+            {health.slice(1).map((_, i) => (
+              <option key={i} value={i + 2}>{i + 2} endpoints</option>
+            ))}
+          </select>
+        </span>
+      </div>
+      <p className="form-hint">
+        {health.length < 2
+          ? `${network.name} has a single RPC endpoint, so there is nothing to cross-check against.`
+          : 'With quorum reads on, proposal status, revealed tallies and the proposal count are read from several ' +
+            'endpoints at the same block and compared. Any disagreement is shown as a warning.'}
+      </p>
+      {networkMismatches.map(mismatch => (
+        <div className="consistency-warning" key={`${mismatch.at}:${mismatch.warning}`}>
+          <strong>{new Date(mismatch.at).toLocaleTimeString()}</strong> {mismatch.warning}
+        </div>
+      ))}
+    </div>
+  );
+}
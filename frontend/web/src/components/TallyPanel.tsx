@@ -0,0 +1,164 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { getContractReadOnly } from '../contract';
+import { canRequestTally, getRevealedTally, ProposalStatus, VoteChoice } from '../attentionVote';
+import { initialRevealState, nextRevealState, ORACLE_TIMEOUT_MS, requestSeenAt, watchTallyReveal } from '../tallyReveal';
+import type { Proposal } from '../proposals';
+import ExplorerLink from './ExplorerLink';
+import ConsistencyWarning from './ConsistencyWarning';
+import { criticalRead } from '../criticalReads';
+import { toAppError } from '../errors';
+import { AppError, oracleTimeoutError } from '../../../../src/errors/appErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface TallyPanelProps {
+  proposal: Proposal;
+  status: ProposalStatus;
+  isMember: boolean;
+  explorerUrl: string | null;
+  onRequestTally: (proposalId: number) => Promise<void>;
+}
+
+const CHOICES: { choice: VoteChoice; label: string }[] = [
+  { choice: 'for', label: 'For' },
+  { choice: 'against', label: 'Against' },
+  { choice: 'abstain', label: 'Abstain' },
+];
+
+const percentOf = (weight: number, total: number) => (total > 0 ? Math.round((weight / total) * 100) : 0);
+
+// Rendered with key={proposal.id} so every proposal starts from its own state.
+export default function TallyPanel({ proposal, status, isMember, explorerUrl, onRequestTally }: TallyPanelProps) {
+  const [reveal, dispatch] = useReducer(
+    nextRevealState,
+    undefined,
+    () => initialRevealState(
+      proposal.tally,
+      proposal.decryptionRequests > 0 ? requestSeenAt(proposal.id, proposal.decryptionRequests) : null
+    )
+  );
+  const [warning, setWarning] = useState<string | null>(null);
+  const [watchError, setWatchError] = useState<AppError | null>(null);
+  // Bumped to restart the watcher after a failed read
+  const [watchAttempt, setWatchAttempt] = useState(0);
+
+  // The indexer snapshot can lag the chain, so ask the contract directly too
+  useEffect(() => {
+    let stop = () => {};
+    let cancelled = false;
+    (async () => {
+      try {
+        const contract = await getContractReadOnly();
+        if (!contract || cancelled) return;
+        stop = watchTallyReveal(contract, proposal.id, dispatch);
+        const { value: tally, warning } = await criticalRead(
+          contract,
+          `the revealed tally of proposal ${proposal.id}`,
+          (c, blockTag) => getRevealedTally(c, proposal.id, blockTag)
+        );
+        if (cancelled) return;
+        setWarning(warning);
+        setWatchError(null);
+        if (tally) dispatch({ type: 'revealed', tally });
+      } catch (e) {
+        if (!cancelled) setWatchError(toAppError(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+      stop();
+    };
+  }, [proposal.id, watchAttempt]);
+
+  useEffect(() => {
+    if (reveal.phase !== 'awaitingOracle') return;
+    const timer = setTimeout(
+      () => dispatch({ type: 'timeout' }),
+      Math.max(0, reveal.requestedAt + ORACLE_TIMEOUT_MS - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [reveal]);
+
+  // A request confirmed through the app shows up in the next index refresh
+  useEffect(() => {
+    if (proposal.decryptionRequests > 0) {
+      dispatch({ type: 'requested', at: requestSeenAt(proposal.id, proposal.decryptionRequests) });
+    }
+  }, [proposal.id, proposal.decryptionRequests]);
+
+  // The indexer may pick up the reveal before the log watcher does
+  useEffect(() => {
+    if (proposal.tally) dispatch({ type: 'revealed', tally: proposal.tally });
+  }, [proposal.tally]);
+
+  const requestable = isMember && canRequestTally(status) && (reveal.phase === 'idle' || reveal.phase === 'timedOut');
+
+  if (reveal.phase === 'revealed') {
+    const { tally } = reveal;
+    return (
+      <div className="tally-breakdown">
+        <h3>Revealed tally</h3>
+        <ConsistencyWarning warning={warning} />
+        {CHOICES.map(({ choice, label }) => {
+          const weight = tally[`${choice}Weight`];
+          const percent = percentOf(weight, tally.turnoutWeight);
+          return (
+            <div className="tally-row" key={choice}>
+              <span className="detail-label">{label}</span>
+              <div className="tally-bar">
+                <div className={`tally-fill ${choice}`} style={{ width: `${percent}%` }}></div>
+              </div>
+              <span className="detail-value">
+                {weight} ({percent}%)
+              </span>
+            </div>
+          );
+        })}
+        <div className="form-hint">
+          Turnout weight {tally.turnoutWeight}
+          {proposal.tally && (
+            <>
+              , revealed in block{' '}
+              <ExplorerLink base={explorerUrl} path={`tx/${proposal.tally.ref.txHash}`}>
+                {proposal.tally.ref.blockNumber}
+              </ExplorerLink>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="tally-breakdown">
+      <h3>Tally</h3>
+      <ConsistencyWarning warning={warning} />
+      <ErrorNotice error={watchError} onRetry={() => setWatchAttempt(attempt => attempt + 1)} />
+      {reveal.phase === 'idle' && (
+        <div className="form-hint">
+          For, against and abstain weights stay encrypted until a member requests the tally after voting ends
+        </div>
+      )}
+      {reveal.phase === 'awaitingOracle' && (
+        <div className="tally-status">
+          <div className="cyber-spinner small"></div>
+          <span>
+            Awaiting the decryption oracle
+            {reveal.attempt > 1 ? ` (attempt ${reveal.attempt})` : ''}...
+          </span>
+        </div>
+      )}
+      {reveal.phase === 'timedOut' && (
+        <ErrorNotice error={oracleTimeoutError(ORACLE_TIMEOUT_MS / 60000)} />
+      )}
+      <div className="form-actions">
+        <button
+          className="cyber-button primary"
+          disabled={!requestable}
+          onClick={() => onRequestTally(proposal.id)}
+        >
+          {reveal.phase === 'timedOut' ? 'Retry Tally Decryption' : 'Request Tally Decryption'}
+        </button>
+      </div>
+    </div>
+  );
+}
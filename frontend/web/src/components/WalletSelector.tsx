@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { networkForChain } from '../../../../src/network/networks';
+import { activeNetwork, registry, switchWalletNetwork } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +357,11 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Wallets already on a configured network stay there, the app follows them
+      const chainId = parseInt(await wallet.provider.request({ method: 'eth_chainId' }), 16);
+      if (!networkForChain(registry, chainId)) {
+        await switchWalletNetwork(wallet.provider, activeNetwork());
+      }
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,40 +370,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -708,7 +679,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallets on a network this app is not configured for switch to {activeNetwork().name}
           </div>
         </div>
       </div>
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CURVE_NAMES,
+  CurveKind,
+  CurvePoint,
+  CurveSegment,
+  sampleCurve,
+  validateCurve,
+  WeightCurve,
+} from '../../../../src/attention/weightCurves';
+
+interface WeightCurvePanelProps {
+  curve: WeightCurve | null;
+}
+
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 160;
+const DEFAULT_MAX_SCORE = 400;
+
+const CURVE_HINTS: Record<CurveKind, string> = {
+  [CurveKind.Sqrt]: 'Weight is the square root of the score, clamped to 16 bits',
+  [CurveKind.Linear]: 'Weight equals the score',
+  [CurveKind.CappedLinear]: 'Weight equals the score up to the cap',
+  [CurveKind.Log2]: 'Weight is the bit length of the score, clamped to 16 bits, times the scale',
+  [CurveKind.Piecewise]: 'Each segment adds slopeBps / 10000 weight per point of score until the next segment starts',
+};
+
+// "0:10000, 100:5000" -> segments, in the order the admin passes them on-chain
+function parseSegments(text: string): CurveSegment[] {
+  return text
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => {
+      const [start, slopeBps] = part.split(':').map(Number);
+      if (!Number.isInteger(start) || !Number.isInteger(slopeBps)) {
+        throw new Error(`Expected start:slopeBps, got "${part}"`);
+      }
+      return { start, slopeBps };
+    });
+}
+
+function formatSegments(segments: CurveSegment[]): string {
+  return segments.map(({ start, slopeBps }) => `${start}:${slopeBps}`).join(', ');
+}
+
+function buildCandidate(kind: CurveKind, param: string, segments: string): WeightCurve {
+  switch (kind) {
+    case CurveKind.CappedLinear:
+      return { kind, cap: Number(param) };
+    case CurveKind.Log2:
+      return { kind, scale: Number(param) };
+    case CurveKind.Piecewise:
+      return { kind, segments: parseSegments(segments) };
+    default:
+      return { kind };
+  }
+}
+
+function toPath(points: CurvePoint[], maxScore: number, maxWeight: number): string {
+  return points
+    .map(({ score, weight }) => {
+      const x = (score / maxScore) * PLOT_WIDTH;
+      const y = PLOT_HEIGHT - (Math.min(weight, maxWeight) / maxWeight) * PLOT_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+// Evaluates curves with the same plaintext simulator the tests check the
+// contract against, so the plot is what members would actually be weighted.
+export default function WeightCurvePanel({ curve }: WeightCurvePanelProps) {
+  const [kind, setKind] = useState<CurveKind>(CurveKind.CappedLinear);
+  const [param, setParam] = useState('100');
+  const [segments, setSegments] = useState(formatSegments([
+    { start: 0, slopeBps: 10000 },
+    { start: 50, slopeBps: 2500 },
+  ]));
+  const [maxScore, setMaxScore] = useState(DEFAULT_MAX_SCORE);
+
+  const candidate = useMemo(() => {
+    try {
+      const built = buildCandidate(kind, param, segments);
+      validateCurve(built);
+      return { curve: built, error: '' };
+    } catch (e: any) {
+      return { curve: null, error: e.message as string };
+    }
+  }, [kind, param, segments]);
+
+  const currentPoints = curve ? sampleCurve(curve, maxScore) : [];
+  const candidatePoints = candidate.curve ? sampleCurve(candidate.curve, maxScore) : [];
+  const maxWeight = Math.max(1, ...currentPoints.map(p => p.weight), ...candidatePoints.map(p => p.weight));
+
+  const needsParam = kind === CurveKind.CappedLinear || kind === CurveKind.Log2;
+
+  return (
+    <div className="weight-curve-panel cyber-card">
+      <h3>Weight Curve</h3>
+      <p className="form-hint">
+        Voting weight is computed from the encrypted attention score with the curve below. Compare a candidate before
+        proposing a change: members move to a new curve at their next activity.
+      </p>
+
+      <svg
+        className="curve-plot"
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Voting weight by attention score"
+      >
+        {currentPoints.length > 0 && (
+          <polyline className="curve-current" points={toPath(currentPoints, maxScore, maxWeight)} />
+        )}
+        {candidatePoints.length > 0 && (
+          <polyline className="curve-candidate" points={toPath(candidatePoints, maxScore, maxWeight)} />
+        )}
+      </svg>
+      <div className="curve-axes">
+        <span>score 0</span>
+        <span>weight up to {maxWeight}</span>
+        <span>score {maxScore}</span>
+      </div>
+      <div className="curve-legend">
+        <span className="curve-current">■ Current: {curve ? CURVE_NAMES[curve.kind] : 'loading...'}</span>
+        <span className="curve-candidate">■ Candidate: {CURVE_NAMES[kind]}</span>
+      </div>
+
+      <div className="form-row">
+        <select className="cyber-select" value={kind} onChange={(e) => setKind(Number(e.target.value) as CurveKind)}>
+          {Object.entries(CURVE_NAMES).map(([value, name]) => (
+            <option key={value} value={value}>{name}</option>
+          ))}
+        </select>
+        {needsParam && (
+          <input
+            className="cyber-input"
+            type="number"
+            min="1"
+            value={param}
+            onChange={(e) => setParam(e.target.value)}
+            placeholder={kind === CurveKind.CappedLinear ? 'Cap' : 'Scale'}
+          />
+        )}
+        {kind === CurveKind.Piecewise && (
+          <input
+            className="cyber-input"
+            value={segments}
+            onChange={(e) => setSegments(e.target.value)}
+            placeholder="start:slopeBps, ..."
+          />
+        )}
+        <input
+          className="cyber-input"
+          type="number"
+          min="1"
+          value={maxScore}
+          onChange={(e) => setMaxScore(Math.max(1, Number(e.target.value) || 1))}
+          title="Highest score to plot"
+        />
+      </div>
+      <div className={`form-hint ${candidate.error ? 'error' : ''}`}>
+        {candidate.error || CURVE_HINTS[kind]}
+      </div>
+    </div>
+  );
+}
@@ -1,83 +1,81 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import abiJson from "./abi/AttentionVote_FHE.json";
 import configJson from "./config.json";
+import { activeNetwork } from "./networks";
+import { readProvider, readRunner } from "./rpcPool";
+import { notDeployedError, toAppError } from "./errors";
+import { AppError } from "../../../src/errors/appErrors";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
+// The DAO's address on the active network
+export function contractAddress(network = activeNetwork()): string {
+  if (!network.contracts.attentionVote) {
+    throw notDeployedError(network);
   }
-};
+  return network.contracts.attentionVote;
+}
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+// Contracts whose code has been found, one per network
+const readOnlyContracts = new Map<string, AttentionVote_FHE>();
+
+// Reads go through the network's provider pool, which fails over between its RPC
+// endpoints, and are batched with the other reads made in the same tick.
+// Null when the DAO is not deployed on the active network; an unreachable
+// network throws an AppError instead.
+export async function getContractReadOnly(): Promise<AttentionVote_FHE | null> {
+  const network = activeNetwork();
+  const address = network.contracts.attentionVote;
+  if (!address) {
+    return null;
+  }
+  const cached = readOnlyContracts.get(network.key);
+  if (cached) {
+    return cached;
   }
   
-  throw new Error("All RPC providers failed");
-};
-
-export async function getContractReadOnly() {
+  let code: string;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
+    code = await readProvider(network).getCode(address);
   } catch (error) {
-    console.error("Failed to create read-only contract:", error);
+    throw toAppError(error);
+  }
+  if (code === "0x") {
     return null;
   }
+  
+  const contract = new ethers.Contract(address, ABI, readRunner(network)) as unknown as AttentionVote_FHE;
+  readOnlyContracts.set(network.key, contract);
+  return contract;
 }
 
-export async function getContractWithSigner() {
+// Transactions go through the wallet's own RPC, so it has to be on the active network
+export async function getContractWithSigner(): Promise<AttentionVote_FHE> {
   if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+    throw new AppError(
+      "unknown",
+      "No browser wallet found",
+      "Install or unlock a browser wallet such as MetaMask, then reload the page."
+    );
   }
+  const network = activeNetwork();
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== network.chainId) {
+      throw new AppError(
+        "wrongNetwork",
+        `Your wallet is on chain ${chainId}, not ${network.name}`,
+        `Switch your wallet to ${network.name}.`
+      );
+    }
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return new ethers.Contract(contractAddress(network), ABI, signer) as unknown as AttentionVote_FHE;
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
+    throw toAppError(error);
   }
 }
 
@@ -0,0 +1,83 @@
+// criticalReads.ts
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import { compareAnswers } from "../../../src/network/quorumRead";
+import { activeNetwork } from "./networks";
+import { endpointLabel, readProvider } from "./rpcPool";
+
+// A read whose answer decides a governance outcome, with a warning when the
+// RPC endpoints asked for it did not agree
+export interface CheckedRead<T> {
+  value: T;
+  warning: string | null;
+}
+
+// A quorum read the endpoints did not agree on, kept for the diagnostics panel
+export interface QuorumMismatch {
+  network: string;
+  warning: string;
+  at: number;
+}
+
+const QUORUM_KEY = "attention-vote:quorum-reads";
+const MAX_MISMATCHES = 10;
+
+let mismatches: QuorumMismatch[] = [];
+const mismatchListeners = new Set<(mismatches: QuorumMismatch[]) => void>();
+
+// Newest first, for this session only
+export const quorumMismatches = () => mismatches;
+
+export function subscribeQuorumMismatches(listener: (mismatches: QuorumMismatch[]) => void) {
+  mismatchListeners.add(listener);
+  return () => {
+    mismatchListeners.delete(listener);
+  };
+}
+
+function recordMismatch(network: string, warning: string) {
+  mismatches = [{ network, warning, at: Date.now() }, ...mismatches].slice(0, MAX_MISMATCHES);
+  mismatchListeners.forEach(listener => listener(mismatches));
+}
+
+// Quorum reads use a block a little behind the head, so endpoints that are a
+// block or two behind can still answer for it
+const QUORUM_BLOCK_LAG = 2;
+
+// Endpoints each critical read is asked of, 0 when quorum reads are off
+export function quorumSize(): number {
+  const size = Number(localStorage.getItem(QUORUM_KEY));
+  return Number.isInteger(size) && size >= 2 ? size : 0;
+}
+
+export function setQuorumSize(size: number) {
+  if (size >= 2) {
+    localStorage.setItem(QUORUM_KEY, String(size));
+  } else {
+    localStorage.removeItem(QUORUM_KEY);
+  }
+}
+
+// Runs `read` through the pool as usual, or, with quorum reads on, on several
+// endpoints at the same block and compares the answers
+export async function criticalRead<T>(
+  contract: AttentionVote_FHE,
+  what: string,
+  read: (contract: AttentionVote_FHE, blockTag?: number) => Promise<T>
+): Promise<CheckedRead<T>> {
+  const network = activeNetwork();
+  const provider = readProvider(network);
+  const size = Math.min(quorumSize(), provider.pool.size);
+  if (size < 2) {
+    return { value: await read(contract), warning: null };
+  }
+
+  const blockTag = Math.max(0, (await provider.getBlockNumber()) - QUORUM_BLOCK_LAG);
+  const answers = await provider.pool.readEach(size, endpoint =>
+    read(contract.connect(endpoint), blockTag)
+  );
+  const { value, warning } = compareAnswers(answers, { what, blockTag, label: endpointLabel });
+  if (warning) {
+    recordMismatch(network.key, warning);
+  }
+  return { value, warning };
+}
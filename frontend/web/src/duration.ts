@@ -0,0 +1,42 @@
+// duration.ts
+export type DurationUnit = "minutes" | "hours" | "days" | "weeks";
+
+// A voting period is entered either relative to submission ("3 days") or as
+// the wall-clock moment voting should close.
+export type DurationInput =
+  | { kind: "relative"; amount: number; unit: DurationUnit }
+  | { kind: "date"; endsAt: Date };
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60,
+  weeks: 7 * 24 * 60 * 60,
+};
+
+// Converts the input to the `duration` argument of createProposal. A date is
+// measured from `now`, so the real deadline lands a few seconds later once
+// the transaction is mined.
+export function toDurationSeconds(input: DurationInput, now = new Date()): number {
+  const seconds =
+    input.kind === "relative"
+      ? Math.floor(input.amount * UNIT_SECONDS[input.unit])
+      : Math.floor((input.endsAt.getTime() - now.getTime()) / 1000);
+
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error("Voting period must end in the future");
+  }
+  return seconds;
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "0s";
+  const days = Math.floor(seconds / UNIT_SECONDS.days);
+  const hours = Math.floor((seconds % UNIT_SECONDS.days) / UNIT_SECONDS.hours);
+  const minutes = Math.floor((seconds % UNIT_SECONDS.hours) / UNIT_SECONDS.minutes);
+  const secs = seconds % UNIT_SECONDS.minutes;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${secs}s`;
+  return `${minutes}m ${secs}s`;
+}
@@ -0,0 +1,47 @@
+// errors.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/AttentionVote_FHE.json";
+import { VeriIdWalletFHE__factory } from "../../../types/factories/contracts/VeriIdWalletFHE__factory";
+import { AppError, classifyError } from "../../../src/errors/appErrors";
+import type { NetworkConfig } from "../../../src/network/networks";
+import { activeNetwork } from "./networks";
+
+// Custom errors are decoded from every contract the app calls
+const interfaces = [
+  new ethers.Interface((abiJson as any).abi || abiJson),
+  VeriIdWalletFHE__factory.createInterface()
+];
+
+export function toAppError(error: unknown): AppError {
+  return classifyError(error, { interfaces, network: activeNetwork() });
+}
+
+export function notDeployedError(network: NetworkConfig = activeNetwork()): AppError {
+  return new AppError(
+    "wrongNetwork",
+    `AttentionVote_FHE is not deployed on ${network.name}`,
+    "Switch your wallet to a network the DAO is deployed on."
+  );
+}
+
+export function walletNotConnectedError(): AppError {
+  return new AppError("walletNotConnected", "No wallet connected", "Connect your wallet, then try again.");
+}
+
+export function noProviderError(network: NetworkConfig = activeNetwork()): AppError {
+  return new AppError(
+    "rpcUnavailable",
+    `No RPC provider for ${network.name} is connected`,
+    "Reload the page. The RPC Endpoints panel shows which endpoints are failing."
+  );
+}
+
+// Pooled reads answered from endpoints that disagree about a block, either
+// mid-reorg or at different heights
+export function rpcMismatchError(blockNumber: number): AppError {
+  return new AppError(
+    "rpcUnavailable",
+    `The RPC endpoints returned different versions of block ${blockNumber}`,
+    "Reload to read the history again once the endpoints agree."
+  );
+}
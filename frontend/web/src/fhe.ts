@@ -0,0 +1,131 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { CHOICE_VALUES, VoteChoice } from "./attentionVote";
+import { activeNetwork, registry } from "./networks";
+import { AppError, encryptionError } from "../../../src/errors/appErrors";
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+let instance: { network: string; promise: Promise<FhevmInstance> } | null = null;
+
+// The relayer instance downloads the network public key and CRS, so it is
+// created once per network and shared by every encryption request on it.
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  const network = activeNetwork();
+  if (network.relayer !== "sepolia") {
+    const withRelayer = Object.values(registry.networks).find(n => n.relayer)?.name;
+    return Promise.reject(new AppError(
+      "encryptionFailed",
+      `Encryption is not available on ${network.name}: it has no FHE relayer`,
+      withRelayer ? `Switch your wallet to ${withRelayer}, which has one.` : "Configure a network with an FHE relayer."
+    ));
+  }
+  if (instance?.network !== network.key) {
+    const promise = (async () => {
+      try {
+        await initSDK();
+        return await createInstance({
+          ...SepoliaConfig,
+          network: (window as any).ethereum ?? network.rpcUrls[0],
+        });
+      } catch (e) {
+        throw encryptionError("Connecting to the FHE relayer", e);
+      }
+    })();
+    instance = { network: network.key, promise };
+    promise.catch(() => {
+      if (instance?.promise === promise) {
+        instance = null;
+      }
+    });
+  }
+  return instance.promise;
+}
+
+// Inputs are bound to (contract, user): the InputVerifier rejects the proof if
+// the handle is submitted to another contract or by another sender.
+const encryptSingle = async (
+  contractAddress: string,
+  userAddress: string,
+  add: (input: ReturnType<FhevmInstance["createEncryptedInput"]>) => void
+): Promise<EncryptedInput> => {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(
+    ethers.getAddress(contractAddress),
+    ethers.getAddress(userAddress)
+  );
+  add(input);
+
+  let encrypted: Awaited<ReturnType<typeof input.encrypt>>;
+  try {
+    encrypted = await input.encrypt();
+  } catch (e) {
+    throw encryptionError("Encryption", e);
+  }
+  const { handles, inputProof } = encrypted;
+  return {
+    handle: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+};
+
+export async function encryptVote(contractAddress: string, userAddress: string, choice: VoteChoice) {
+  return encryptSingle(contractAddress, userAddress, input => input.add8(CHOICE_VALUES[choice]));
+}
+
+// Share of the caller's own weight to delegate, in basis points
+export async function encryptShareBps(contractAddress: string, userAddress: string, shareBps: number) {
+  if (!Number.isInteger(shareBps) || shareBps < 0 || shareBps > 10000) {
+    throw new Error(`Delegated share must be 0 to 10000 basis points, got ${shareBps}`);
+  }
+  return encryptSingle(contractAddress, userAddress, input => input.add16(shareBps));
+}
+
+// A user decrypt request is valid for this many days from when it is signed.
+const USER_DECRYPT_DURATION_DAYS = 1;
+
+// Re-encrypts handles under a throwaway keypair so only this browser can read
+// them. The relayer only answers if the ACL allows both the signer and the
+// contract to use every handle, and the signer proves who they are by signing
+// the EIP-712 request with their wallet.
+export async function userDecrypt(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<Record<string, bigint>> {
+  const instance = await getFhevmInstance();
+  const contract = ethers.getAddress(contractAddress);
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+
+  const eip712 = instance.createEIP712(publicKey, [contract], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  // A rejected signature above is the user's choice, not a relayer failure
+  const userAddress = await signer.getAddress();
+  let results: Awaited<ReturnType<FhevmInstance["userDecrypt"]>>;
+  try {
+    results = await instance.userDecrypt(
+      handles.map(handle => ({ handle, contractAddress: contract })),
+      privateKey,
+      publicKey,
+      signature.replace("0x", ""),
+      [contract],
+      userAddress,
+      startTimestamp,
+      USER_DECRYPT_DURATION_DAYS
+    );
+  } catch (e) {
+    throw encryptionError("Decryption", e);
+  }
+  return Object.fromEntries(handles.map(handle => [handle, BigInt(results[handle])]));
+}
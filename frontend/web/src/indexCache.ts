@@ -0,0 +1,137 @@
+// indexCache.ts
+import type { Provider } from "ethers";
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import { AppError } from "../../../src/errors/appErrors";
+import { normAddr } from "./contract";
+import { noProviderError, rpcMismatchError } from "./errors";
+import { applyEvents, emptyIndex, fetchGovernanceEvents, GovernanceEvent, GovernanceIndex } from "./indexer";
+
+const DB_NAME = "attention-vote";
+const DB_VERSION = 1;
+const STORE = "governance-index";
+const RECORD_KEY = "current";
+
+// Enough history to roll back across any reorg we expect on Sepolia or a local node
+const MAX_CHECKPOINTS = 32;
+
+interface CacheScope {
+  chainId: number;
+  contractAddress: string;
+  deployBlock: number;
+}
+
+interface BlockCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+interface CachedIndex extends CacheScope {
+  events: GovernanceEvent[];
+  checkpoints: BlockCheckpoint[];
+}
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const readCache = () => withStore<CachedIndex | undefined>("readonly", store => store.get(RECORD_KEY));
+const writeCache = (cached: CachedIndex) => withStore("readwrite", store => store.put(cached, RECORD_KEY));
+
+export const clearGovernanceCache = () => withStore("readwrite", store => store.delete(RECORD_KEY));
+
+const sameScope = (cached: CachedIndex, scope: CacheScope) =>
+  cached.chainId === scope.chainId &&
+  normAddr(cached.contractAddress) === normAddr(scope.contractAddress) &&
+  cached.deployBlock === scope.deployBlock;
+
+// Returns the newest checkpoint whose block is still canonical, or null when
+// the whole cached range has been reorged away.
+const findCanonicalCheckpoint = async (provider: Provider, checkpoints: BlockCheckpoint[]) => {
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    const block = await provider.getBlock(checkpoints[i].blockNumber);
+    if (block?.hash === checkpoints[i].blockHash) {
+      return checkpoints.slice(0, i + 1);
+    }
+  }
+  return null;
+};
+
+// Brings the cached index up to the chain head, fetching only logs past the
+// last processed block. The cache is dropped when the chain, contract address
+// or deploy block no longer match, and falls back to a plain in-memory index
+// when IndexedDB is unavailable (private browsing, old browsers).
+//
+// Pooled reads can land on endpoints at different heights, so logs are fetched
+// up to an explicit block and only checkpointed if that block's hash, read
+// again afterwards, matches the head and the logs fetched from it.
+export async function syncGovernanceIndex(contract: AttentionVote_FHE, deployBlock: number): Promise<GovernanceIndex> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw noProviderError();
+  }
+  const scope: CacheScope = {
+    chainId: Number((await provider.getNetwork()).chainId),
+    contractAddress: await contract.getAddress(),
+    deployBlock,
+  };
+
+  let cached: CachedIndex | undefined;
+  try {
+    cached = await readCache();
+  } catch {
+    // No usable cache; index from scratch
+  }
+
+  let events: GovernanceEvent[] = [];
+  let checkpoints: BlockCheckpoint[] = [];
+  if (cached && sameScope(cached, scope)) {
+    const canonical = await findCanonicalCheckpoint(provider, cached.checkpoints);
+    if (canonical) {
+      const lastGood = canonical[canonical.length - 1].blockNumber;
+      checkpoints = canonical;
+      events = cached.events.filter(e => e.ref.blockNumber <= lastGood);
+    }
+  }
+
+  const fromBlock = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].blockNumber + 1 : scope.deployBlock;
+  const head = await provider.getBlock("latest");
+  if (!head || !head.hash) {
+    throw new AppError("rpcUnavailable", "Could not read the latest block", "Check your connection and retry.");
+  }
+  const toBlock = head.number;
+
+  if (toBlock >= fromBlock) {
+    const fetched = await fetchGovernanceEvents(contract, fromBlock, toBlock);
+    const tip = await provider.getBlock(toBlock);
+    if (tip?.hash !== head.hash || fetched.some(e => e.ref.blockNumber === toBlock && e.ref.blockHash !== head.hash)) {
+      throw rpcMismatchError(toBlock);
+    }
+    events = events.concat(fetched);
+    checkpoints = [...checkpoints, { blockNumber: toBlock, blockHash: head.hash }].slice(-MAX_CHECKPOINTS);
+  }
+
+  try {
+    await writeCache({ ...scope, events, checkpoints });
+  } catch {
+    // The index is still returned; the next load just starts over
+  }
+
+  return applyEvents(emptyIndex(scope.deployBlock), events, toBlock);
+}
@@ -0,0 +1,320 @@
+// indexer.ts
+import { ZeroAddress } from "ethers";
+import type { Log } from "ethers";
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import type { Tally } from "./attentionVote";
+import { normAddr } from "./contract";
+import { noProviderError } from "./errors";
+
+// Where an indexed fact was recorded on-chain. The block hash lets callers
+// detect that a stored entry was dropped by a reorg.
+export interface ChainRef {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface IndexedMember {
+  address: string;
+  joined: ChainRef;
+}
+
+export interface RevealedTally extends Tally {
+  ref: ChainRef;
+}
+
+export interface RevealedOutcome {
+  quorumReached: boolean;
+  approved: boolean;
+  ref: ChainRef;
+}
+
+export interface IndexedProposal {
+  id: number;
+  endTime: number;
+  metadataHash: string;
+  created: ChainRef;
+  queued: { eta: number; ref: ChainRef } | null;
+  executed: ChainRef | null;
+  decryptionRequests: ChainRef[];
+  voteCount: number;
+  tally: RevealedTally | null;
+  outcomeRequests: ChainRef[];
+  outcome: RevealedOutcome | null;
+}
+
+// A member's current delegation; revoking one removes its entry
+export interface IndexedDelegation {
+  delegator: string;
+  delegate: string;
+  since: ChainRef;
+}
+
+export interface IndexedVote {
+  id: string;
+  proposalId: number;
+  voter: string;
+  ref: ChainRef;
+  changes: ChainRef[];
+}
+
+export interface GovernanceIndex {
+  fromBlock: number;
+  toBlock: number;
+  members: Record<string, IndexedMember>;
+  proposals: Record<number, IndexedProposal>;
+  votes: IndexedVote[];
+  delegations: Record<string, IndexedDelegation>;
+}
+
+export type GovernanceEvent =
+  | { name: "MemberJoined"; ref: ChainRef; member: string }
+  | { name: "ProposalCreated"; ref: ChainRef; proposalId: number; endTime: number; metadataHash: string }
+  | { name: "VoteCast"; ref: ChainRef; voter: string; proposalId: number }
+  | { name: "VoteChanged"; ref: ChainRef; voter: string; proposalId: number }
+  | { name: "ProposalQueued"; ref: ChainRef; proposalId: number; eta: number }
+  | { name: "ProposalExecuted"; ref: ChainRef; proposalId: number }
+  | { name: "DecryptionRequested"; ref: ChainRef; id: number }
+  | ({ name: "TallyRevealed"; ref: ChainRef; proposalId: number } & Tally)
+  | { name: "OutcomeRequested"; ref: ChainRef; proposalId: number }
+  | { name: "OutcomeRevealed"; ref: ChainRef; proposalId: number; quorumReached: boolean; approved: boolean }
+  | { name: "DelegationChanged"; ref: ChainRef; delegator: string; fromDelegate: string | null; toDelegate: string | null };
+
+// Public RPC endpoints commonly reject eth_getLogs spans above a few thousand blocks.
+const DEFAULT_CHUNK_SIZE = 5000;
+
+export function emptyIndex(fromBlock = 0): GovernanceIndex {
+  return { fromBlock, toBlock: fromBlock - 1, members: {}, proposals: {}, votes: [], delegations: {} };
+}
+
+// Delegators are public on-chain; only how much each one delegated is encrypted
+export const delegatorsOf = (index: GovernanceIndex, delegate: string) =>
+  Object.values(index.delegations).filter(d => d.delegate === normAddr(delegate));
+
+const optionalAddr = (address: string) => (address === ZeroAddress ? null : normAddr(address));
+
+const refOf = (log: Log): ChainRef => ({
+  blockNumber: log.blockNumber,
+  blockHash: log.blockHash,
+  txHash: log.transactionHash,
+  logIndex: log.index,
+});
+
+export function decodeGovernanceLog(contract: AttentionVote_FHE, log: Log): GovernanceEvent | null {
+  const parsed = contract.interface.parseLog(log);
+  if (!parsed) return null;
+
+  const ref = refOf(log);
+  switch (parsed.name) {
+    case "MemberJoined":
+      return { name: parsed.name, ref, member: normAddr(parsed.args.member) };
+    case "ProposalCreated":
+      return {
+        name: parsed.name,
+        ref,
+        proposalId: Number(parsed.args.proposalId),
+        endTime: Number(parsed.args.endTime),
+        metadataHash: parsed.args.metadataHash,
+      };
+    case "VoteCast":
+    case "VoteChanged":
+      return { name: parsed.name, ref, voter: normAddr(parsed.args.voter), proposalId: Number(parsed.args.proposalId) };
+    case "ProposalQueued":
+      return { name: parsed.name, ref, proposalId: Number(parsed.args.proposalId), eta: Number(parsed.args.eta) };
+    case "ProposalExecuted":
+    case "OutcomeRequested":
+      return { name: parsed.name, ref, proposalId: Number(parsed.args.proposalId) };
+    case "OutcomeRevealed":
+      return {
+        name: parsed.name,
+        ref,
+        proposalId: Number(parsed.args.proposalId),
+        quorumReached: parsed.args.quorumReached,
+        approved: parsed.args.approved,
+      };
+    case "DecryptionRequested":
+      return { name: parsed.name, ref, id: Number(parsed.args.id) };
+    case "DelegationChanged":
+      return {
+        name: parsed.name,
+        ref,
+        delegator: normAddr(parsed.args.delegator),
+        fromDelegate: optionalAddr(parsed.args.fromDelegate),
+        toDelegate: optionalAddr(parsed.args.toDelegate),
+      };
+    case "TallyRevealed":
+      return {
+        name: parsed.name,
+        ref,
+        proposalId: Number(parsed.args.proposalId),
+        forWeight: Number(parsed.args.forWeight),
+        againstWeight: Number(parsed.args.againstWeight),
+        abstainWeight: Number(parsed.args.abstainWeight),
+        turnoutWeight: Number(parsed.args.turnoutWeight),
+      };
+    default:
+      return null;
+  }
+}
+
+export async function fetchGovernanceEvents(
+  contract: AttentionVote_FHE,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<GovernanceEvent[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw noProviderError();
+  }
+  const address = await contract.getAddress();
+
+  const events: GovernanceEvent[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    const logs = await provider.getLogs({ address, fromBlock: start, toBlock: end });
+    for (const log of logs) {
+      const event = decodeGovernanceLog(contract, log);
+      if (event) events.push(event);
+    }
+  }
+  return events;
+}
+
+// Folds events into the index in chain order. The input index is not mutated,
+// so a caller can keep the previous snapshot if a later step fails.
+export function applyEvents(index: GovernanceIndex, events: GovernanceEvent[], toBlock: number): GovernanceIndex {
+  const next: GovernanceIndex = {
+    fromBlock: index.fromBlock,
+    toBlock: Math.max(index.toBlock, toBlock),
+    members: { ...index.members },
+    proposals: { ...index.proposals },
+    votes: [...index.votes],
+    delegations: { ...index.delegations },
+  };
+
+  const ordered = [...events].sort(
+    (a, b) => a.ref.blockNumber - b.ref.blockNumber || a.ref.logIndex - b.ref.logIndex
+  );
+
+  for (const event of ordered) {
+    switch (event.name) {
+      case "MemberJoined":
+        next.members[event.member] = { address: event.member, joined: event.ref };
+        break;
+      case "ProposalCreated":
+        next.proposals[event.proposalId] = {
+          id: event.proposalId,
+          endTime: event.endTime,
+          metadataHash: event.metadataHash,
+          created: event.ref,
+          queued: null,
+          executed: null,
+          decryptionRequests: [],
+          voteCount: 0,
+          tally: null,
+          outcomeRequests: [],
+          outcome: null,
+        };
+        break;
+      case "VoteCast": {
+        next.votes.push({
+          id: `${event.ref.txHash}-${event.ref.logIndex}`,
+          proposalId: event.proposalId,
+          voter: event.voter,
+          ref: event.ref,
+          changes: [],
+        });
+        const proposal = next.proposals[event.proposalId];
+        if (proposal) {
+          next.proposals[event.proposalId] = { ...proposal, voteCount: proposal.voteCount + 1 };
+        }
+        break;
+      }
+      // A changed ballot replaces the earlier one on-chain, so it is recorded
+      // against the original vote rather than counted as a new ballot.
+      case "VoteChanged": {
+        const i = next.votes.findIndex(v => v.proposalId === event.proposalId && v.voter === event.voter);
+        if (i >= 0) {
+          next.votes[i] = { ...next.votes[i], changes: [...next.votes[i].changes, event.ref] };
+        }
+        break;
+      }
+      case "OutcomeRequested": {
+        const proposal = next.proposals[event.proposalId];
+        if (proposal) {
+          next.proposals[event.proposalId] = {
+            ...proposal,
+            outcomeRequests: [...proposal.outcomeRequests, event.ref],
+          };
+        }
+        break;
+      }
+      case "OutcomeRevealed": {
+        const proposal = next.proposals[event.proposalId];
+        if (proposal) {
+          const { quorumReached, approved, ref } = event;
+          next.proposals[event.proposalId] = { ...proposal, outcome: { quorumReached, approved, ref } };
+        }
+        break;
+      }
+      case "ProposalQueued": {
+        const proposal = next.proposals[event.proposalId];
+        if (proposal) {
+          next.proposals[event.proposalId] = { ...proposal, queued: { eta: event.eta, ref: event.ref } };
+        }
+        break;
+      }
+      case "ProposalExecuted": {
+        const proposal = next.proposals[event.proposalId];
+        if (proposal) {
+          next.proposals[event.proposalId] = { ...proposal, executed: event.ref };
+        }
+        break;
+      }
+      case "DecryptionRequested": {
+        const proposal = next.proposals[event.id];
+        if (proposal) {
+          next.proposals[event.id] = {
+            ...proposal,
+            decryptionRequests: [...proposal.decryptionRequests, event.ref],
+          };
+        }
+        break;
+      }
+      // decryptVoteCount reveals a tally at most once; requests can be repeated
+      // until it answers, but the first reveal is final
+      case "TallyRevealed": {
+        const proposal = next.proposals[event.proposalId];
+        if (proposal && !proposal.tally) {
+          const { name, proposalId, ...tally } = event;
+          next.proposals[event.proposalId] = { ...proposal, tally };
+        }
+        break;
+      }
+      case "DelegationChanged":
+        if (event.toDelegate) {
+          next.delegations[event.delegator] = { delegator: event.delegator, delegate: event.toDelegate, since: event.ref };
+        } else {
+          delete next.delegations[event.delegator];
+        }
+        break;
+    }
+  }
+  return next;
+}
+
+export async function indexGovernance(
+  contract: AttentionVote_FHE,
+  fromBlock: number,
+  toBlock?: number
+): Promise<GovernanceIndex> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw noProviderError();
+  }
+  const head = toBlock ?? (await provider.getBlockNumber());
+  const events = await fetchGovernanceEvents(contract, fromBlock, head);
+  return applyEvents(emptyIndex(fromBlock), events, head);
+}
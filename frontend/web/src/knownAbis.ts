@@ -0,0 +1,33 @@
+// knownAbis.ts
+import type { KnownAbi } from "../../../src/execution/proposalActions";
+import { AttentionVote_FHE__factory } from "../../../types/factories/contracts/AttentionVote_FHE__factory";
+import { CsrFeedbackFHE__factory } from "../../../types/factories/contracts/CsrFeedbackFHE__factory";
+import { CuratedListsFHE__factory } from "../../../types/factories/contracts/CuratedListsFHE__factory";
+import { FedClusterFHE__factory } from "../../../types/factories/contracts/FedClusterFHE__factory";
+import { FHEPowerMaintenance__factory } from "../../../types/factories/contracts/FHEPowerMaintenance__factory";
+import { SecureFederatedDatabase__factory } from "../../../types/factories/contracts/SecureFederatedDatabase__factory";
+import { UniversalAdapter__factory } from "../../../types/factories/contracts/UniversalAdapter__factory";
+import { VeriIdWalletFHE__factory } from "../../../types/factories/contracts/VeriIdWalletFHE__factory";
+import { VeterinaryFHERecordNetwork__factory } from "../../../types/factories/contracts/VeterinaryFHERecordNetwork__factory";
+import { activeNetwork } from "./networks";
+
+// Contracts with typechain bindings in types/. Calls to other targets are
+// decoded with the first ABI whose selector matches, so the DAO comes first.
+export const KNOWN_ABIS: KnownAbi[] = [
+  { name: "AttentionVote_FHE", abi: AttentionVote_FHE__factory.abi },
+  { name: "VeriIdWalletFHE", abi: VeriIdWalletFHE__factory.abi },
+  { name: "CuratedListsFHE", abi: CuratedListsFHE__factory.abi },
+  { name: "CsrFeedbackFHE", abi: CsrFeedbackFHE__factory.abi },
+  { name: "FedClusterFHE", abi: FedClusterFHE__factory.abi },
+  { name: "FHEPowerMaintenance", abi: FHEPowerMaintenance__factory.abi },
+  { name: "SecureFederatedDatabase", abi: SecureFederatedDatabase__factory.abi },
+  { name: "VeterinaryFHERecordNetwork", abi: VeterinaryFHERecordNetwork__factory.abi },
+  { name: "UniversalAdapter", abi: UniversalAdapter__factory.abi },
+];
+
+// The known ABIs with the addresses they are deployed at, for decoding. Only
+// the DAO's own address is configured per network.
+export const deployedAbis = (network = activeNetwork()): KnownAbi[] =>
+  KNOWN_ABIS.map(known =>
+    known.name === "AttentionVote_FHE" ? { ...known, address: network.contracts.attentionVote } : known
+  );
@@ -0,0 +1,21 @@
+// metadataStore.ts
+import { config } from "./contract";
+import { ContentStore, HttpContentStore } from "../../../src/metadata/proposalMetadata";
+
+const LOCAL_PREFIX = "attention-vote:metadata:";
+
+// Fallback when no gateway is configured: documents only exist in the
+// browser that created them, which is enough for local development.
+class LocalStorageContentStore implements ContentStore {
+  async put(hash: string, content: string) {
+    localStorage.setItem(LOCAL_PREFIX + hash.toLowerCase(), content);
+  }
+
+  async get(hash: string) {
+    return localStorage.getItem(LOCAL_PREFIX + hash.toLowerCase());
+  }
+}
+
+export const metadataStore: ContentStore = config.metadataGateway
+  ? new HttpContentStore(config.metadataGateway)
+  : new LocalStorageContentStore();
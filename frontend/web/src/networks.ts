@@ -0,0 +1,41 @@
+// networks.ts
+import { ethers } from "ethers";
+import configJson from "./config.json";
+import {
+  addChainParameters,
+  applyNetworkEnv,
+  defaultNetworkOf,
+  NetworkConfig,
+  networkForChain,
+  parseNetworkRegistry
+} from "../../../src/network/networks";
+
+export const registry = applyNetworkEnv(parseNetworkRegistry(configJson), import.meta.env);
+
+let active: NetworkConfig = defaultNetworkOf(registry);
+
+// The network reads and transactions go to. It follows the wallet's chain
+// when the registry has an entry for it and stays put otherwise.
+export const activeNetwork = () => active;
+
+export function selectNetworkForChain(chainId: number): NetworkConfig | null {
+  const network = networkForChain(registry, chainId);
+  if (network) {
+    active = network;
+  }
+  return network;
+}
+
+// Asks the wallet to switch chains, adding the network first if it does not
+// know it (error 4902). Wallets that refuse are left where they are.
+export async function switchWalletNetwork(provider: any, network: NetworkConfig) {
+  const chainId = ethers.toQuantity(network.chainId);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) {
+      throw switchError;
+    }
+    await provider.request({ method: "wallet_addEthereumChain", params: [addChainParameters(network)] });
+  }
+}
@@ -0,0 +1,37 @@
+// proposals.ts
+import type { LoadedProposal } from "../../../src/metadata/proposalMetadata";
+import type { ProposalState } from "./attentionVote";
+import type { ChainRef, RevealedTally } from "./indexer";
+
+export type ProposalPhase = "active" | "ended" | "executed";
+
+// Contract state joined with what the indexer and the metadata store know
+// about the proposal.
+export interface Proposal extends ProposalState {
+  phase: ProposalPhase;
+  created: ChainRef | null;
+  voteCount: number;
+  decryptionRequests: number;
+  tally: RevealedTally | null;
+  outcomeRequested: boolean;
+  outcomeRef: ChainRef | null;
+  metadata: LoadedProposal | null;
+}
+
+export const formatBps = (bps: number) => `${bps / 100}%`;
+
+export function outcomeLabel(proposal: ProposalState & { outcomeRequested: boolean }): string {
+  const { outcome } = proposal;
+  if (outcome.revealed) {
+    if (!outcome.quorumReached) return "Failed: no quorum";
+    if (!outcome.approved) return "Failed: rejected";
+    return proposal.isExecuted ? "Passed" : "Passed, queued for execution";
+  }
+  if (!proposal.votingEnded) return "Voting open";
+  return proposal.outcomeRequested ? "Awaiting oracle" : "Outcome not requested";
+}
+
+export const phaseOf = (proposal: ProposalState): ProposalPhase => {
+  if (proposal.isExecuted) return "executed";
+  return proposal.votingEnded ? "ended" : "active";
+};
@@ -0,0 +1,76 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+import { EndpointHealth, ProviderPool } from "../../../src/network/providerPool";
+import { BatchStats, MulticallRunner } from "../../../src/network/multicall";
+import { PooledRpcProvider } from "../../../src/network/pooledRpcProvider";
+import type { NetworkConfig } from "../../../src/network/networks";
+
+const PREFERRED_RPC_KEY = "attention-vote:rpc";
+
+const providers = new Map<string, PooledRpcProvider>();
+
+function createProvider(network: NetworkConfig): PooledRpcProvider {
+  const staticNetwork = new ethers.Network(network.key, network.chainId);
+  // The endpoint that was healthiest last session goes first until the pool has measured the others
+  const preferredKey = `${PREFERRED_RPC_KEY}:${network.key}`;
+  const preferred = localStorage.getItem(preferredKey);
+  const rpcUrls = preferred && network.rpcUrls.includes(preferred)
+    ? [preferred, ...network.rpcUrls.filter(url => url !== preferred)]
+    : network.rpcUrls;
+
+  const pool = new ProviderPool(
+    rpcUrls.map(url => ({ url, provider: new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork }) })),
+    // Contract calls made on one endpoint directly (quorum reads) can revert; every endpoint would say the same
+    { isEndpointError: error => !ethers.isError(error, "CALL_EXCEPTION") }
+  );
+  pool.subscribe(([best]) => {
+    if (best.status === "healthy" && best.latencyMs !== null) {
+      localStorage.setItem(preferredKey, best.url);
+    }
+  });
+  return new PooledRpcProvider(pool, staticNetwork);
+}
+
+// One long-lived provider per network, so endpoint health carries across reads
+export function readProvider(network: NetworkConfig): PooledRpcProvider {
+  let provider = providers.get(network.key);
+  if (!provider) {
+    provider = createProvider(network);
+    providers.set(network.key, provider);
+  }
+  return provider;
+}
+
+const runners = new Map<string, ethers.ContractRunner>();
+
+// What read-only contracts are connected to: contract reads are batched through
+// Multicall3 where the network has one, and everything else through JSON-RPC batches
+export function readRunner(network: NetworkConfig): ethers.ContractRunner {
+  let runner = runners.get(network.key);
+  if (!runner) {
+    const provider = readProvider(network);
+    runner = network.contracts.multicall3 ? new MulticallRunner(provider, network.contracts.multicall3) : provider;
+    runners.set(network.key, runner);
+  }
+  return runner;
+}
+
+// Null where reads are not batched through Multicall3
+export function readBatchStats(network: NetworkConfig): BatchStats | null {
+  const runner = readRunner(network);
+  return runner instanceof MulticallRunner ? runner.stats : null;
+}
+
+export const readPoolHealth = (network: NetworkConfig): EndpointHealth[] => readProvider(network).pool.health();
+
+export const subscribeReadPool = (network: NetworkConfig, listener: (health: EndpointHealth[]) => void) =>
+  readProvider(network).pool.subscribe(listener);
+
+// Endpoints configured from the environment may carry an API key in the path
+export function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
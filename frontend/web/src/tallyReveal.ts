@@ -0,0 +1,88 @@
+// tallyReveal.ts
+import type { AttentionVote_FHE } from "../../../types/contracts/AttentionVote_FHE";
+import type { Tally } from "./attentionVote";
+import { activeNetwork } from "./networks";
+
+// The oracle answers a DecryptionRequested event with a separate callback
+// transaction. Nothing on-chain says it will never answer, so the client
+// gives up waiting after a while and lets the member request again.
+export const ORACLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const REQUEST_SEEN_KEY = "attention-vote:tally-request";
+
+export type TallyRevealState =
+  | { phase: "idle" }
+  | { phase: "awaitingOracle"; requestedAt: number; attempt: number }
+  | { phase: "timedOut"; attempt: number }
+  | { phase: "revealed"; tally: Tally };
+
+export type TallyRevealEvent =
+  | { type: "requested"; at: number }
+  | { type: "revealed"; tally: Tally }
+  | { type: "timeout" };
+
+// When the `request`th decryption request for a proposal was first seen. The
+// time is kept across reloads, so a reload does not restart the oracle timeout.
+export function requestSeenAt(proposalId: number, request: number, now = Date.now()): number {
+  const network = activeNetwork();
+  const key = `${REQUEST_SEEN_KEY}:${network.key}:${network.contracts.attentionVote}:${proposalId}:${request}`;
+  const seen = Number(localStorage.getItem(key));
+  if (seen > 0) return seen;
+  localStorage.setItem(key, String(now));
+  return now;
+}
+
+export const initialRevealState = (tally: Tally | null, requestedAt: number | null): TallyRevealState => {
+  if (tally) return { phase: "revealed", tally };
+  return requestedAt !== null ? { phase: "awaitingOracle", requestedAt, attempt: 1 } : { phase: "idle" };
+};
+
+export function nextRevealState(state: TallyRevealState, event: TallyRevealEvent): TallyRevealState {
+  // A revealed tally is final on-chain
+  if (state.phase === "revealed") return state;
+
+  switch (event.type) {
+    case "requested":
+      // Our own receipt and the log watcher both report the same request
+      if (state.phase === "awaitingOracle") return state;
+      return {
+        phase: "awaitingOracle",
+        requestedAt: event.at,
+        attempt: state.phase === "timedOut" ? state.attempt + 1 : 1,
+      };
+    case "revealed":
+      return { phase: "revealed", tally: event.tally };
+    case "timeout":
+      return state.phase === "awaitingOracle" ? { phase: "timedOut", attempt: state.attempt } : state;
+  }
+}
+
+// Feeds DecryptionRequested and TallyRevealed logs for one proposal into the
+// state machine. Returns a function that stops watching.
+export function watchTallyReveal(
+  contract: AttentionVote_FHE,
+  proposalId: number,
+  dispatch: (event: TallyRevealEvent) => void
+): () => void {
+  const requested = contract.filters.DecryptionRequested(proposalId);
+  const revealed = contract.filters.TallyRevealed(proposalId);
+
+  const onRequested = () => dispatch({ type: "requested", at: Date.now() });
+  const onRevealed = (_: bigint, forWeight: bigint, againstWeight: bigint, abstainWeight: bigint, turnoutWeight: bigint) =>
+    dispatch({
+      type: "revealed",
+      tally: {
+        forWeight: Number(forWeight),
+        againstWeight: Number(againstWeight),
+        abstainWeight: Number(abstainWeight),
+        turnoutWeight: Number(turnoutWeight),
+      },
+    });
+
+  contract.on(requested, onRequested);
+  contract.on(revealed, onRevealed);
+  return () => {
+    contract.off(requested, onRequested);
+    contract.off(revealed, onRevealed);
+  };
+}
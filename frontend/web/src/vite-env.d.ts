@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+// Network overrides read by src/network/networks.ts; <KEY> is the network's
+// key in config.json, upper-cased (SEPOLIA, LOCALHOST)
+interface ImportMetaEnv {
+  readonly VITE_NETWORK?: string;
+  readonly [key: `VITE_${string}_RPC_URLS`]: string | undefined;
+  readonly [key: `VITE_${string}_ATTENTION_VOTE`]: string | undefined;
+  readonly [key: `VITE_${string}_DEPLOY_BLOCK`]: string | undefined;
+}
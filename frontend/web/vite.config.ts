@@ -1,8 +1,15 @@
-import { defineConfig } from "vite";
+import path from "path";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // Shared modules live in the repository root src/ next to the contracts
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../../src")]
+    }
+  },
   define: {
     'process.env': process.env
   },
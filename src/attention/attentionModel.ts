@@ -0,0 +1,52 @@
+// Plaintext reference for how AttentionVote_FHE updates an encrypted score.
+// The contract tests check the chain against it, and the frontend uses it to
+// preview a member's weight, so any change here must match the contract.
+
+export interface DecayModel {
+  halfLife: number; // seconds
+}
+
+export const DEFAULT_DECAY_MODEL: DecayModel = { halfLife: 30 * 24 * 3600 };
+
+export interface ActivityType {
+  id: number;
+  name: string;
+  weight: number;
+}
+
+// Registered by the contract constructor, in this order
+export const ACTIVITY_PROPOSAL = 0;
+export const ACTIVITY_VOTE = 1;
+
+const MAX_BPS = 10000n;
+const UINT32_MODULUS = 1n << 32n;
+
+// Halves the score once per full half-life, then decays it linearly towards
+// the next halving over the rest of the period. The loss is rounded down.
+export function decayScore(score: bigint, elapsed: number, model: DecayModel): bigint {
+  if (model.halfLife <= 0) {
+    throw new Error(`Half-life must be positive, got ${model.halfLife}`);
+  }
+  const seconds = BigInt(Math.max(0, Math.floor(elapsed)));
+  const halfLife = BigInt(model.halfLife);
+
+  const halvings = seconds / halfLife;
+  if (halvings >= 32n) return 0n;
+  const halved = score >> halvings;
+
+  const lostBps = ((seconds % halfLife) * (MAX_BPS / 2n)) / halfLife;
+  return halved - (halved * lostBps) / MAX_BPS;
+}
+
+// The score after `amount` of an activity recorded `elapsed` seconds after the
+// member's previous one. euint32 arithmetic wraps, and so does this.
+export function scoreAfterActivity(
+  score: bigint,
+  elapsed: number,
+  model: DecayModel,
+  weight: number,
+  amount = 1n
+): bigint {
+  const credit = (amount * BigInt(weight)) % UINT32_MODULUS;
+  return (decayScore(score, elapsed, model) + credit) % UINT32_MODULUS;
+}
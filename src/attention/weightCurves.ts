@@ -0,0 +1,120 @@
+// Plaintext simulator for AttentionVote_FHE's weight curves. Each curve uses
+// the same clamping and rounding as the encrypted version, so a plot of a
+// candidate curve shows exactly the weights the contract would assign.
+
+// Same order as the contract's WeightCurve enum
+export enum CurveKind {
+  Sqrt,
+  Linear,
+  CappedLinear,
+  Log2,
+  Piecewise,
+}
+
+export interface CurveSegment {
+  start: number;
+  slopeBps: number;
+}
+
+export type WeightCurve =
+  | { kind: CurveKind.Sqrt }
+  | { kind: CurveKind.Linear }
+  | { kind: CurveKind.CappedLinear; cap: number }
+  | { kind: CurveKind.Log2; scale: number }
+  | { kind: CurveKind.Piecewise; segments: CurveSegment[] };
+
+export const DEFAULT_WEIGHT_CURVE: WeightCurve = { kind: CurveKind.Sqrt };
+export const MAX_CURVE_SEGMENTS = 4;
+
+export const CURVE_NAMES: Record<CurveKind, string> = {
+  [CurveKind.Sqrt]: "Square root",
+  [CurveKind.Linear]: "Linear",
+  [CurveKind.CappedLinear]: "Capped linear",
+  [CurveKind.Log2]: "Logarithmic",
+  [CurveKind.Piecewise]: "Piecewise",
+};
+
+// Scores above 16 bits are clamped before the square root and bit length
+export const MAX_CLAMPED_SCORE = 0xffffn;
+
+const MAX_BPS = 10000n;
+const UINT32_MODULUS = 1n << 32n;
+
+const clamp16 = (score: bigint) => (score < MAX_CLAMPED_SCORE ? score : MAX_CLAMPED_SCORE);
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+function isqrt(value: bigint): bigint {
+  let root = 0n;
+  while ((root + 1n) * (root + 1n) <= value) root++;
+  return root;
+}
+
+const bitLength = (value: bigint) => (value === 0n ? 0n : BigInt(value.toString(2).length));
+
+// Mirrors the contract's setWeightCurve / setPiecewiseCurve checks
+export function validateCurve(curve: WeightCurve): void {
+  if (curve.kind === CurveKind.CappedLinear && !(Number.isInteger(curve.cap) && curve.cap > 0)) {
+    throw new Error("Capped linear curve needs a positive cap");
+  }
+  if (curve.kind === CurveKind.Log2 && !(Number.isInteger(curve.scale) && curve.scale > 0)) {
+    throw new Error("Logarithmic curve needs a positive scale");
+  }
+  if (curve.kind === CurveKind.Piecewise) {
+    const { segments } = curve;
+    if (segments.length === 0 || segments.length > MAX_CURVE_SEGMENTS) {
+      throw new Error(`Piecewise curve needs 1 to ${MAX_CURVE_SEGMENTS} segments`);
+    }
+    if (segments[0].start !== 0) {
+      throw new Error("The first segment must start at 0");
+    }
+    segments.forEach((segment, i) => {
+      if (i > 0 && segment.start <= segments[i - 1].start) {
+        throw new Error("Segment starts must increase");
+      }
+      if (!Number.isInteger(segment.slopeBps) || segment.slopeBps < 0 || segment.slopeBps > 0xffff) {
+        throw new Error(`Slope must be a uint16, got ${segment.slopeBps}`);
+      }
+    });
+  }
+}
+
+export function votingWeight(score: bigint, curve: WeightCurve = DEFAULT_WEIGHT_CURVE): bigint {
+  switch (curve.kind) {
+    case CurveKind.Sqrt:
+      return isqrt(clamp16(score));
+    case CurveKind.Linear:
+      return score;
+    case CurveKind.CappedLinear:
+      return min(score, BigInt(curve.cap));
+    case CurveKind.Log2:
+      // euint32 multiplication wraps
+      return (bitLength(clamp16(score)) * BigInt(curve.scale)) % UINT32_MODULUS;
+    case CurveKind.Piecewise: {
+      let total = 0n;
+      curve.segments.forEach((segment, i) => {
+        const start = BigInt(segment.start);
+        let inside = score > start ? score - start : 0n;
+        const next = curve.segments[i + 1];
+        if (next) inside = min(inside, BigInt(next.start) - start);
+        total += (inside * BigInt(segment.slopeBps)) / MAX_BPS;
+      });
+      return total % UINT32_MODULUS;
+    }
+  }
+}
+
+export interface CurvePoint {
+  score: number;
+  weight: number;
+}
+
+// Evenly spaced samples from 0 to maxScore inclusive, for plotting
+export function sampleCurve(curve: WeightCurve, maxScore: number, points = 64): CurvePoint[] {
+  const step = Math.max(1, Math.floor(maxScore / (points - 1)));
+  const samples: CurvePoint[] = [];
+  for (let score = 0; score < maxScore; score += step) {
+    samples.push({ score, weight: Number(votingWeight(BigInt(score), curve)) });
+  }
+  samples.push({ score: maxScore, weight: Number(votingWeight(BigInt(maxScore), curve)) });
+  return samples;
+}
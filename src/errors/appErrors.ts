@@ -0,0 +1,226 @@
+// Every failure the app shows falls into one of a few categories, each with a
+// message saying what went wrong and a recovery saying what the user can do
+// about it. Errors from wallets, ethers, the RPC pool and the relayer come in
+// many shapes; classifyError maps them onto these categories and decodes
+// contract reverts, including custom errors, from the ABIs it is given.
+
+import { ethers } from "ethers";
+
+export type AppErrorKind =
+  | "userRejected"
+  | "wrongNetwork"
+  | "walletNotConnected"
+  | "insufficientFunds"
+  | "revert"
+  | "rpcUnavailable"
+  | "oracleTimeout"
+  | "encryptionFailed"
+  | "unknown";
+
+export class AppError extends Error {
+  constructor(
+    readonly kind: AppErrorKind,
+    message: string,
+    // What the user can do next, phrased as an instruction
+    readonly recovery: string,
+    // The decoded revert reason or custom error, for reverts
+    readonly reason: string | null = null,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "AppError";
+  }
+}
+
+export interface ErrorContext {
+  // ABIs to decode custom errors with; Error(string) and Panic need none
+  interfaces?: ethers.Interface[];
+  // The network the app is on, for messages that name it
+  network?: { name: string; currency: string };
+}
+
+// Recoveries for the contract's revert reasons and custom errors. Reasons not
+// listed here get a generic recovery.
+export const REVERT_RECOVERIES: Record<string, string> = {
+  "Not a member": "Join the DAO first.",
+  "Already member": "You are already a member. Reload to see your membership.",
+  "Already voted": "Change your existing vote instead of casting a new one.",
+  "Not voted": "Cast a vote before changing it.",
+  "Voting ended": "Voting on this proposal has closed. Request the tally to see the result.",
+  "Voting ongoing": "Wait until voting ends, then try again.",
+  "Not admin": "Only the DAO admin can do this. Switch to the admin account.",
+  "Not reporter": "Only registered activity reporters can submit attestations.",
+  "Wrong proof id": "Ask the credential issuer to request the proof under the id shown in the join wizard.",
+  "Credential not verified": "Wait for the issuer's proof to be verified, then check again in the join wizard.",
+  "Self delegation": "Choose another member as your delegate.",
+  "Not delegated": "You have no delegation to revoke.",
+  "Timelock active": "Wait until the timelock runs out, then execute the proposal.",
+  "Outcome pending": "Request the outcome decryption and wait for the oracle to reveal it.",
+  "Proposal failed": "The proposal did not pass, so it cannot be executed.",
+  "Already executed": "The proposal has already been executed. Reload to see it.",
+  "Proposal executed": "The proposal has already been executed. Reload to see it.",
+  "Tally revealed": "The tally is already public. Reload to see it.",
+  "Outcome revealed": "The outcome is already public. Reload to see it.",
+  "Action failed": "One of the proposal's actions reverted. Check its target and calldata.",
+  InvalidKMSSignatures: "The decryption oracle's answer was rejected. Request the decryption again.",
+  NoHandleFoundForRequestID: "The decryption request was not found. Request the decryption again.",
+};
+
+const GENERIC_REVERT_RECOVERY = "Check that the action is allowed in the proposal's current state, then try again.";
+
+const ERROR_STRING = new ethers.Interface(["error Error(string)", "error Panic(uint256)"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+// Wallets nest the original JSON-RPC error in different places
+function nestedErrors(error: unknown): Record<string, unknown>[] {
+  const found: Record<string, unknown>[] = [];
+  let current: unknown = error;
+  for (let depth = 0; isRecord(current) && depth < 5; depth++) {
+    found.push(current);
+    current = (isRecord(current.info) ? current.info.error : undefined) ?? current.error ?? current.cause;
+  }
+  return found;
+}
+
+const messagesOf = (errors: Record<string, unknown>[]) =>
+  errors.map((e) => [e.shortMessage, e.message].filter((m) => typeof m === "string").join(" ")).join(" ");
+
+function revertData(errors: Record<string, unknown>[]): string | null {
+  for (const e of errors) {
+    for (const data of [e.data, isRecord(e.data) ? e.data.data : undefined]) {
+      if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) {
+        return data;
+      }
+    }
+  }
+  return null;
+}
+
+function describeRevert(name: string, args: readonly unknown[]): string {
+  if (name === "Error") {
+    return String(args[0]);
+  }
+  if (name === "Panic" && typeof args[0] === "bigint") {
+    return `Panic(0x${args[0].toString(16)})`;
+  }
+  return args.length > 0 ? `${name}(${args.map(String).join(", ")})` : name;
+}
+
+// The revert reason or custom error name, or null if the error carries none
+export function decodeRevert(error: unknown, interfaces: ethers.Interface[] = []): string | null {
+  const errors = nestedErrors(error);
+  for (const e of errors) {
+    if (isRecord(e.revert) && typeof e.revert.name === "string") {
+      return describeRevert(e.revert.name, Array.isArray(e.revert.args) ? e.revert.args : []);
+    }
+  }
+
+  const data = revertData(errors);
+  if (data) {
+    for (const iface of [ERROR_STRING, ...interfaces]) {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return describeRevert(parsed.name, parsed.args);
+      }
+    }
+    return `unknown error ${data.slice(0, 10)}`;
+  }
+
+  const match = messagesOf(errors).match(/reverted with reason string '([^']*)'|execution reverted: ([^"\n(]+)/);
+  const reason = match?.[1] ?? match?.[2];
+  return reason ? reason.trim() : null;
+}
+
+const hasCode = (errors: Record<string, unknown>[], ...codes: (string | number)[]) =>
+  errors.some((e) => codes.some((code) => code === e.code));
+
+export function classifyError(error: unknown, context: ErrorContext = {}): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const errors = nestedErrors(error);
+  const text = messagesOf(errors);
+  const networkName = context.network?.name ?? "the app's network";
+  const currency = context.network?.currency ?? "ETH";
+  const options = { cause: error };
+
+  if (hasCode(errors, "ACTION_REJECTED", 4001) || /user (rejected|denied)/i.test(text)) {
+    return new AppError(
+      "userRejected",
+      "You rejected the request in your wallet",
+      "Try again and confirm it in your wallet.",
+      null,
+      options,
+    );
+  }
+  if (hasCode(errors, "INSUFFICIENT_FUNDS") || /insufficient funds|doesn't have enough funds/i.test(text)) {
+    return new AppError(
+      "insufficientFunds",
+      `Your account does not have enough ${currency} to pay for this transaction`,
+      `Add ${currency} to your account (from a faucet on a testnet) and try again.`,
+      null,
+      options,
+    );
+  }
+  if (hasCode(errors, 4902) || /network changed|unrecognized chain/i.test(text)) {
+    return new AppError(
+      "wrongNetwork",
+      "Your wallet is not on the network the app is using",
+      `Switch your wallet to ${networkName}.`,
+      null,
+      options,
+    );
+  }
+
+  const reason = decodeRevert(error, context.interfaces);
+  if (reason !== null || hasCode(errors, "CALL_EXCEPTION")) {
+    return new AppError(
+      "revert",
+      reason ? `The contract rejected it: ${reason}` : "The contract rejected it without a reason",
+      (reason && REVERT_RECOVERIES[reason.replace(/\(.*$/, "")]) || GENERIC_REVERT_RECOVERY,
+      reason,
+      options,
+    );
+  }
+
+  if (
+    hasCode(errors, "NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT") ||
+    errors.some((e) => e.name === "TimeoutError") ||
+    /RPC endpoints? failed|failed to fetch|fetch failed|ECONNREFUSED|timed out/i.test(text)
+  ) {
+    return new AppError(
+      "rpcUnavailable",
+      `No RPC endpoint for ${networkName} answered`,
+      "Check your connection and retry. The RPC Endpoints panel shows which endpoints are failing.",
+      null,
+      options,
+    );
+  }
+
+  const message = errors.find((e) => typeof e.shortMessage === "string")?.shortMessage ?? errors[0]?.message;
+  return new AppError(
+    "unknown",
+    typeof message === "string" && message ? message : String(error),
+    "Try again. If it keeps failing, reload the page.",
+    null,
+    options,
+  );
+}
+
+export const oracleTimeoutError = (minutes: number) =>
+  new AppError(
+    "oracleTimeout",
+    `The decryption oracle has not answered after ${minutes} minutes`,
+    "Request the decryption again. The oracle may be congested; a new request is answered on its own.",
+  );
+
+// Encryption and user decryption both go through the Zama relayer
+export const encryptionError = (operation: string, cause: unknown) =>
+  new AppError(
+    "encryptionFailed",
+    `${operation} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+    "The FHE relayer may be unreachable. Wait a minute and try again, or switch to a network that has a relayer.",
+    null,
+    { cause },
+  );
@@ -0,0 +1,165 @@
+// Proposals carry the calls the DAO makes when they are executed. They are
+// stored on-chain as raw (target, value, calldata) triples, so anything that
+// shows them to voters decodes the calldata against the ABIs it knows.
+
+import { ethers } from "ethers";
+import type { Fragment, FunctionFragment, InterfaceAbi, ParamType } from "ethers";
+
+export interface ProposalAction {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export interface KnownAbi {
+  name: string;
+  abi: InterfaceAbi;
+  // Where the contract is deployed, if known. Calls to it are decoded with this ABI only.
+  address?: string | null;
+}
+
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface DecodedAction extends ProposalAction {
+  // Null unless the target is a known deployment. For other targets the
+  // signature is only guessed from the selector, which any contract can share.
+  contract: string | null;
+  // Null when no known ABI decodes the calldata; it is then shown raw
+  signature: string | null;
+  args: DecodedArgument[];
+}
+
+// Must match MAX_ACTIONS in AttentionVote_FHE.sol
+export const MAX_ACTIONS = 10;
+
+// Functions a proposal can usefully call: anything that is not a view
+export function callableFunctions(abi: InterfaceAbi): FunctionFragment[] {
+  return new ethers.Interface(abi).fragments.filter(
+    (fragment: Fragment): fragment is FunctionFragment =>
+      fragment.type === "function" && !(fragment as FunctionFragment).constant,
+  );
+}
+
+// Turns form input into an ABI value. Arrays and tuples are written as JSON,
+// everything else as plain text.
+export function parseArgument(param: ParamType, input: string): unknown {
+  const text = input.trim();
+  if (param.isArray() || param.isTuple()) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${param.name || param.type}: expected JSON for ${param.type}`);
+    }
+  }
+  if (param.baseType === "bool") {
+    if (text !== "true" && text !== "false") {
+      throw new Error(`${param.name || param.type}: expected true or false`);
+    }
+    return text === "true";
+  }
+  if (param.baseType === "address" && !ethers.isAddress(text)) {
+    throw new Error(`${param.name || param.type}: invalid address "${text}"`);
+  }
+  if (/^u?int\d*$/.test(param.baseType)) {
+    try {
+      return BigInt(text);
+    } catch {
+      throw new Error(`${param.name || param.type}: expected an integer, got "${text}"`);
+    }
+  }
+  return text;
+}
+
+export function encodeAction(
+  abi: InterfaceAbi,
+  target: string,
+  signature: string,
+  inputs: string[],
+  value = 0n,
+): ProposalAction {
+  if (!ethers.isAddress(target)) {
+    throw new Error(`Invalid target address "${target}"`);
+  }
+  const iface = new ethers.Interface(abi);
+  const fragment = iface.getFunction(signature);
+  if (!fragment) {
+    throw new Error(`Unknown function ${signature}`);
+  }
+  if (inputs.length !== fragment.inputs.length) {
+    throw new Error(`${fragment.name} takes ${fragment.inputs.length} arguments, got ${inputs.length}`);
+  }
+  const args = fragment.inputs.map((param, i) => parseArgument(param, inputs[i]));
+  return { target: ethers.getAddress(target), value, data: iface.encodeFunctionData(fragment, args) };
+}
+
+// A plain transfer, for sending ETH from the DAO's balance
+export function transferAction(target: string, value: bigint): ProposalAction {
+  if (!ethers.isAddress(target)) {
+    throw new Error(`Invalid target address "${target}"`);
+  }
+  return { target: ethers.getAddress(target), value, data: "0x" };
+}
+
+const formatValue = (value: unknown): string =>
+  typeof value === "bigint"
+    ? value.toString()
+    : Array.isArray(value)
+      ? `[${value.map(formatValue).join(", ")}]`
+      : String(value);
+
+// Null when the ABI has no function with the selector or the arguments do not decode
+function parseCall(abi: InterfaceAbi, action: ProposalAction): ethers.TransactionDescription | null {
+  try {
+    return new ethers.Interface(abi).parseTransaction({ data: action.data, value: action.value });
+  } catch {
+    return null;
+  }
+}
+
+// A call to a known deployment is decoded with that contract's ABI only. Any
+// other target gets the first ABI whose selector matches, so list the most
+// specific first, but no contract name.
+export function decodeAction(action: ProposalAction, knownAbis: KnownAbi[]): DecodedAction {
+  const raw: DecodedAction = { ...action, contract: null, signature: null, args: [] };
+  if (ethers.dataLength(action.data) < 4) {
+    return raw;
+  }
+  const deployed = knownAbis.find(
+    ({ address }) => address && ethers.getAddress(address) === ethers.getAddress(action.target),
+  );
+  for (const { name, abi } of deployed ? [deployed] : knownAbis) {
+    const parsed = parseCall(abi, action);
+    if (parsed) {
+      return {
+        ...action,
+        contract: deployed ? name : null,
+        signature: parsed.signature,
+        args: parsed.fragment.inputs.map((param, i) => ({
+          name: param.name,
+          type: param.type,
+          value: formatValue(parsed.args[i]),
+        })),
+      };
+    }
+  }
+  return raw;
+}
+
+export function describeAction(decoded: DecodedAction): string {
+  const value = decoded.value > 0n ? ` sending ${ethers.formatEther(decoded.value)} ETH` : "";
+  if (ethers.dataLength(decoded.data) === 0) {
+    return `Transfer to ${decoded.target}${value}`;
+  }
+  if (!decoded.signature) {
+    return `Call ${decoded.target} with ${decoded.data}${value}`;
+  }
+  const args = decoded.args.map((arg) => `${arg.name || arg.type}: ${arg.value}`).join(", ");
+  const call = `${decoded.signature.split("(")[0]}(${args})`;
+  return decoded.contract
+    ? `${decoded.contract}.${call} on ${decoded.target}${value}`
+    : `${call} on unverified contract ${decoded.target}${value}`;
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { ContentStore } from "./proposalMetadata";
+
+// Stores each document as <dir>/<hash>.json. Node only; used by tests and
+// scripts that prepare proposals before submitting them on-chain.
+export class FileContentStore implements ContentStore {
+  constructor(private readonly dir: string) {}
+
+  async put(hash: string, content: string): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.file(hash), content, "utf8");
+  }
+
+  async get(hash: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.file(hash), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  private file(hash: string) {
+    return path.join(this.dir, `${hash.toLowerCase()}.json`);
+  }
+}
@@ -0,0 +1,122 @@
+// Proposal documents live off-chain; the contract only stores the SHA-256 of
+// their canonical JSON form. Anything that renders a proposal should go
+// through loadProposal so the content is checked against that hash.
+
+export const PROPOSAL_DOCUMENT_VERSION = 1;
+
+export interface ProposalDocument {
+  title: string;
+  body: string;
+  options: string[];
+  links: string[];
+}
+
+export interface ContentStore {
+  put(hash: string, content: string): Promise<void>;
+  get(hash: string): Promise<string | null>;
+}
+
+export interface LoadedProposal {
+  document: ProposalDocument;
+  verified: boolean;
+}
+
+const clean = (value: string) => value.normalize("NFC").trim();
+
+// Canonical form: fixed key order, NFC-normalised and trimmed strings, empty
+// list entries dropped, no insignificant whitespace.
+export function canonicalizeProposal(doc: ProposalDocument): string {
+  const title = clean(doc.title);
+  if (!title) {
+    throw new Error("Proposal title is required");
+  }
+
+  const canonical = {
+    body: clean(doc.body),
+    links: doc.links.map(clean).filter(Boolean),
+    options: doc.options.map(clean).filter(Boolean),
+    title,
+    version: PROPOSAL_DOCUMENT_VERSION,
+  };
+  return JSON.stringify(canonical);
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `0x${hex}`;
+}
+
+export async function hashProposal(doc: ProposalDocument): Promise<string> {
+  return hashContent(canonicalizeProposal(doc));
+}
+
+export async function publishProposal(store: ContentStore, doc: ProposalDocument): Promise<string> {
+  const content = canonicalizeProposal(doc);
+  const hash = await hashContent(content);
+  await store.put(hash, content);
+  return hash;
+}
+
+// Returns null when the store has nothing under the hash. A document whose
+// content does not hash to the expected value is still returned, flagged as
+// unverified, so the UI can warn instead of silently hiding it.
+export async function loadProposal(store: ContentStore, expectedHash: string): Promise<LoadedProposal | null> {
+  const content = await store.get(expectedHash.toLowerCase());
+  if (content === null) {
+    return null;
+  }
+
+  const parsed = JSON.parse(content);
+  const document: ProposalDocument = {
+    title: String(parsed.title ?? ""),
+    body: String(parsed.body ?? ""),
+    options: Array.isArray(parsed.options) ? parsed.options.map(String) : [],
+    links: Array.isArray(parsed.links) ? parsed.links.map(String) : [],
+  };
+  const verified = (await hashContent(content)) === expectedHash.toLowerCase();
+  return { document, verified };
+}
+
+export class MemoryContentStore implements ContentStore {
+  private readonly entries = new Map<string, string>();
+
+  async put(hash: string, content: string): Promise<void> {
+    this.entries.set(hash.toLowerCase(), content);
+  }
+
+  async get(hash: string): Promise<string | null> {
+    return this.entries.get(hash.toLowerCase()) ?? null;
+  }
+}
+
+// Content-addressed HTTP store: GET/PUT {baseUrl}/{hash}.
+export class HttpContentStore implements ContentStore {
+  constructor(private readonly baseUrl: string) {}
+
+  async put(hash: string, content: string): Promise<void> {
+    const res = await fetch(this.url(hash), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: content,
+    });
+    if (!res.ok) {
+      throw new Error(`Metadata upload failed with HTTP ${res.status}`);
+    }
+  }
+
+  async get(hash: string): Promise<string | null> {
+    const res = await fetch(this.url(hash));
+    if (res.status === 404) {
+      return null;
+    }
+    if (!res.ok) {
+      throw new Error(`Metadata download failed with HTTP ${res.status}`);
+    }
+    return res.text();
+  }
+
+  private url(hash: string) {
+    return `${this.baseUrl.replace(/\/$/, "")}/${hash.toLowerCase()}`;
+  }
+}
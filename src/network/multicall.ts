@@ -0,0 +1,124 @@
+// Coalesces the contract reads made in one turn of the event loop into a
+// single Multicall3 aggregate3 call. A typed contract connected to a
+// MulticallRunner reads exactly as before; each call is answered from its
+// slot in the batch, and a failed slot is rethrown as a CALL_EXCEPTION
+// carrying the revert data, so the contract decodes the reason as if the call
+// had been made on its own.
+
+import { ethers } from "ethers";
+
+// Deployed at the same address on most chains, Sepolia included. Local nodes
+// get their own from the deploy script.
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3 = new ethers.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+export interface BatchStats {
+  // Contract reads made through the runner
+  calls: number;
+  // eth_call requests those reads cost
+  requests: number;
+}
+
+interface PendingCall {
+  target: string;
+  callData: string;
+  resolve: (returnData: string) => void;
+  reject: (error: unknown) => void;
+}
+
+export class MulticallRunner implements ethers.ContractRunner {
+  readonly stats: BatchStats = { calls: 0, requests: 0 };
+  // Calls are only batched with others at the same block tag
+  private readonly queues = new Map<string, { blockTag: ethers.BlockTag; calls: PendingCall[] }>();
+  private scheduled = false;
+
+  constructor(
+    readonly provider: ethers.Provider,
+    readonly multicallAddress: string,
+    private readonly maxBatchSize = 50,
+  ) {}
+
+  call(tx: ethers.TransactionRequest): Promise<string> {
+    // Inside the batch msg.sender is the multicall contract, and it does not forward value
+    if (tx.from || tx.value || typeof tx.to !== "string" || !tx.data) {
+      this.stats.calls++;
+      this.stats.requests++;
+      return this.provider.call(tx);
+    }
+    const blockTag = tx.blockTag ?? "latest";
+    const key = String(blockTag);
+    const queue = this.queues.get(key) ?? { blockTag, calls: [] };
+    this.queues.set(key, queue);
+    return new Promise((resolve, reject) => {
+      queue.calls.push({ target: tx.to as string, callData: tx.data as string, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  private schedule() {
+    if (this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    setTimeout(() => this.flush(), 0);
+  }
+
+  private flush() {
+    this.scheduled = false;
+    const queues = [...this.queues.values()];
+    this.queues.clear();
+    for (const { blockTag, calls } of queues) {
+      for (let i = 0; i < calls.length; i += this.maxBatchSize) {
+        this.execute(blockTag, calls.slice(i, i + this.maxBatchSize));
+      }
+    }
+  }
+
+  private async execute(blockTag: ethers.BlockTag, calls: PendingCall[]) {
+    this.stats.calls += calls.length;
+    this.stats.requests++;
+    if (calls.length === 1) {
+      const [{ target, callData, resolve, reject }] = calls;
+      this.provider.call({ to: target, data: callData, blockTag }).then(resolve, reject);
+      return;
+    }
+
+    try {
+      const data = await this.provider.call({
+        to: this.multicallAddress,
+        data: MULTICALL3.encodeFunctionData("aggregate3", [
+          calls.map(({ target, callData }) => ({ target, allowFailure: true, callData })),
+        ]),
+        blockTag,
+      });
+      if (data === "0x") {
+        throw new Error(`No Multicall3 contract at ${this.multicallAddress}`);
+      }
+      const [results] = MULTICALL3.decodeFunctionResult("aggregate3", data);
+      calls.forEach((call, i) => {
+        const [success, returnData] = results[i];
+        if (success) {
+          call.resolve(returnData);
+        } else {
+          call.reject(revertError(call, returnData));
+        }
+      });
+    } catch (e) {
+      calls.forEach((call) => call.reject(e));
+    }
+  }
+}
+
+function revertError({ target, callData }: PendingCall, data: string) {
+  return ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "call",
+    data,
+    reason: null,
+    transaction: { to: target, data: callData },
+    invocation: null,
+    revert: null,
+  });
+}
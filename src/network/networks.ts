@@ -0,0 +1,200 @@
+// The networks the app can talk to, keyed by a short name ("sepolia",
+// "localhost"). The registry is read from the frontend's config.json, with
+// RPC lists and addresses overridable from the environment so API keys stay
+// out of the repository. The app uses the entry matching the wallet's chain.
+
+import { ethers } from "ethers";
+
+// Must match the hardhat network's chainId in hardhat.config.ts
+export const LOCAL_CHAIN_ID = 31337;
+
+export interface NetworkContracts {
+  // Null until the DAO is deployed on this network
+  attentionVote: string | null;
+  // Multicall3 the frontend batches reads through; null sends each read on its own
+  multicall3: string | null;
+}
+
+export interface NetworkConfig {
+  key: string;
+  name: string;
+  chainId: number;
+  // Tried in order for reads; the wallet's own RPC is used for transactions
+  rpcUrls: string[];
+  // Null for networks without a block explorer, such as a local node
+  explorerUrl: string | null;
+  currency: string;
+  contracts: NetworkContracts;
+  // The event indexer starts replaying logs from this block. Null while it is
+  // unknown, in which case history is not indexed rather than scanned from genesis.
+  deployBlock: number | null;
+  // The Zama relayer encryption and user decryption go through, null where none is deployed
+  relayer: "sepolia" | null;
+}
+
+export interface NetworkRegistry {
+  defaultNetwork: string;
+  networks: Record<string, NetworkConfig>;
+}
+
+const RELAYERS = ["sepolia"] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isUrl = (value: string) => /^https?:\/\/[^\s/]+/.test(value);
+
+const isBlockNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+function parseAddress(at: string, value: unknown): string | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string" || !ethers.isAddress(value)) {
+    throw new Error(`${at}: invalid address ${JSON.stringify(value)}`);
+  }
+  return ethers.getAddress(value);
+}
+
+function parseRpcUrls(at: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${at}: expected at least one RPC URL`);
+  }
+  for (const url of value) {
+    if (typeof url !== "string" || !isUrl(url)) {
+      throw new Error(`${at}: invalid RPC URL ${JSON.stringify(url)}`);
+    }
+  }
+  return value;
+}
+
+function parseNetwork(key: string, raw: unknown): NetworkConfig {
+  const at = `networks.${key}`;
+  if (!isRecord(raw)) {
+    throw new Error(`${at}: expected an object`);
+  }
+  const { name, chainId, rpcUrls, explorerUrl, currency, contracts, deployBlock, relayer } = raw;
+
+  if (!Number.isInteger(chainId) || (chainId as number) <= 0) {
+    throw new Error(`${at}.chainId: expected a positive integer`);
+  }
+  if (explorerUrl !== undefined && explorerUrl !== null && (typeof explorerUrl !== "string" || !isUrl(explorerUrl))) {
+    throw new Error(`${at}.explorerUrl: invalid URL ${JSON.stringify(explorerUrl)}`);
+  }
+  if (deployBlock !== undefined && deployBlock !== null && !isBlockNumber(deployBlock)) {
+    throw new Error(`${at}.deployBlock: expected a block number`);
+  }
+  if (relayer !== undefined && relayer !== null && !RELAYERS.includes(relayer as (typeof RELAYERS)[number])) {
+    throw new Error(`${at}.relayer: expected one of ${RELAYERS.join(", ")} or null`);
+  }
+  if (contracts !== undefined && !isRecord(contracts)) {
+    throw new Error(`${at}.contracts: expected an object`);
+  }
+
+  return {
+    key,
+    name: typeof name === "string" && name ? name : key,
+    chainId: chainId as number,
+    rpcUrls: parseRpcUrls(`${at}.rpcUrls`, rpcUrls),
+    explorerUrl: explorerUrl ? (explorerUrl as string).replace(/\/+$/, "") : null,
+    currency: typeof currency === "string" && currency ? currency : "ETH",
+    contracts: {
+      attentionVote: parseAddress(`${at}.contracts.attentionVote`, contracts?.attentionVote),
+      multicall3: parseAddress(`${at}.contracts.multicall3`, contracts?.multicall3),
+    },
+    deployBlock: (deployBlock as number | null | undefined) ?? null,
+    relayer: (relayer as NetworkConfig["relayer"] | undefined) ?? null,
+  };
+}
+
+// Validates the `defaultNetwork` and `networks` fields of a config file.
+// Other fields (metadata gateway, deployer) are left to their own readers.
+export function parseNetworkRegistry(raw: unknown): NetworkRegistry {
+  if (!isRecord(raw) || !isRecord(raw.networks)) {
+    throw new Error("networks: expected an object keyed by network name");
+  }
+  const networks: Record<string, NetworkConfig> = {};
+  const chainIds = new Map<number, string>();
+  for (const [key, entry] of Object.entries(raw.networks)) {
+    const network = parseNetwork(key, entry);
+    const clash = chainIds.get(network.chainId);
+    if (clash) {
+      throw new Error(`networks.${key}.chainId: ${network.chainId} is already used by ${clash}`);
+    }
+    chainIds.set(network.chainId, key);
+    networks[key] = network;
+  }
+
+  const defaultNetwork = raw.defaultNetwork ?? Object.keys(networks)[0];
+  if (typeof defaultNetwork !== "string" || !networks[defaultNetwork]) {
+    throw new Error(`defaultNetwork: unknown network ${JSON.stringify(defaultNetwork)}`);
+  }
+  return { defaultNetwork, networks };
+}
+
+// "sepolia" -> "SEPOLIA", "base-sepolia" -> "BASE_SEPOLIA"
+export const envKey = (networkKey: string) => networkKey.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+
+// Applies environment overrides on top of the config file:
+//   VITE_NETWORK                  default network key
+//   VITE_<KEY>_RPC_URLS           comma-separated RPC list, e.g. with API keys
+//   VITE_<KEY>_ATTENTION_VOTE     DAO address
+//   VITE_<KEY>_MULTICALL3         Multicall3 address
+//   VITE_<KEY>_DEPLOY_BLOCK       block the DAO was deployed in
+export function applyNetworkEnv(registry: NetworkRegistry, env: Record<string, string | undefined>): NetworkRegistry {
+  const networks: Record<string, NetworkConfig> = {};
+  for (const [key, network] of Object.entries(registry.networks)) {
+    const prefix = `VITE_${envKey(key)}`;
+    const rpcUrls = env[`${prefix}_RPC_URLS`]
+      ?.split(",")
+      .map((url) => url.trim())
+      .filter(Boolean);
+    const attentionVote = env[`${prefix}_ATTENTION_VOTE`];
+    const multicall3 = env[`${prefix}_MULTICALL3`];
+    const deployBlock = env[`${prefix}_DEPLOY_BLOCK`];
+    if (deployBlock && !isBlockNumber(Number(deployBlock))) {
+      throw new Error(`${prefix}_DEPLOY_BLOCK: expected a block number`);
+    }
+    networks[key] = {
+      ...network,
+      rpcUrls: rpcUrls?.length ? parseRpcUrls(`${prefix}_RPC_URLS`, rpcUrls) : network.rpcUrls,
+      contracts: {
+        ...network.contracts,
+        attentionVote: attentionVote
+          ? parseAddress(`${prefix}_ATTENTION_VOTE`, attentionVote)
+          : network.contracts.attentionVote,
+        multicall3: multicall3 ? parseAddress(`${prefix}_MULTICALL3`, multicall3) : network.contracts.multicall3,
+      },
+      deployBlock: deployBlock ? Number(deployBlock) : network.deployBlock,
+    };
+  }
+
+  const defaultNetwork = env.VITE_NETWORK || registry.defaultNetwork;
+  if (!networks[defaultNetwork]) {
+    throw new Error(`VITE_NETWORK: unknown network ${JSON.stringify(defaultNetwork)}`);
+  }
+  return { defaultNetwork, networks };
+}
+
+export const defaultNetworkOf = (registry: NetworkRegistry): NetworkConfig =>
+  registry.networks[registry.defaultNetwork];
+
+export function networkForChain(registry: NetworkRegistry, chainId: number): NetworkConfig | null {
+  return Object.values(registry.networks).find((network) => network.chainId === chainId) ?? null;
+}
+
+// Null when the network has no explorer, so callers can show plain text instead
+export function explorerLink(network: NetworkConfig, kind: "tx" | "address" | "block", id: string | number) {
+  return network.explorerUrl ? `${network.explorerUrl}/${kind}/${id}` : null;
+}
+
+// Parameters for wallet_addEthereumChain, for wallets that do not know the network yet
+export function addChainParameters(network: NetworkConfig) {
+  return {
+    chainId: ethers.toQuantity(network.chainId),
+    chainName: network.name,
+    nativeCurrency: { name: network.currency, symbol: network.currency, decimals: 18 },
+    rpcUrls: network.rpcUrls,
+    blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+  };
+}
@@ -0,0 +1,49 @@
+// An ethers provider whose JSON-RPC requests go through a ProviderPool, so the
+// frontend's read-only contracts fail over between endpoints transparently.
+
+import { ethers } from "ethers";
+
+import { ProviderPool } from "./providerPool";
+
+// Some public endpoints answer a rate-limited request with a JSON-RPC error
+// instead of an HTTP status; that is the endpoint's problem, not the call's
+const RATE_LIMITED = -32005;
+
+// Requests made in the same tick go out as one JSON-RPC batch. Public
+// endpoints cap batch sizes, so batches are kept small.
+const RPC_BATCH_MAX_COUNT = 10;
+
+// A read-only provider that hands every JSON-RPC request to the pool. Each
+// endpoint's own provider only does the HTTP transport, so a revert comes
+// back as an ordinary answer and only transport failures fail over.
+//
+// Subscriptions poll eth_blockNumber and eth_getLogs instead of installing
+// filters: a filter id only exists on the endpoint that created it, and the
+// pool may send the next eth_getFilterChanges anywhere.
+export class PooledRpcProvider extends ethers.JsonRpcApiProvider {
+  constructor(
+    readonly pool: ProviderPool<ethers.JsonRpcProvider>,
+    network: ethers.Network,
+    // How often subscriptions poll for new blocks; ethers defaults to 4s
+    pollingInterval?: number,
+  ) {
+    super(network, {
+      staticNetwork: network,
+      batchStallTime: 0,
+      batchMaxCount: RPC_BATCH_MAX_COUNT,
+      polling: true,
+      pollingInterval,
+    });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    return this.pool.read(async (endpoint) => {
+      const results = await endpoint._send(payload);
+      const limited = results.find((result: any) => result.error?.code === RATE_LIMITED) as any;
+      if (limited) {
+        throw new Error(`Rate limited: ${limited.error.message}`);
+      }
+      return results;
+    });
+  }
+}
@@ -0,0 +1,284 @@
+// Reads go to whichever RPC endpoint is currently healthiest. Every request
+// updates that endpoint's latency and error record, so a slow or failing
+// endpoint drops down the ranking mid-session and recovers once it answers
+// again. The pool is generic over the provider type so it can be tested
+// without a network.
+
+export interface RetryPolicy {
+  // Further passes over the endpoints after the first one fails everywhere
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+export interface ProviderPoolOptions {
+  retry: RetryPolicy;
+  // A request slower than this counts as a failure and moves on to the next endpoint
+  timeoutMs: number;
+  // Consecutive failures before an endpoint is skipped for cooldownMs
+  failureThreshold: number;
+  cooldownMs: number;
+  // Weight of the newest sample in the latency moving average
+  latencyAlpha: number;
+  // Latency assumed for an endpoint that has not answered yet
+  unknownLatencyMs: number;
+  // Outcomes kept for the error rate
+  window: number;
+  // Errors that are the request's fault, not the endpoint's, are passed
+  // straight to the caller without failing over
+  isEndpointError: (error: unknown) => boolean;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_POOL_OPTIONS: ProviderPoolOptions = {
+  retry: DEFAULT_RETRY_POLICY,
+  timeoutMs: 10000,
+  failureThreshold: 3,
+  cooldownMs: 60000,
+  latencyAlpha: 0.3,
+  unknownLatencyMs: 500,
+  window: 20,
+  isEndpointError: () => true,
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export type EndpointStatus = "healthy" | "degraded" | "cooling";
+
+export interface EndpointHealth {
+  url: string;
+  status: EndpointStatus;
+  // Moving average over successful requests, null until one succeeds
+  latencyMs: number | null;
+  // Share of failures among the last `window` requests
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  coolingUntil: number | null;
+}
+
+export type PoolListener = (health: EndpointHealth[]) => void;
+
+// One endpoint's answer to a request asked of several
+export type EndpointAnswer<T> = { url: string; ok: true; value: T } | { url: string; ok: false; error: unknown };
+
+type Attempt<T> = { ok: true; value: T } | { ok: false; error: unknown; endpointError: boolean };
+
+interface EndpointState<P> {
+  url: string;
+  provider: P;
+  order: number;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  coolingUntil: number | null;
+}
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms} ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Exponential backoff between passes, capped at maxDelayMs
+export const retryDelay = (policy: RetryPolicy, attempt: number) =>
+  Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+
+export async function retry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  sleep = DEFAULT_POOL_OPTIONS.sleep,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= policy.retries) {
+        throw e;
+      }
+      await sleep(retryDelay(policy, attempt));
+    }
+  }
+}
+
+const errorRate = (outcomes: boolean[]) =>
+  outcomes.length === 0 ? 0 : outcomes.filter((ok) => !ok).length / outcomes.length;
+
+export const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : typeof error === "string" ? error : JSON.stringify(error);
+
+export class ProviderPool<P> {
+  private readonly endpoints: EndpointState<P>[];
+  private readonly options: ProviderPoolOptions;
+  private readonly listeners = new Set<PoolListener>();
+
+  constructor(endpoints: { url: string; provider: P }[], options: Partial<ProviderPoolOptions> = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("A provider pool needs at least one endpoint");
+    }
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+    this.endpoints = endpoints.map(({ url, provider }, order) => ({
+      url,
+      provider,
+      order,
+      latencyMs: null,
+      outcomes: [],
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastErrorAt: null,
+      coolingUntil: null,
+    }));
+  }
+
+  // Lower is better. Errors inflate the expected latency, since a failed
+  // request costs a round trip before the next endpoint is tried.
+  private score(endpoint: EndpointState<P>): number {
+    const latency = endpoint.latencyMs ?? this.options.unknownLatencyMs;
+    return latency * (1 + 4 * errorRate(endpoint.outcomes));
+  }
+
+  private isCooling(endpoint: EndpointState<P>) {
+    return endpoint.coolingUntil !== null && endpoint.coolingUntil > this.options.now();
+  }
+
+  // Cooling endpoints go last rather than being dropped, so a pool whose
+  // endpoints are all cooling still tries them instead of failing outright
+  private ranked(): EndpointState<P>[] {
+    return [...this.endpoints].sort(
+      (a, b) =>
+        Number(this.isCooling(a)) - Number(this.isCooling(b)) || this.score(a) - this.score(b) || a.order - b.order,
+    );
+  }
+
+  private record(endpoint: EndpointState<P>, ok: boolean, latencyMs: number, error?: unknown) {
+    endpoint.requests++;
+    endpoint.outcomes = [...endpoint.outcomes, ok].slice(-this.options.window);
+    if (ok) {
+      const alpha = this.options.latencyAlpha;
+      endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : alpha * latencyMs + (1 - alpha) * endpoint.latencyMs;
+      endpoint.consecutiveFailures = 0;
+      endpoint.coolingUntil = null;
+    } else {
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      endpoint.lastError = describeError(error);
+      endpoint.lastErrorAt = this.options.now();
+      if (endpoint.consecutiveFailures >= this.options.failureThreshold) {
+        endpoint.coolingUntil = this.options.now() + this.options.cooldownMs;
+      }
+    }
+    this.notify();
+  }
+
+  private async attempt<T>(endpoint: EndpointState<P>, request: (provider: P) => Promise<T>): Promise<Attempt<T>> {
+    const started = this.options.now();
+    try {
+      const value = await withTimeout(request(endpoint.provider), this.options.timeoutMs);
+      this.record(endpoint, true, this.options.now() - started);
+      return { ok: true, value };
+    } catch (e) {
+      const endpointError = e instanceof TimeoutError || this.options.isEndpointError(e);
+      // A request error still means the endpoint answered
+      this.record(endpoint, !endpointError, this.options.now() - started, e);
+      return { ok: false, error: e, endpointError };
+    }
+  }
+
+  // Runs `request` against the healthiest endpoint, failing over to the next
+  // on an endpoint error. When every endpoint fails, the whole pass is retried
+  // after the retry policy's backoff.
+  async read<T>(request: (provider: P) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= this.options.retry.retries; attempt++) {
+      if (attempt > 0) {
+        await this.options.sleep(retryDelay(this.options.retry, attempt - 1));
+      }
+      for (const endpoint of this.ranked()) {
+        const outcome = await this.attempt(endpoint, request);
+        if (outcome.ok) {
+          return outcome.value;
+        }
+        if (!outcome.endpointError) {
+          throw outcome.error;
+        }
+        lastError = outcome.error;
+      }
+    }
+    throw new Error(`All ${this.endpoints.length} RPC endpoints failed: ${describeError(lastError)}`, {
+      cause: lastError,
+    });
+  }
+
+  // Runs `request` on the `count` healthiest endpoints at once, without
+  // failover or retries, for callers that compare the answers
+  async readEach<T>(count: number, request: (provider: P) => Promise<T>): Promise<EndpointAnswer<T>[]> {
+    return Promise.all(
+      this.ranked()
+        .slice(0, count)
+        .map(async (endpoint) => {
+          const outcome = await this.attempt(endpoint, request);
+          return outcome.ok
+            ? { url: endpoint.url, ok: true as const, value: outcome.value }
+            : { url: endpoint.url, ok: false as const, error: outcome.error };
+        }),
+    );
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  // Best first, in the order reads will try them
+  health(): EndpointHealth[] {
+    return this.ranked().map((endpoint) => {
+      const rate = errorRate(endpoint.outcomes);
+      const cooling = this.isCooling(endpoint);
+      return {
+        url: endpoint.url,
+        status: cooling ? "cooling" : rate > 0 || endpoint.consecutiveFailures > 0 ? "degraded" : "healthy",
+        latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+        errorRate: rate,
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError,
+        lastErrorAt: endpoint.lastErrorAt,
+        coolingUntil: cooling ? endpoint.coolingUntil : null,
+      };
+    });
+  }
+
+  subscribe(listener: PoolListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    if (this.listeners.size === 0) {
+      return;
+    }
+    const health = this.health();
+    this.listeners.forEach((listener) => listener(health));
+  }
+}
@@ -0,0 +1,71 @@
+// Reads that decide what the app shows as a governance outcome can be asked of
+// several RPC endpoints at the same block and compared, so one faulty or
+// out-of-sync endpoint cannot change it unnoticed. Disagreement does not fail
+// the read: the most common answer is used and a warning says who dissented.
+
+import { describeError, EndpointAnswer } from "./providerPool";
+
+export interface QuorumResult<T> {
+  value: T;
+  blockTag: number;
+  // Endpoints that returned `value`
+  agreeing: string[];
+  // Endpoints that returned something else or failed, with what they said
+  dissenting: { url: string; answer: string }[];
+  warning: string | null;
+}
+
+export interface CompareOptions {
+  // What was read, for the warning, e.g. "the status of proposal 3"
+  what: string;
+  blockTag: number;
+  // How endpoints are named in the warning
+  label?: (url: string) => string;
+}
+
+// Answers are compared by value; contract results carry bigints
+export const canonicalAnswer = (value: unknown) =>
+  JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+
+// Picks the answer most endpoints gave, preferring the healthiest endpoint's on
+// a tie. Throws the first error when no endpoint answered at all.
+export function compareAnswers<T>(answers: EndpointAnswer<T>[], options: CompareOptions): QuorumResult<T> {
+  const label = options.label ?? ((url: string) => url);
+  const groups = new Map<string, { value: T; urls: string[] }>();
+  for (const answer of answers) {
+    if (answer.ok) {
+      const key = canonicalAnswer(answer.value);
+      const group = groups.get(key) ?? { value: answer.value, urls: [] };
+      group.urls.push(answer.url);
+      groups.set(key, group);
+    }
+  }
+  if (groups.size === 0) {
+    const failed = answers.find((answer) => !answer.ok);
+    throw failed && !failed.ok ? failed.error : new Error(`No RPC endpoint was asked for ${options.what}`);
+  }
+
+  // Map iteration follows insertion order, which is the endpoints' health order
+  const [chosenKey, chosen] = [...groups.entries()].reduce((best, entry) =>
+    entry[1].urls.length > best[1].urls.length ? entry : best,
+  );
+  const dissenting = answers
+    .filter((answer) => !chosen.urls.includes(answer.url))
+    .map((answer) => ({
+      url: answer.url,
+      answer: answer.ok ? canonicalAnswer(answer.value) : `error: ${describeError(answer.error)}`,
+    }));
+
+  const at = `${options.what} at block ${options.blockTag}`;
+  let warning: string | null = null;
+  if (groups.size > 1) {
+    const versions = [...groups.entries()].map(
+      ([key, group]) => `${group.urls.map(label).join(", ")} returned ${key}`,
+    );
+    warning = `RPC endpoints disagree on ${at}: ${versions.join("; ")}. Showing ${chosenKey}.`;
+  } else if (answers.length > 1 && chosen.urls.length < 2) {
+    warning = `Only ${label(chosen.urls[0])} answered ${at}, so it could not be cross-checked.`;
+  }
+
+  return { value: chosen.value, blockTag: options.blockTag, agreeing: chosen.urls, dissenting, warning };
+}
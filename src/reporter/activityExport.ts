@@ -0,0 +1,84 @@
+// Activity exports are what a reporter (forum bot, call tracker, review tool)
+// dumps locally before attesting it on-chain. Both formats carry the same
+// fields: a source-unique record id, the member's address, the registered
+// activity type name and a whole-number amount.
+
+export interface ActivityRecord {
+  id: string;
+  member: string;
+  activity: string;
+  amount: number;
+}
+
+export type ExportFormat = "csv" | "json";
+
+const CSV_COLUMNS = ["id", "member", "activity", "amount"] as const;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+function toRecord(raw: Record<string, unknown>, where: string): ActivityRecord {
+  const id = String(raw.id ?? "").trim();
+  const member = String(raw.member ?? "").trim();
+  const activity = String(raw.activity ?? "").trim();
+  const amount = Number(raw.amount);
+
+  if (!id) throw new Error(`${where}: missing id`);
+  if (!ADDRESS.test(member)) throw new Error(`${where}: invalid member address "${member}"`);
+  if (!activity) throw new Error(`${where}: missing activity`);
+  if (!Number.isInteger(amount) || amount < 0 || amount > 0xffffffff) {
+    throw new Error(`${where}: amount must be a uint32, got "${raw.amount}"`);
+  }
+  return { id, member, activity, amount };
+}
+
+// A header row naming the four columns, in any order, then one record per
+// line. Values are not quoted, so none of them may contain a comma.
+function parseCsv(content: string): ActivityRecord[] {
+  const lines = content.split(/\r?\n/).map((line) => line.trim());
+  const header = lines[0]?.split(",").map((column) => column.trim().toLowerCase()) ?? [];
+  const missing = CSV_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing ${missing.join(", ")}`);
+  }
+
+  const records: ActivityRecord[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (!line) return;
+    const values = line.split(",").map((value) => value.trim());
+    if (values.length !== header.length) {
+      throw new Error(`Line ${i + 2}: expected ${header.length} values, got ${values.length}`);
+    }
+    const raw = Object.fromEntries(header.map((column, j) => [column, values[j]]));
+    records.push(toRecord(raw, `Line ${i + 2}`));
+  });
+  return records;
+}
+
+// A JSON array of record objects
+function parseJson(content: string): ActivityRecord[] {
+  const parsed: unknown = JSON.parse(content);
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON export must be an array of records");
+  }
+  return parsed.map((raw, i) => toRecord(raw ?? {}, `Record ${i}`));
+}
+
+export function parseActivityExport(content: string, format: ExportFormat): ActivityRecord[] {
+  const records = format === "csv" ? parseCsv(content) : parseJson(content);
+
+  const seen = new Set<string>();
+  for (const record of records) {
+    if (seen.has(record.id)) {
+      throw new Error(`Duplicate record id "${record.id}"`);
+    }
+    seen.add(record.id);
+  }
+  return records;
+}
+
+export function formatFromPath(path: string): ExportFormat {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  if (extension !== "csv" && extension !== "json") {
+    throw new Error(`Unsupported export file "${path}", expected .csv or .json`);
+  }
+  return extension;
+}
@@ -0,0 +1,138 @@
+// Submits off-chain engagement to AttentionVote_FHE as encrypted attestations.
+// Works with any encryptor that speaks the relayer SDK input API, so the same
+// code runs against the hardhat mock and the real relayer.
+import { ethers } from "ethers";
+import type { RelayerEncryptedInput } from "@zama-fhe/relayer-sdk/node";
+
+import type { AttentionVote_FHE } from "../../types";
+import { ACTIVITY_VOTE } from "../attention/attentionModel";
+import type { ActivityRecord } from "./activityExport";
+
+export type CreateEncryptedInput = (contractAddress: string, userAddress: string) => RelayerEncryptedInput;
+
+export interface PendingAttestation {
+  record: ActivityRecord;
+  activityType: number;
+  attestationId: string;
+}
+
+export interface SubmittedBatch {
+  txHash: string;
+  attestations: PendingAttestation[];
+}
+
+export interface RejectedAttestation extends PendingAttestation {
+  reason: string;
+}
+
+export interface ReportResult {
+  submitted: SubmittedBatch[];
+  // Records whose attestation id is already used on-chain, e.g. from an earlier run
+  skipped: PendingAttestation[];
+  // Records the contract would revert on, left out so they cannot fail a batch
+  rejected: RejectedAttestation[];
+}
+
+export interface ReportOptions {
+  // Namespaces record ids so two exports cannot collide, e.g. "forum" or "calls"
+  source: string;
+  batchSize?: number;
+}
+
+// Each batch re-scores every member in it homomorphically, so batches are kept
+// small enough to stay under the per-transaction FHE budget.
+export const DEFAULT_BATCH_SIZE = 4;
+
+export const attestationIdOf = (source: string, recordId: string) => ethers.id(`${source}:${recordId}`);
+
+// The contract counts attestations per reporter per UTC day
+const SECONDS_PER_DAY = 86400;
+
+// Maps each record to its on-chain activity type. Names are matched
+// case-insensitively; proposals and votes cannot be attested.
+export async function planAttestations(
+  contract: AttentionVote_FHE,
+  records: ActivityRecord[],
+  source: string
+): Promise<PendingAttestation[]> {
+  const count = Number(await contract.activityTypeCount());
+  const typeIds = new Map<string, number>();
+  for (let id = ACTIVITY_VOTE + 1; id < count; id++) {
+    const { name } = await contract.activityTypes(id);
+    typeIds.set(name.toLowerCase(), id);
+  }
+
+  return records.map((record) => {
+    const activityType = typeIds.get(record.activity.toLowerCase());
+    if (activityType === undefined) {
+      throw new Error(`Record "${record.id}": "${record.activity}" is not an attestable activity type`);
+    }
+    return { record, activityType, attestationId: attestationIdOf(source, record.id) };
+  });
+}
+
+export async function submitActivity(
+  contract: AttentionVote_FHE,
+  reporter: ethers.Signer,
+  createEncryptedInput: CreateEncryptedInput,
+  records: ActivityRecord[],
+  { source, batchSize = DEFAULT_BATCH_SIZE }: ReportOptions
+): Promise<ReportResult> {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a positive integer, got ${batchSize}`);
+  }
+
+  const reporterAddress = await reporter.getAddress();
+  if (!(await contract.reporters(reporterAddress))) {
+    throw new Error(`${reporterAddress} is not a registered reporter`);
+  }
+
+  const planned = await planAttestations(contract, records, source);
+  const used = await Promise.all(planned.map((attestation) => contract.attestationUsed(attestation.attestationId)));
+  const skipped = planned.filter((_, i) => used[i]);
+
+  // Checked up front, since one inactive member or a batch over the daily
+  // limit would revert the whole transaction
+  const unused = planned.filter((_, i) => !used[i]);
+  const active = await Promise.all(unused.map(({ record }) => contract.members(record.member)));
+  const rejected: RejectedAttestation[] = unused
+    .filter((_, i) => !active[i].isActive)
+    .map((attestation) => ({ ...attestation, reason: "Not a member" }));
+  const eligible = unused.filter((_, i) => active[i].isActive);
+
+  const { timestamp } = (await contract.runner!.provider!.getBlock("latest"))!;
+  const day = Math.floor(timestamp / SECONDS_PER_DAY);
+  const [dailyLimit, usedToday] = await Promise.all([
+    contract.reporterDailyLimit(),
+    contract.attestationsPerDay(reporterAddress, day),
+  ]);
+  const remaining = Math.max(Number(dailyLimit) - Number(usedToday), 0);
+  const pending = eligible.slice(0, remaining);
+  rejected.push(...eligible.slice(remaining).map((attestation) => ({ ...attestation, reason: "Daily limit reached" })));
+
+  const contractAddress = await contract.getAddress();
+  const submitted: SubmittedBatch[] = [];
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+
+    // One input for the whole batch, so a single proof covers every amount
+    const input = createEncryptedInput(contractAddress, reporterAddress);
+    batch.forEach(({ record }) => input.add32(record.amount));
+    const { handles, inputProof } = await input.encrypt();
+
+    const tx = await contract.connect(reporter).attestActivities(
+      batch.map(({ record, activityType, attestationId }, i) => ({
+        member: record.member,
+        activityType,
+        amount: handles[i],
+        attestationId,
+      })),
+      inputProof
+    );
+    await tx.wait();
+    submitted.push({ txHash: tx.hash, attestations: batch });
+  }
+
+  return { submitted, skipped, rejected };
+}
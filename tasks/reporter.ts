@@ -0,0 +1,49 @@
+import { promises as fs } from "fs";
+import { task, types } from "hardhat/config";
+
+import { formatFromPath, parseActivityExport } from "../src/reporter/activityExport";
+import { DEFAULT_BATCH_SIZE, planAttestations, submitActivity } from "../src/reporter/reporter";
+
+// Example:
+//   npx hardhat --network sepolia attention:report --contract 0x... --file forum.csv --source forum
+task("attention:report", "Encrypts an activity export and attests it on AttentionVote_FHE")
+  .addParam("contract", "AttentionVote_FHE address")
+  .addParam("file", "Activity export (.csv or .json) with id, member, activity and amount")
+  .addParam("source", "Name of the system the export came from; namespaces record ids")
+  .addOptionalParam("batch", "Attestations per transaction", DEFAULT_BATCH_SIZE, types.int)
+  .addOptionalParam("reporter", "Index of the reporter account in the network config", 0, types.int)
+  .addFlag("dryRun", "Validate and map the export without submitting")
+  .setAction(async (args, hre) => {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const records = parseActivityExport(await fs.readFile(args.file, "utf8"), formatFromPath(args.file));
+    const reporter = (await ethers.getSigners())[args.reporter];
+    const contract = await ethers.getContractAt("AttentionVote_FHE", args.contract);
+
+    if (args.dryRun) {
+      const planned = await planAttestations(contract, records, args.source);
+      for (const { record, activityType, attestationId } of planned) {
+        console.log(`${record.id}: ${record.amount} x type ${activityType} for ${record.member} (${attestationId})`);
+      }
+      console.log(`${planned.length} records ready`);
+      return;
+    }
+
+    const { submitted, skipped, rejected } = await submitActivity(
+      contract,
+      reporter,
+      (contractAddress, userAddress) => fhevm.createEncryptedInput(contractAddress, userAddress),
+      records,
+      { source: args.source, batchSize: args.batch }
+    );
+    for (const { txHash, attestations } of submitted) {
+      console.log(`Attested ${attestations.length} records in ${txHash}`);
+    }
+    if (skipped.length > 0) {
+      console.log(`Skipped ${skipped.length} records already attested: ${skipped.map(({ record }) => record.id).join(", ")}`);
+    }
+    for (const { record, reason } of rejected) {
+      console.log(`Rejected ${record.id}: ${reason}`);
+    }
+  });
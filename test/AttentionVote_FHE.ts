@@ -0,0 +1,1417 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  ACTIVITY_PROPOSAL,
+  ACTIVITY_VOTE,
+  DecayModel,
+  DEFAULT_DECAY_MODEL,
+  scoreAfterActivity,
+} from "../src/attention/attentionModel";
+import { CurveKind, votingWeight, WeightCurve } from "../src/attention/weightCurves";
+import { encodeAction, ProposalAction, transferAction } from "../src/execution/proposalActions";
+import { hashProposal, loadProposal, MemoryContentStore, publishProposal } from "../src/metadata/proposalMetadata";
+import {
+  AttentionVote_FHE,
+  AttentionVote_FHE__factory,
+  MockCredentialVerifier,
+  MockCredentialVerifier__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const ONE_HOUR = 3600;
+const ONE_DAY = 24 * ONE_HOUR;
+const METADATA_HASH = ethers.id("AttentionVote_FHE test proposal");
+
+const AGAINST = 0;
+const FOR = 1;
+const ABSTAIN = 2;
+const MAX_QUORUM = 10000;
+const TIMELOCK_DELAY = 2 * ONE_DAY;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("AttentionVote_FHE")) as AttentionVote_FHE__factory;
+  const attentionVote = (await factory.deploy()) as AttentionVote_FHE;
+  const attentionVoteAddress = await attentionVote.getAddress();
+
+  return { attentionVote, attentionVoteAddress };
+}
+
+describe("AttentionVote_FHE", function () {
+  let signers: Signers;
+  let attentionVote: AttentionVote_FHE;
+  let attentionVoteAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // The encrypted inputs and debugger decryption below only exist in the fhevm mock
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ attentionVote, attentionVoteAddress } = await deployFixture());
+  });
+
+  // Sets the open admission policy's score for this member, then joins
+  async function join(member: HardhatEthersSigner, initialScore: number) {
+    await attentionVote.connect(signers.deployer).setAdmissionPolicy(ethers.ZeroAddress, ethers.ZeroHash, initialScore);
+    return attentionVote.connect(member).joinDAO(ethers.ZeroHash);
+  }
+
+  async function propose(
+    member: HardhatEthersSigner,
+    duration = ONE_DAY,
+    metadataHash = METADATA_HASH,
+    actions: ProposalAction[] = [],
+  ) {
+    return attentionVote.connect(member).createProposal(duration, metadataHash, actions);
+  }
+
+  async function vote(member: HardhatEthersSigner, proposalId: number, choice: number) {
+    const input = await fhevm.createEncryptedInput(attentionVoteAddress, member.address).add8(choice).encrypt();
+    return attentionVote.connect(member).castVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function changeVote(member: HardhatEthersSigner, proposalId: number, choice: number) {
+    const input = await fhevm.createEncryptedInput(attentionVoteAddress, member.address).add8(choice).encrypt();
+    return attentionVote.connect(member).changeVote(proposalId, input.handles[0], input.inputProof);
+  }
+
+  async function revealOutcome(member: HardhatEthersSigner, proposalId: number) {
+    await attentionVote.connect(member).requestOutcomeDecryption(proposalId);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function decryptScore(member: HardhatEthersSigner) {
+    const { encryptedActivityScore } = await attentionVote.members(member.address);
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedActivityScore);
+  }
+
+  async function decryptWeight(member: HardhatEthersSigner) {
+    const { encryptedVotingWeight } = await attentionVote.members(member.address);
+    return fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedVotingWeight);
+  }
+
+  async function decryptTally(proposalId: number) {
+    const proposal = await attentionVote.proposals(proposalId);
+    const decrypt = (handle: string) => fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    return {
+      forWeight: await decrypt(proposal.encryptedForWeight),
+      againstWeight: await decrypt(proposal.encryptedAgainstWeight),
+      abstainWeight: await decrypt(proposal.encryptedAbstainWeight),
+      turnoutWeight: await decrypt(proposal.encryptedTurnoutWeight),
+    };
+  }
+
+  async function decryptChoice(proposalId: number, member: HardhatEthersSigner) {
+    const ballot = await attentionVote.encryptedVotes(proposalId, member.address);
+    return fhevm.debugger.decryptEuint(FhevmType.euint8, ballot);
+  }
+
+  describe("membership", function () {
+    it("stores the policy's initial score encrypted, with its curve weight", async function () {
+      await expect(join(signers.alice, 15)).to.emit(attentionVote, "MemberJoined").withArgs(signers.alice.address);
+
+      const member = await attentionVote.members(signers.alice.address);
+      expect(member.isActive).to.eq(true);
+      expect(await decryptScore(signers.alice)).to.eq(15n);
+      expect(await decryptWeight(signers.alice)).to.eq(3n);
+    });
+
+    it("reverts with 'Already member' on a second join", async function () {
+      await join(signers.alice, 15);
+      await expect(join(signers.alice, 20)).to.be.revertedWith("Already member");
+    });
+
+    it("admits anyone at the policy score while no verifier is set", async function () {
+      await attentionVote.connect(signers.deployer).setAdmissionPolicy(ethers.ZeroAddress, ethers.ZeroHash, 7);
+      await attentionVote.connect(signers.alice).joinDAO(ethers.ZeroHash);
+      await attentionVote.connect(signers.bob).joinDAO(ethers.id("anything"));
+
+      expect(await decryptScore(signers.alice)).to.eq(7n);
+      expect(await decryptScore(signers.bob)).to.eq(7n);
+    });
+
+    it("reverts with 'Not a member' for outsiders", async function () {
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+
+      await expect(propose(signers.carol)).to.be.revertedWith("Not a member");
+      await expect(vote(signers.carol, 1, FOR)).to.be.revertedWith("Not a member");
+      await expect(attentionVote.connect(signers.carol).executeProposal(1)).to.be.revertedWith("Not a member");
+      await expect(attentionVote.connect(signers.carol).requestVoteCountDecryption(1)).to.be.revertedWith(
+        "Not a member",
+      );
+    });
+  });
+
+  describe("credential admission", function () {
+    const CREDENTIAL_TYPE = ethers.id("proof-of-personhood");
+    let verifier: MockCredentialVerifier;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("MockCredentialVerifier")) as MockCredentialVerifier__factory;
+      verifier = await factory.deploy();
+      await expect(
+        attentionVote.connect(signers.deployer).setAdmissionPolicy(await verifier.getAddress(), CREDENTIAL_TYPE, 25),
+      )
+        .to.emit(attentionVote, "AdmissionPolicyUpdated")
+        .withArgs(await verifier.getAddress(), CREDENTIAL_TYPE, 25);
+    });
+
+    it("admits a joiner whose proof was verified, at the policy score", async function () {
+      const proofId = await attentionVote.admissionProofId(signers.alice.address);
+      await verifier.setProofResult(proofId, true);
+
+      await expect(attentionVote.connect(signers.alice).joinDAO(proofId))
+        .to.emit(attentionVote, "MemberJoined")
+        .withArgs(signers.alice.address);
+      expect(await decryptScore(signers.alice)).to.eq(25n);
+    });
+
+    it("reverts with 'Credential not verified' until the proof is valid", async function () {
+      const proofId = await attentionVote.admissionProofId(signers.alice.address);
+      await expect(attentionVote.connect(signers.alice).joinDAO(proofId)).to.be.revertedWith("Credential not verified");
+
+      await verifier.setProofResult(proofId, false);
+      await expect(attentionVote.connect(signers.alice).joinDAO(proofId)).to.be.revertedWith("Credential not verified");
+    });
+
+    it("reverts with 'Wrong proof id' for another joiner's proof", async function () {
+      const aliceProof = await attentionVote.admissionProofId(signers.alice.address);
+      await verifier.setProofResult(aliceProof, true);
+
+      await expect(attentionVote.connect(signers.bob).joinDAO(aliceProof)).to.be.revertedWith("Wrong proof id");
+    });
+
+    it("binds proof ids to the required credential type", async function () {
+      const before = await attentionVote.admissionProofId(signers.alice.address);
+      await attentionVote
+        .connect(signers.deployer)
+        .setAdmissionPolicy(await verifier.getAddress(), ethers.id("kyc"), 25);
+
+      expect(await attentionVote.admissionProofId(signers.alice.address)).not.to.eq(before);
+    });
+
+    it("reverts with 'Not admin' for anyone else", async function () {
+      await expect(
+        attentionVote.connect(signers.alice).setAdmissionPolicy(ethers.ZeroAddress, ethers.ZeroHash, 1000),
+      ).to.be.revertedWith("Not admin");
+    });
+  });
+
+  describe("private self-view", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await join(signers.bob, 99);
+      await time.increase(ONE_HOUR);
+      await propose(signers.alice);
+    });
+
+    it("lets a member user-decrypt their own score and weight", async function () {
+      const { encryptedActivityScore, encryptedVotingWeight } = await attentionVote.members(signers.alice.address);
+
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, encryptedActivityScore, attentionVoteAddress, signers.alice),
+      ).to.eq(16n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, encryptedVotingWeight, attentionVoteAddress, signers.alice),
+      ).to.eq(4n);
+    });
+
+    it("keeps the initial score private to the member who joined", async function () {
+      const { encryptedActivityScore } = await attentionVote.members(signers.bob.address);
+
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, encryptedActivityScore, attentionVoteAddress, signers.bob),
+      ).to.eq(99n);
+    });
+
+    it("refuses to decrypt another member's values", async function () {
+      const { encryptedActivityScore, encryptedVotingWeight } = await attentionVote.members(signers.alice.address);
+
+      for (const handle of [encryptedActivityScore, encryptedVotingWeight]) {
+        let decrypted = true;
+        try {
+          await fhevm.userDecryptEuint(FhevmType.euint32, handle, attentionVoteAddress, signers.bob);
+        } catch {
+          decrypted = false;
+        }
+        expect(decrypted).to.eq(false);
+      }
+    });
+  });
+
+  describe("proposal metadata", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+    });
+
+    it("anchors the hash of the off-chain document", async function () {
+      const store = new MemoryContentStore();
+      const document = {
+        title: "Fund the community call",
+        body: "Monthly budget for hosting the call.",
+        options: ["For", "Against"],
+        links: ["https://forum.example/t/42"],
+      };
+      const metadataHash = await publishProposal(store, document);
+
+      const tx = await propose(signers.alice, ONE_DAY, metadataHash);
+      const { timestamp } = (await ethers.provider.getBlock((await tx.wait())!.blockNumber))!;
+      await expect(tx)
+        .to.emit(attentionVote, "ProposalCreated")
+        .withArgs(1, timestamp + ONE_DAY, metadataHash);
+
+      const onChainHash = (await attentionVote.proposals(1)).metadataHash;
+      const loaded = await loadProposal(store, onChainHash);
+      expect(loaded?.verified).to.eq(true);
+      expect(loaded?.document.title).to.eq(document.title);
+    });
+
+    it("flags a stored document that does not match the on-chain hash", async function () {
+      const store = new MemoryContentStore();
+      const metadataHash = await hashProposal({ title: "Original", body: "", options: [], links: [] });
+      await propose(signers.alice, ONE_DAY, metadataHash);
+      await store.put(metadataHash, JSON.stringify({ title: "Tampered", body: "", options: [], links: [], version: 1 }));
+
+      const loaded = await loadProposal(store, (await attentionVote.proposals(1)).metadataHash);
+      expect(loaded?.verified).to.eq(false);
+    });
+
+    it("reverts with 'Missing metadata' for an empty hash", async function () {
+      await expect(propose(signers.alice, ONE_DAY, ethers.ZeroHash)).to.be.revertedWith("Missing metadata");
+    });
+  });
+
+  describe("updateActivityScore", function () {
+    const model: DecayModel = { halfLife: 10 * ONE_HOUR };
+    const PROPOSAL_WEIGHT = 3;
+
+    async function setDecayModel({ halfLife }: DecayModel) {
+      return attentionVote.connect(signers.deployer).setDecayModel(halfLife);
+    }
+
+    async function useFastDecay() {
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, PROPOSAL_WEIGHT);
+      await setDecayModel(model);
+    }
+
+    // Proposes and checks the chain against the reference model
+    async function expectModelledScore(member: HardhatEthersSigner, decay: DecayModel) {
+      const before = await attentionVote.members(member.address);
+      const score = await decryptScore(member);
+      await propose(member);
+      const after = await attentionVote.members(member.address);
+
+      const elapsed = Number(after.lastActive - before.lastActive);
+      const expected = scoreAfterActivity(score, elapsed, decay, PROPOSAL_WEIGHT);
+      expect(await decryptScore(member)).to.eq(expected);
+      expect(await decryptWeight(member)).to.eq(votingWeight(expected));
+      return expected;
+    }
+
+    it("uses a 30 day half-life by default", async function () {
+      expect(await attentionVote.halfLife()).to.eq(DEFAULT_DECAY_MODEL.halfLife);
+    });
+
+    it("credits each action rather than elapsed time", async function () {
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+      await propose(signers.alice);
+
+      expect(await decryptScore(signers.alice)).to.eq(17n);
+    });
+
+    it("credits a vote once, not each time it is changed", async function () {
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+      await vote(signers.alice, 1, FOR);
+      const score = await decryptScore(signers.alice);
+
+      for (const choice of [AGAINST, FOR, AGAINST]) {
+        await changeVote(signers.alice, 1, choice);
+      }
+
+      expect(await decryptScore(signers.alice)).to.eq(score);
+    });
+
+    it("halves the score over each half-life of inactivity", async function () {
+      await useFastDecay();
+      await join(signers.alice, 1000);
+      await time.increase(2 * model.halfLife - 1);
+
+      const score = await expectModelledScore(signers.alice, model);
+      expect(score).to.eq(253n);
+    });
+
+    it("matches the reference model between halvings", async function () {
+      await useFastDecay();
+      await join(signers.alice, 60000);
+
+      for (const wait of [ONE_HOUR, 7 * ONE_HOUR, 13 * ONE_HOUR, 3 * ONE_DAY]) {
+        await time.increase(wait);
+        await expectModelledScore(signers.alice, model);
+      }
+    });
+
+    it("decays to nothing after 32 half-lives", async function () {
+      await useFastDecay();
+      await join(signers.alice, 1_000_000);
+      await time.increase(32 * model.halfLife);
+      await propose(signers.alice);
+
+      expect(await decryptScore(signers.alice)).to.eq(BigInt(PROPOSAL_WEIGHT));
+    });
+
+    it("lets the admin change the decay model", async function () {
+      await expect(setDecayModel(model))
+        .to.emit(attentionVote, "DecayModelUpdated")
+        .withArgs(model.halfLife);
+
+      expect(await attentionVote.halfLife()).to.eq(model.halfLife);
+    });
+
+    it("reverts with 'Invalid decay model' for a zero half-life", async function () {
+      await expect(setDecayModel({ halfLife: 0 })).to.be.revertedWith("Invalid decay model");
+    });
+
+    it("reverts with 'Not admin' for other callers", async function () {
+      await expect(attentionVote.connect(signers.alice).setDecayModel(ONE_HOUR)).to.be.revertedWith("Not admin");
+    });
+
+    it("sets the voting weight to the integer square root of the score", async function () {
+      // With proposals weighted zero the weight is the root of the joining score itself
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, 0);
+      const cases: [number, bigint][] = [
+        [0, 0n],
+        [1, 1n],
+        [3, 1n],
+        [4, 2n],
+        [99, 9n],
+        [100, 10n],
+        [65535, 255n],
+      ];
+
+      const ethSigners = await ethers.getSigners();
+      for (const [i, [score, expectedWeight]] of cases.entries()) {
+        const member = ethSigners[4 + i];
+        await join(member, score);
+        await propose(member);
+
+        expect(await decryptWeight(member)).to.eq(expectedWeight, `sqrt(${score})`);
+      }
+    });
+
+    it("clamps scores above 16 bits before taking the square root", async function () {
+      await join(signers.alice, 1_000_000);
+      await propose(signers.alice);
+
+      expect(await decryptScore(signers.alice)).to.eq(1_000_001n);
+      expect(await decryptWeight(signers.alice)).to.eq(255n);
+    });
+  });
+
+  describe("weight curves", function () {
+    const SCORES = [0, 5, 17, 40, 1000];
+
+    async function setCurve(curve: WeightCurve) {
+      const admin = attentionVote.connect(signers.deployer);
+      switch (curve.kind) {
+        case CurveKind.CappedLinear:
+          return admin.setWeightCurve(curve.kind, curve.cap);
+        case CurveKind.Log2:
+          return admin.setWeightCurve(curve.kind, curve.scale);
+        case CurveKind.Piecewise:
+          return admin.setPiecewiseCurve(curve.segments);
+        default:
+          return admin.setWeightCurve(curve.kind, 0);
+      }
+    }
+
+    // The proposal is weighted zero, so each weight is the curve applied to the joining score
+    async function expectCurveWeights(curve: WeightCurve) {
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, 0);
+      await setCurve(curve);
+
+      const ethSigners = await ethers.getSigners();
+      for (const [i, score] of SCORES.entries()) {
+        const member = ethSigners[4 + i];
+        await join(member, score);
+        await propose(member);
+
+        expect(await decryptWeight(member)).to.eq(votingWeight(BigInt(score), curve), `score ${score}`);
+      }
+    }
+
+    it("defaults to the square root curve", async function () {
+      expect(await attentionVote.weightCurve()).to.eq(CurveKind.Sqrt);
+      expect(await attentionVote.curveParam()).to.eq(0n);
+    });
+
+    it("weighs linearly", async function () {
+      await expectCurveWeights({ kind: CurveKind.Linear });
+    });
+
+    it("weighs linearly up to a cap", async function () {
+      await expectCurveWeights({ kind: CurveKind.CappedLinear, cap: 20 });
+    });
+
+    it("weighs by the bit length of the score", async function () {
+      await expectCurveWeights({ kind: CurveKind.Log2, scale: 3 });
+    });
+
+    it("weighs by piecewise linear segments", async function () {
+      await expectCurveWeights({
+        kind: CurveKind.Piecewise,
+        segments: [
+          { start: 0, slopeBps: 10000 },
+          { start: 10, slopeBps: 5000 },
+          { start: 30, slopeBps: 2500 },
+        ],
+      });
+    });
+
+    it("applies a new curve at each member's next activity", async function () {
+      await join(signers.alice, 99);
+      await propose(signers.alice);
+      expect(await decryptWeight(signers.alice)).to.eq(10n);
+
+      await setCurve({ kind: CurveKind.Linear });
+      expect(await decryptWeight(signers.alice)).to.eq(10n);
+
+      await propose(signers.alice);
+      expect(await decryptWeight(signers.alice)).to.eq(await decryptScore(signers.alice));
+    });
+
+    it("emits WeightCurveUpdated and stores the segments", async function () {
+      const segments = [
+        { start: 0, slopeBps: 20000 },
+        { start: 50, slopeBps: 0 },
+      ];
+      await expect(setCurve({ kind: CurveKind.Piecewise, segments }))
+        .to.emit(attentionVote, "WeightCurveUpdated")
+        .withArgs(CurveKind.Piecewise, 2);
+
+      const stored = await attentionVote.getCurveSegments();
+      expect(stored.map(({ start, slopeBps }) => ({ start: Number(start), slopeBps: Number(slopeBps) }))).to.deep.eq(
+        segments,
+      );
+
+      await setCurve({ kind: CurveKind.Linear });
+      expect(await attentionVote.getCurveSegments()).to.deep.eq([]);
+    });
+
+    it("reverts with 'Invalid curve' for a zero cap or scale", async function () {
+      await expect(setCurve({ kind: CurveKind.CappedLinear, cap: 0 })).to.be.revertedWith("Invalid curve");
+      await expect(setCurve({ kind: CurveKind.Log2, scale: 0 })).to.be.revertedWith("Invalid curve");
+    });
+
+    it("reverts with 'Invalid curve' for malformed segments", async function () {
+      const segments = (...starts: number[]) => starts.map((start) => ({ start, slopeBps: 10000 }));
+      for (const invalid of [segments(), segments(1), segments(0, 5, 5), segments(0, 1, 2, 3, 4)]) {
+        await expect(setCurve({ kind: CurveKind.Piecewise, segments: invalid })).to.be.revertedWith("Invalid curve");
+      }
+    });
+
+    it("reverts with 'Use setPiecewiseCurve' for a piecewise curve without segments", async function () {
+      await expect(
+        attentionVote.connect(signers.deployer).setWeightCurve(CurveKind.Piecewise, 0),
+      ).to.be.revertedWith("Use setPiecewiseCurve");
+    });
+
+    it("reverts with 'Not admin' for other callers", async function () {
+      await expect(attentionVote.connect(signers.alice).setWeightCurve(CurveKind.Linear, 0)).to.be.revertedWith(
+        "Not admin",
+      );
+      await expect(
+        attentionVote.connect(signers.alice).setPiecewiseCurve([{ start: 0, slopeBps: 10000 }]),
+      ).to.be.revertedWith("Not admin");
+    });
+  });
+
+  describe("activity types", function () {
+    async function decryptEngagement(member: HardhatEthersSigner, activityType: number) {
+      const handle = await attentionVote.getEngagement(member.address, activityType);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    }
+
+    it("registers proposals and votes at deployment", async function () {
+      expect(await attentionVote.activityTypeCount()).to.eq(2);
+      expect(await attentionVote.activityTypes(ACTIVITY_PROPOSAL)).to.deep.eq(["proposal", 1n]);
+      expect(await attentionVote.activityTypes(ACTIVITY_VOTE)).to.deep.eq(["vote", 1n]);
+    });
+
+    it("lets the admin register new activity types", async function () {
+      await expect(attentionVote.connect(signers.deployer).registerActivityType("comment", 2))
+        .to.emit(attentionVote, "ActivityTypeRegistered")
+        .withArgs(2, "comment", 2);
+
+      expect(await attentionVote.activityTypeCount()).to.eq(3);
+      expect(await attentionVote.activityTypes(2)).to.deep.eq(["comment", 2n]);
+    });
+
+    it("lets the admin reweight an activity type", async function () {
+      await expect(attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_VOTE, 5))
+        .to.emit(attentionVote, "ActivityWeightUpdated")
+        .withArgs(ACTIVITY_VOTE, 5);
+
+      expect((await attentionVote.activityTypes(ACTIVITY_VOTE)).weight).to.eq(5);
+    });
+
+    it("counts each member's proposals and votes in their engagement vector", async function () {
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+      await propose(signers.alice);
+      await vote(signers.alice, 1, FOR);
+      await changeVote(signers.alice, 1, AGAINST);
+
+      expect(await decryptEngagement(signers.alice, ACTIVITY_PROPOSAL)).to.eq(2n);
+      expect(await decryptEngagement(signers.alice, ACTIVITY_VOTE)).to.eq(1n);
+    });
+
+    it("lets only the member user-decrypt their engagement counters", async function () {
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+      const handle = await attentionVote.getEngagement(signers.alice.address, ACTIVITY_PROPOSAL);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, attentionVoteAddress, signers.alice)).to.eq(1n);
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, handle, attentionVoteAddress, signers.bob);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("credits each activity to the score at its weight", async function () {
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, 4);
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_VOTE, 5);
+      await join(signers.alice, 15);
+      await propose(signers.alice);
+      await vote(signers.alice, 1, FOR);
+
+      // The few seconds between actions are too short to decay anything
+      expect(await decryptScore(signers.alice)).to.eq(24n);
+    });
+
+    it("reverts with 'Missing name' for an unnamed activity type", async function () {
+      await expect(attentionVote.connect(signers.deployer).registerActivityType("", 1)).to.be.revertedWith(
+        "Missing name",
+      );
+    });
+
+    it("reverts with 'Unknown activity type' when reweighting an unregistered type", async function () {
+      await expect(attentionVote.connect(signers.deployer).setActivityWeight(2, 1)).to.be.revertedWith(
+        "Unknown activity type",
+      );
+    });
+
+    it("reverts with 'Not admin' for other callers", async function () {
+      await expect(attentionVote.connect(signers.alice).registerActivityType("comment", 2)).to.be.revertedWith(
+        "Not admin",
+      );
+      await expect(attentionVote.connect(signers.alice).setActivityWeight(ACTIVITY_VOTE, 2)).to.be.revertedWith(
+        "Not admin",
+      );
+    });
+  });
+
+  describe("reporter attestations", function () {
+    const COMMENT = 2;
+    let nextRecord = 0;
+
+    beforeEach(async function () {
+      await attentionVote.connect(signers.deployer).registerActivityType("comment", 2);
+      await attentionVote.connect(signers.deployer).setReporter(signers.carol.address, true);
+      await join(signers.alice, 15);
+    });
+
+    // Attests one amount per member, all under a single input proof
+    async function attest(
+      entries: { member: HardhatEthersSigner; amount: number; activityType?: number; attestationId?: string }[],
+      reporter = signers.carol,
+    ) {
+      const input = fhevm.createEncryptedInput(attentionVoteAddress, reporter.address);
+      entries.forEach(({ amount }) => input.add32(amount));
+      const { handles, inputProof } = await input.encrypt();
+
+      return attentionVote.connect(reporter).attestActivities(
+        entries.map(({ member, activityType = COMMENT, attestationId }, i) => ({
+          member: member.address,
+          activityType,
+          amount: handles[i],
+          attestationId: attestationId ?? ethers.id(`record-${nextRecord++}`),
+        })),
+        inputProof,
+      );
+    }
+
+    async function decryptEngagement(member: HardhatEthersSigner, activityType: number) {
+      const handle = await attentionVote.getEngagement(member.address, activityType);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    }
+
+    it("credits attested engagement to the member's vector and score", async function () {
+      const attestationId = ethers.id("forum:post-1");
+      await expect(attest([{ member: signers.alice, amount: 3, attestationId }]))
+        .to.emit(attentionVote, "ActivityAttested")
+        .withArgs(attestationId, signers.carol.address, signers.alice.address, COMMENT);
+
+      expect(await decryptEngagement(signers.alice, COMMENT)).to.eq(3n);
+      // 15 + 3 comments at weight 2
+      expect(await decryptScore(signers.alice)).to.eq(21n);
+      expect(await decryptWeight(signers.alice)).to.eq(4n);
+    });
+
+    it("attests several members in one batch", async function () {
+      await join(signers.bob, 99);
+      await attest([
+        { member: signers.alice, amount: 1 },
+        { member: signers.bob, amount: 2 },
+        { member: signers.alice, amount: 4 },
+      ]);
+
+      expect(await decryptEngagement(signers.alice, COMMENT)).to.eq(5n);
+      expect(await decryptEngagement(signers.bob, COMMENT)).to.eq(2n);
+    });
+
+    it("clamps each amount to maxAttestedAmount", async function () {
+      await attest([{ member: signers.alice, amount: 1000 }]);
+
+      expect(await decryptEngagement(signers.alice, COMMENT)).to.eq(await attentionVote.maxAttestedAmount());
+    });
+
+    it("reverts with 'Attestation replayed' for a used attestation id", async function () {
+      const attestationId = ethers.id("forum:post-1");
+      await attest([{ member: signers.alice, amount: 1, attestationId }]);
+
+      await expect(attest([{ member: signers.alice, amount: 1, attestationId }])).to.be.revertedWith(
+        "Attestation replayed",
+      );
+      expect(await attentionVote.attestationUsed(attestationId)).to.eq(true);
+    });
+
+    it("reverts with 'Rate limit exceeded' past the reporter's daily limit", async function () {
+      await attentionVote.connect(signers.deployer).setReporterLimits(3, 10);
+      await attest([
+        { member: signers.alice, amount: 1 },
+        { member: signers.alice, amount: 1 },
+      ]);
+
+      await expect(
+        attest([
+          { member: signers.alice, amount: 1 },
+          { member: signers.alice, amount: 1 },
+        ]),
+      ).to.be.revertedWith("Rate limit exceeded");
+      await attest([{ member: signers.alice, amount: 1 }]);
+    });
+
+    it("resets the rate limit the next day", async function () {
+      await attentionVote.connect(signers.deployer).setReporterLimits(1, 10);
+      await attest([{ member: signers.alice, amount: 1 }]);
+      await expect(attest([{ member: signers.alice, amount: 1 }])).to.be.revertedWith("Rate limit exceeded");
+
+      await time.increase(ONE_DAY);
+      await attest([{ member: signers.alice, amount: 1 }]);
+      expect(await decryptEngagement(signers.alice, COMMENT)).to.eq(2n);
+    });
+
+    it("reverts with 'Reserved activity type' for proposals and votes", async function () {
+      await expect(attest([{ member: signers.alice, amount: 1, activityType: ACTIVITY_VOTE }])).to.be.revertedWith(
+        "Reserved activity type",
+      );
+      await expect(
+        attest([{ member: signers.alice, amount: 1, activityType: ACTIVITY_PROPOSAL }]),
+      ).to.be.revertedWith("Reserved activity type");
+    });
+
+    it("reverts with 'Unknown activity type' for an unregistered type", async function () {
+      await expect(attest([{ member: signers.alice, amount: 1, activityType: 3 }])).to.be.revertedWith(
+        "Unknown activity type",
+      );
+    });
+
+    it("reverts with 'Not a member' for an outsider", async function () {
+      await expect(attest([{ member: signers.bob, amount: 1 }])).to.be.revertedWith("Not a member");
+    });
+
+    it("reverts with 'Not reporter' once the role is revoked", async function () {
+      await expect(attentionVote.connect(signers.deployer).setReporter(signers.carol.address, false))
+        .to.emit(attentionVote, "ReporterUpdated")
+        .withArgs(signers.carol.address, false);
+
+      await expect(attest([{ member: signers.alice, amount: 1 }])).to.be.revertedWith("Not reporter");
+    });
+
+    it("reverts with 'Not admin' when others manage reporters", async function () {
+      await expect(attentionVote.connect(signers.alice).setReporter(signers.alice.address, true)).to.be.revertedWith(
+        "Not admin",
+      );
+      await expect(attentionVote.connect(signers.alice).setReporterLimits(1000, 1000)).to.be.revertedWith(
+        "Not admin",
+      );
+    });
+  });
+
+  describe("voting", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await join(signers.bob, 99);
+      await time.increase(ONE_HOUR);
+
+      // Joining weighs the policy scores (15, 99) as (3, 9), and each creation lifts the
+      // creator's score by one: proposal 1 snapshots weights (4, 9), proposals 2 and 3 (4, 10).
+      await propose(signers.alice);
+      await propose(signers.bob);
+      await propose(signers.alice);
+    });
+
+    it("tallies for votes weighted by sqrt(attention)", async function () {
+      await expect(vote(signers.alice, 2, FOR))
+        .to.emit(attentionVote, "VoteCast")
+        .withArgs(signers.alice.address, 2);
+      await vote(signers.bob, 2, FOR);
+
+      expect(await decryptTally(2)).to.deep.eq({ forWeight: 14n, againstWeight: 0n, abstainWeight: 0n, turnoutWeight: 14n });
+    });
+
+    it("keeps for, against and abstain weight apart", async function () {
+      await vote(signers.alice, 2, AGAINST);
+      await vote(signers.bob, 2, FOR);
+      await vote(signers.alice, 3, ABSTAIN);
+      await vote(signers.bob, 3, AGAINST);
+
+      expect(await decryptTally(2)).to.deep.eq({ forWeight: 10n, againstWeight: 4n, abstainWeight: 0n, turnoutWeight: 14n });
+      expect(await decryptTally(3)).to.deep.eq({ forWeight: 0n, againstWeight: 10n, abstainWeight: 4n, turnoutWeight: 14n });
+    });
+
+    it("counts a newly admitted member's first vote at the policy weight", async function () {
+      await join(signers.carol, 49);
+      await propose(signers.alice);
+      await vote(signers.carol, 4, FOR);
+
+      expect(await decryptTally(4)).to.deep.eq({ forWeight: 7n, againstWeight: 0n, abstainWeight: 0n, turnoutWeight: 7n });
+    });
+
+    it("counts a voter with no weight at the snapshot as zero", async function () {
+      await join(signers.carol, 49);
+      await vote(signers.carol, 1, FOR);
+
+      expect(await decryptTally(1)).to.deep.eq({ forWeight: 0n, againstWeight: 0n, abstainWeight: 0n, turnoutWeight: 0n });
+    });
+
+    it("ignores weight gained after the proposal was created", async function () {
+      // Another proposal worth 100 points lifts alice's live weight from 4 to 10
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, 100);
+      await propose(signers.alice);
+      expect(await decryptWeight(signers.alice)).to.eq(10n);
+
+      await vote(signers.alice, 2, FOR);
+      await vote(signers.alice, 4, FOR);
+      expect((await decryptTally(2)).forWeight).to.eq(4n);
+      expect((await decryptTally(4)).forWeight).to.eq(10n);
+    });
+
+    it("keeps counting the snapshot weight after it decays", async function () {
+      await attentionVote.connect(signers.deployer).setDecayModel(ONE_HOUR);
+      await time.increase(2 * ONE_HOUR);
+      await vote(signers.alice, 2, FOR);
+      await vote(signers.alice, 3, FOR);
+
+      expect((await decryptTally(3)).forWeight).to.eq(4n);
+      expect(await decryptWeight(signers.alice)).to.be.lessThan(4n);
+    });
+
+    it("lets the voter decrypt the weight their ballot was counted with", async function () {
+      await vote(signers.alice, 2, FOR);
+      const handle = await attentionVote.getBallotWeight(2, signers.alice.address);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, attentionVoteAddress, signers.alice)).to.eq(4n);
+    });
+
+    it("records the snapshot each proposal counts weight from", async function () {
+      expect(await attentionVote.currentSnapshotId()).to.eq(3);
+      expect((await attentionVote.proposals(1)).weightSnapshotId).to.eq(0);
+      expect((await attentionVote.proposals(3)).weightSnapshotId).to.eq(2);
+    });
+
+    it("counts out-of-range choices as abstentions", async function () {
+      await vote(signers.alice, 1, 7);
+
+      expect(await decryptTally(1)).to.deep.eq({ forWeight: 0n, againstWeight: 0n, abstainWeight: 4n, turnoutWeight: 4n });
+    });
+
+    it("keeps each ballot encrypted per voter", async function () {
+      await vote(signers.alice, 1, AGAINST);
+
+      expect(await decryptChoice(1, signers.alice)).to.eq(BigInt(AGAINST));
+    });
+
+    it("reverts with 'Voting ended' after the deadline", async function () {
+      await time.increase(ONE_DAY + 1);
+      await expect(vote(signers.alice, 1, FOR)).to.be.revertedWith("Voting ended");
+    });
+
+    it("records who has voted", async function () {
+      expect(await attentionVote.hasVoted(1, signers.alice.address)).to.eq(false);
+      await vote(signers.alice, 1, FOR);
+
+      expect(await attentionVote.hasVoted(1, signers.alice.address)).to.eq(true);
+      expect(await attentionVote.hasVoted(2, signers.alice.address)).to.eq(false);
+    });
+
+    it("reverts with 'Already voted' instead of counting a second ballot", async function () {
+      await vote(signers.alice, 1, FOR);
+
+      await expect(vote(signers.alice, 1, FOR)).to.be.revertedWith("Already voted");
+      expect((await decryptTally(1)).turnoutWeight).to.eq(4n);
+    });
+  });
+
+  describe("changeVote", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await join(signers.bob, 99);
+      await time.increase(ONE_HOUR);
+      await propose(signers.alice);
+      await propose(signers.bob);
+    });
+
+    it("replaces the previous weighted ballot", async function () {
+      await vote(signers.alice, 2, FOR);
+      await vote(signers.bob, 2, FOR);
+
+      await expect(changeVote(signers.alice, 2, AGAINST))
+        .to.emit(attentionVote, "VoteChanged")
+        .withArgs(signers.alice.address, 2);
+      expect(await decryptTally(2)).to.deep.eq({ forWeight: 10n, againstWeight: 4n, abstainWeight: 0n, turnoutWeight: 14n });
+      expect(await decryptChoice(2, signers.alice)).to.eq(BigInt(AGAINST));
+    });
+
+    it("keeps the tally correct across repeated changes", async function () {
+      await vote(signers.alice, 2, AGAINST);
+      await vote(signers.bob, 2, FOR);
+
+      const expected: Record<number, { forWeight: bigint; againstWeight: bigint; abstainWeight: bigint }> = {
+        [FOR]: { forWeight: 14n, againstWeight: 0n, abstainWeight: 0n },
+        [AGAINST]: { forWeight: 10n, againstWeight: 4n, abstainWeight: 0n },
+        [ABSTAIN]: { forWeight: 10n, againstWeight: 0n, abstainWeight: 4n },
+      };
+      for (const choice of [FOR, FOR, ABSTAIN, AGAINST, FOR]) {
+        await changeVote(signers.alice, 2, choice);
+        expect(await decryptTally(2)).to.deep.eq({ ...expected[choice], turnoutWeight: 14n }, `choice ${choice}`);
+      }
+    });
+
+    it("counts the new ballot at the weight of the original vote", async function () {
+      await vote(signers.alice, 1, AGAINST);
+
+      // With a one-hour half-life, 90 minutes decay alice's score from 17 to about 6, so her live weight drops to 2
+      await attentionVote.connect(signers.deployer).setDecayModel(ONE_HOUR);
+      await time.increase(ONE_HOUR + ONE_HOUR / 2);
+      await propose(signers.alice);
+      expect(await decryptWeight(signers.alice)).to.eq(2n);
+
+      await changeVote(signers.alice, 1, FOR);
+      expect(await decryptTally(1)).to.deep.eq({ forWeight: 4n, againstWeight: 0n, abstainWeight: 0n, turnoutWeight: 4n });
+    });
+
+    it("reverts with 'Not voted' when there is no ballot to replace", async function () {
+      await expect(changeVote(signers.alice, 1, FOR)).to.be.revertedWith("Not voted");
+    });
+
+    it("reverts with 'Voting ended' after the deadline", async function () {
+      await vote(signers.alice, 1, FOR);
+      await time.increase(ONE_DAY + 1);
+
+      await expect(changeVote(signers.alice, 1, AGAINST)).to.be.revertedWith("Voting ended");
+    });
+  });
+
+  describe("delegation", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await join(signers.bob, 99);
+      await join(signers.carol, 0);
+
+      // Weights (4, 10, 0). Carol has never acted, so she has no weight of her own.
+      await propose(signers.alice);
+      await propose(signers.bob);
+    });
+
+    async function delegateTo(member: HardhatEthersSigner, to: HardhatEthersSigner, shareBps: number) {
+      const input = await fhevm.createEncryptedInput(attentionVoteAddress, member.address).add16(shareBps).encrypt();
+      return attentionVote.connect(member).delegate(to.address, input.handles[0], input.inputProof);
+    }
+
+    async function decryptPower(member: HardhatEthersSigner) {
+      const handle = await attentionVote.getVotingPower(member.address);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    }
+
+    async function decryptReceived(member: HardhatEthersSigner) {
+      const handle = await attentionVote.getReceivedWeight(member.address);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    }
+
+    it("moves the delegated share of weight to the delegate", async function () {
+      await expect(delegateTo(signers.bob, signers.carol, 5000))
+        .to.emit(attentionVote, "DelegationChanged")
+        .withArgs(signers.bob.address, ethers.ZeroAddress, signers.carol.address);
+
+      expect(await attentionVote.delegateOf(signers.bob.address)).to.eq(signers.carol.address);
+      expect(await decryptPower(signers.bob)).to.eq(5n);
+      expect(await decryptPower(signers.carol)).to.eq(5n);
+      // The member's own weight is unchanged; only their voting power moves
+      expect(await decryptWeight(signers.bob)).to.eq(10n);
+    });
+
+    it("counts delegated weight in ballots on later proposals", async function () {
+      await delegateTo(signers.bob, signers.carol, 5000);
+      await propose(signers.alice);
+
+      await vote(signers.carol, 3, FOR);
+      await vote(signers.bob, 3, AGAINST);
+
+      expect(await decryptTally(3)).to.deep.eq({ forWeight: 5n, againstWeight: 5n, abstainWeight: 0n, turnoutWeight: 10n });
+    });
+
+    it("leaves proposals created before the delegation alone", async function () {
+      await delegateTo(signers.bob, signers.carol, 10000);
+
+      await vote(signers.bob, 2, FOR);
+      await vote(signers.carol, 2, AGAINST);
+
+      expect(await decryptTally(2)).to.deep.eq({ forWeight: 10n, againstWeight: 0n, abstainWeight: 0n, turnoutWeight: 10n });
+    });
+
+    it("aggregates several delegators into one encrypted sum", async function () {
+      await delegateTo(signers.alice, signers.carol, 10000);
+      await delegateTo(signers.bob, signers.carol, 5000);
+
+      const handle = await attentionVote.getReceivedWeight(signers.carol.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, attentionVoteAddress, signers.carol)).to.eq(9n);
+      expect(await decryptPower(signers.carol)).to.eq(9n);
+    });
+
+    it("keeps each delegated amount private to its delegator", async function () {
+      await delegateTo(signers.alice, signers.carol, 5000);
+      const [, shareBps, delegatedWeight] = await attentionVote.getDelegation(signers.alice.address);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint16, shareBps, attentionVoteAddress, signers.alice)).to.eq(5000n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, delegatedWeight, attentionVoteAddress, signers.alice),
+      ).to.eq(2n);
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, delegatedWeight, attentionVoteAddress, signers.carol);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("follows changes in the delegator's weight", async function () {
+      await delegateTo(signers.bob, signers.carol, 5000);
+
+      // A proposal worth 44 points lifts bob's score from 100 to 144 and his weight to 12
+      await attentionVote.connect(signers.deployer).setActivityWeight(ACTIVITY_PROPOSAL, 44);
+      await propose(signers.bob);
+
+      expect(await decryptReceived(signers.carol)).to.eq(6n);
+      expect(await decryptPower(signers.bob)).to.eq(6n);
+    });
+
+    it("returns the weight when the delegation is revoked", async function () {
+      await delegateTo(signers.bob, signers.carol, 10000);
+
+      await expect(attentionVote.connect(signers.bob).revokeDelegation())
+        .to.emit(attentionVote, "DelegationChanged")
+        .withArgs(signers.bob.address, signers.carol.address, ethers.ZeroAddress);
+
+      expect(await attentionVote.delegateOf(signers.bob.address)).to.eq(ethers.ZeroAddress);
+      expect(await decryptPower(signers.bob)).to.eq(10n);
+      expect(await decryptPower(signers.carol)).to.eq(0n);
+    });
+
+    it("moves the weight to the new delegate on re-delegation", async function () {
+      await delegateTo(signers.bob, signers.carol, 5000);
+
+      await expect(delegateTo(signers.bob, signers.alice, 10000))
+        .to.emit(attentionVote, "DelegationChanged")
+        .withArgs(signers.bob.address, signers.carol.address, signers.alice.address);
+
+      expect(await decryptPower(signers.carol)).to.eq(0n);
+      expect(await decryptPower(signers.alice)).to.eq(14n);
+      expect(await decryptPower(signers.bob)).to.eq(0n);
+    });
+
+    it("does not pass on weight a delegate received", async function () {
+      await delegateTo(signers.alice, signers.bob, 10000);
+      await delegateTo(signers.bob, signers.carol, 10000);
+
+      expect(await decryptPower(signers.carol)).to.eq(10n);
+      expect(await decryptPower(signers.bob)).to.eq(4n);
+      expect(await decryptPower(signers.alice)).to.eq(0n);
+    });
+
+    it("clamps shares above MAX_BPS to the whole weight", async function () {
+      await delegateTo(signers.bob, signers.carol, 65535);
+
+      expect(await decryptPower(signers.carol)).to.eq(10n);
+      expect(await decryptPower(signers.bob)).to.eq(0n);
+    });
+
+    it("reverts with 'Self delegation' when delegating to oneself", async function () {
+      await expect(delegateTo(signers.bob, signers.bob, 5000)).to.be.revertedWith("Self delegation");
+    });
+
+    it("reverts with 'Not a member' for a delegate outside the DAO", async function () {
+      await expect(delegateTo(signers.bob, signers.deployer, 5000)).to.be.revertedWith("Not a member");
+    });
+
+    it("reverts with 'Not delegated' when there is nothing to revoke", async function () {
+      await expect(attentionVote.connect(signers.bob).revokeDelegation()).to.be.revertedWith("Not delegated");
+    });
+  });
+
+  describe("execution", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      // The proposal's action credit takes alice to 16, a weight of 4
+      await propose(signers.alice);
+    });
+
+    it("reverts with 'Voting ongoing' before the deadline", async function () {
+      await expect(attentionVote.connect(signers.alice).executeProposal(1)).to.be.revertedWith("Voting ongoing");
+    });
+
+    it("reverts with 'Outcome pending' before the outcome is revealed", async function () {
+      await vote(signers.alice, 1, FOR);
+      await time.increase(ONE_DAY + 1);
+
+      await expect(attentionVote.connect(signers.alice).executeProposal(1)).to.be.revertedWith("Outcome pending");
+    });
+
+    it("executes a passed proposal once voting has ended and the timelock has passed", async function () {
+      await vote(signers.alice, 1, FOR);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 1);
+      await time.increase(TIMELOCK_DELAY);
+
+      expect(await attentionVote.getProposalStatus(1)).to.deep.eq([true, false]);
+      await expect(attentionVote.connect(signers.alice).executeProposal(1))
+        .to.emit(attentionVote, "ProposalExecuted")
+        .withArgs(1);
+      expect(await attentionVote.getProposalStatus(1)).to.deep.eq([true, true]);
+    });
+
+    it("reverts with 'Already executed' on a second execution", async function () {
+      await vote(signers.alice, 1, FOR);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 1);
+      await time.increase(TIMELOCK_DELAY);
+      await attentionVote.connect(signers.alice).executeProposal(1);
+
+      await expect(attentionVote.connect(signers.alice).executeProposal(1)).to.be.revertedWith("Already executed");
+    });
+
+    it("reveals all tallies together through the decryption oracle", async function () {
+      await vote(signers.alice, 1, ABSTAIN);
+      await time.increase(ONE_DAY + 1);
+
+      await expect(attentionVote.connect(signers.alice).requestVoteCountDecryption(1))
+        .to.emit(attentionVote, "DecryptionRequested")
+        .withArgs(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await attentionVote.queryFilter(attentionVote.filters.TallyRevealed(1));
+      const { forWeight, againstWeight, abstainWeight, turnoutWeight } = revealed.args;
+      expect({ forWeight, againstWeight, abstainWeight, turnoutWeight }).to.deep.eq({
+        forWeight: 0n,
+        againstWeight: 0n,
+        abstainWeight: 4n,
+        turnoutWeight: 4n,
+      });
+    });
+
+    it("stores the revealed tally for later reads", async function () {
+      await vote(signers.alice, 1, FOR);
+      expect((await attentionVote.getRevealedTally(1)).revealed).to.eq(false);
+
+      await time.increase(ONE_DAY + 1);
+      await attentionVote.connect(signers.alice).requestVoteCountDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const { revealed, forWeight, againstWeight, abstainWeight, turnoutWeight } = await attentionVote.getRevealedTally(1);
+      expect({ revealed, forWeight, againstWeight, abstainWeight, turnoutWeight }).to.deep.eq({
+        revealed: true,
+        forWeight: 4n,
+        againstWeight: 0n,
+        abstainWeight: 0n,
+        turnoutWeight: 4n,
+      });
+    });
+
+    it("reverts with 'Voting ongoing' when the tally is requested early", async function () {
+      await expect(attentionVote.connect(signers.alice).requestVoteCountDecryption(1)).to.be.revertedWith(
+        "Voting ongoing",
+      );
+    });
+
+    it("reverts with 'Tally revealed' once the tally is public", async function () {
+      await time.increase(ONE_DAY + 1);
+      await attentionVote.connect(signers.alice).requestVoteCountDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(attentionVote.connect(signers.alice).requestVoteCountDecryption(1)).to.be.revertedWith(
+        "Tally revealed",
+      );
+    });
+  });
+
+  describe("proposal actions", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await signers.deployer.sendTransaction({ to: attentionVoteAddress, value: ethers.parseEther("1") });
+    });
+
+    const thresholdsAction = (quorumBps: number, approvalBps: number) =>
+      encodeAction(AttentionVote_FHE__factory.abi, attentionVoteAddress, "setThresholds(uint16,uint16)", [
+        String(quorumBps),
+        String(approvalBps),
+      ]);
+
+    // Alice holds all the eligible weight, so her ballot alone decides the outcome
+    async function decide(actions: ProposalAction[], choice = FOR) {
+      await propose(signers.alice, ONE_DAY, METADATA_HASH, actions);
+      const proposalId = Number(await attentionVote.proposalCount());
+      await vote(signers.alice, proposalId, choice);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, proposalId);
+      return proposalId;
+    }
+
+    it("stores the actions bound at creation", async function () {
+      const actions = [transferAction(signers.carol.address, 5n), thresholdsAction(3000, 6000)];
+      await propose(signers.alice, ONE_DAY, METADATA_HASH, actions);
+
+      const stored = await attentionVote.getActions(1);
+      expect(stored.map(({ target, value, data }) => ({ target, value, data }))).to.deep.eq(actions);
+    });
+
+    it("queues a passing proposal behind the timelock when its outcome is revealed", async function () {
+      const proposalId = await decide([]);
+      const [queued] = await attentionVote.queryFilter(attentionVote.filters.ProposalQueued(proposalId));
+
+      expect(queued.args.eta).to.eq(BigInt((await queued.getBlock()).timestamp + TIMELOCK_DELAY));
+      expect((await attentionVote.proposals(proposalId)).eta).to.eq(queued.args.eta);
+      await expect(attentionVote.connect(signers.alice).executeProposal(proposalId)).to.be.revertedWith(
+        "Timelock active",
+      );
+    });
+
+    it("does not queue a failed proposal", async function () {
+      const proposalId = await decide([], AGAINST);
+
+      expect((await attentionVote.proposals(proposalId)).eta).to.eq(0n);
+      expect(await attentionVote.queryFilter(attentionVote.filters.ProposalQueued(proposalId))).to.deep.eq([]);
+    });
+
+    it("makes each call from the DAO when executed", async function () {
+      await attentionVote.connect(signers.deployer).transferAdmin(attentionVoteAddress);
+      const proposalId = await decide([
+        transferAction(signers.carol.address, ethers.parseEther("0.5")),
+        thresholdsAction(3000, 6000),
+      ]);
+      await time.increase(TIMELOCK_DELAY);
+
+      const execution = attentionVote.connect(signers.alice).executeProposal(proposalId);
+      await expect(execution).to.changeEtherBalances(
+        [attentionVote, signers.carol],
+        [-ethers.parseEther("0.5"), ethers.parseEther("0.5")],
+      );
+      await expect(execution)
+        .to.emit(attentionVote, "ActionExecuted")
+        .withArgs(proposalId, 1, attentionVoteAddress, 0, thresholdsAction(3000, 6000).data);
+      expect([await attentionVote.quorumBps(), await attentionVote.approvalBps()]).to.deep.eq([3000n, 6000n]);
+    });
+
+    it("reverts with 'Action failed' and stays unexecuted when any action reverts", async function () {
+      // The deployer is still admin, so the DAO's own setThresholds call is refused
+      const proposalId = await decide([transferAction(signers.carol.address, 1n), thresholdsAction(3000, 6000)]);
+      await time.increase(TIMELOCK_DELAY);
+
+      await expect(attentionVote.connect(signers.alice).executeProposal(proposalId)).to.be.revertedWith(
+        "Action failed",
+      );
+      expect(await attentionVote.getProposalStatus(proposalId)).to.deep.eq([true, false]);
+    });
+
+    it("reverts with 'Too many actions' above MAX_ACTIONS", async function () {
+      const actions = Array.from({ length: 11 }, () => transferAction(signers.carol.address, 1n));
+
+      await expect(propose(signers.alice, ONE_DAY, METADATA_HASH, actions)).to.be.revertedWith("Too many actions");
+    });
+
+    it("lets the admin change the timelock delay", async function () {
+      await expect(attentionVote.connect(signers.deployer).setTimelockDelay(0))
+        .to.emit(attentionVote, "TimelockDelayUpdated")
+        .withArgs(0);
+      const proposalId = await decide([]);
+
+      await expect(attentionVote.connect(signers.alice).executeProposal(proposalId)).to.emit(
+        attentionVote,
+        "ProposalExecuted",
+      );
+    });
+
+    it("lets the admin hand the admin role to the DAO itself", async function () {
+      await expect(attentionVote.connect(signers.deployer).transferAdmin(attentionVoteAddress))
+        .to.emit(attentionVote, "AdminTransferred")
+        .withArgs(signers.deployer.address, attentionVoteAddress);
+
+      expect(await attentionVote.admin()).to.eq(attentionVoteAddress);
+      await expect(attentionVote.connect(signers.deployer).setTimelockDelay(0)).to.be.revertedWith("Not admin");
+    });
+
+    it("reverts with 'Invalid admin' for the zero address", async function () {
+      await expect(attentionVote.connect(signers.deployer).transferAdmin(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid admin",
+      );
+    });
+
+    it("reverts with 'Not admin' for other callers", async function () {
+      await expect(attentionVote.connect(signers.alice).setTimelockDelay(0)).to.be.revertedWith("Not admin");
+      await expect(attentionVote.connect(signers.alice).transferAdmin(signers.alice.address)).to.be.revertedWith(
+        "Not admin",
+      );
+    });
+  });
+
+  describe("quorum and approval", function () {
+    beforeEach(async function () {
+      await join(signers.alice, 15);
+      await join(signers.bob, 99);
+      await time.increase(ONE_HOUR);
+
+      // Proposal 1 counts alice at 4 and bob at his admission weight of 9, proposal 2 at 4 and 10
+      await propose(signers.alice);
+      await propose(signers.bob);
+    });
+
+    async function decryptEligibleWeight(proposalId: number) {
+      const { encryptedEligibleWeight } = await attentionVote.proposals(proposalId);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedEligibleWeight);
+    }
+
+    async function outcomeOf(proposalId: number) {
+      const { outcomeRevealed, quorumReached, approved } = await attentionVote.proposals(proposalId);
+      return { outcomeRevealed, quorumReached, approved };
+    }
+
+    it("snapshots the total member weight at creation", async function () {
+      expect(await decryptEligibleWeight(1)).to.eq(13n);
+      expect(await decryptEligibleWeight(2)).to.eq(14n);
+    });
+
+    it("passes with quorum and a for majority", async function () {
+      await vote(signers.alice, 2, AGAINST);
+      await vote(signers.bob, 2, FOR);
+      await time.increase(ONE_DAY + 1);
+
+      await expect(attentionVote.connect(signers.alice).requestOutcomeDecryption(2))
+        .to.emit(attentionVote, "OutcomeRequested")
+        .withArgs(2);
+      await fhevm.awaitDecryptionOracle();
+
+      const [revealed] = await attentionVote.queryFilter(attentionVote.filters.OutcomeRevealed(2));
+      expect([revealed.args.quorumReached, revealed.args.approved]).to.deep.eq([true, true]);
+      expect(await outcomeOf(2)).to.deep.eq({ outcomeRevealed: true, quorumReached: true, approved: true });
+      await time.increase(TIMELOCK_DELAY);
+      await expect(attentionVote.connect(signers.alice).executeProposal(2)).to.emit(attentionVote, "ProposalExecuted");
+    });
+
+    it("fails without a for majority and refuses to execute", async function () {
+      await vote(signers.alice, 2, FOR);
+      await vote(signers.bob, 2, AGAINST);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 2);
+
+      expect(await outcomeOf(2)).to.deep.eq({ outcomeRevealed: true, quorumReached: true, approved: false });
+      await expect(attentionVote.connect(signers.alice).executeProposal(2)).to.be.revertedWith("Proposal failed");
+    });
+
+    it("fails without quorum even when every ballot is for", async function () {
+      await attentionVote.connect(signers.deployer).setThresholds(5000, 5000);
+      await propose(signers.alice);
+      await vote(signers.alice, 3, FOR);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 3);
+
+      // 4 of 14 eligible weight is below the 50% quorum
+      expect(await outcomeOf(3)).to.deep.eq({ outcomeRevealed: true, quorumReached: false, approved: true });
+      await expect(attentionVote.connect(signers.alice).executeProposal(3)).to.be.revertedWith("Proposal failed");
+    });
+
+    it("counts abstentions towards quorum but not approval", async function () {
+      await vote(signers.alice, 2, FOR);
+      await vote(signers.bob, 2, ABSTAIN);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 2);
+
+      expect(await outcomeOf(2)).to.deep.eq({ outcomeRevealed: true, quorumReached: true, approved: true });
+    });
+
+    it("keeps the thresholds in force when the proposal was created", async function () {
+      await vote(signers.alice, 2, FOR);
+      await attentionVote.connect(signers.deployer).setThresholds(MAX_QUORUM, 5000);
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 2);
+
+      expect(await outcomeOf(2)).to.deep.eq({ outcomeRevealed: true, quorumReached: true, approved: true });
+    });
+
+    it("reverts with 'Voting ongoing' and 'Outcome revealed' outside the reveal window", async function () {
+      await expect(attentionVote.connect(signers.alice).requestOutcomeDecryption(2)).to.be.revertedWith(
+        "Voting ongoing",
+      );
+
+      await time.increase(ONE_DAY + 1);
+      await revealOutcome(signers.alice, 2);
+      await expect(attentionVote.connect(signers.alice).requestOutcomeDecryption(2)).to.be.revertedWith(
+        "Outcome revealed",
+      );
+    });
+
+    it("restricts thresholds to the admin and to at most 100%", async function () {
+      await expect(attentionVote.connect(signers.alice).setThresholds(1000, 5000)).to.be.revertedWith("Not admin");
+      await expect(attentionVote.connect(signers.deployer).setThresholds(MAX_QUORUM + 1, 5000)).to.be.revertedWith(
+        "Invalid threshold",
+      );
+
+      await expect(attentionVote.connect(signers.deployer).setThresholds(1000, 6000))
+        .to.emit(attentionVote, "ThresholdsUpdated")
+        .withArgs(1000, 6000);
+      expect(await attentionVote.quorumBps()).to.eq(1000);
+      expect(await attentionVote.approvalBps()).to.eq(6000);
+    });
+  });
+});
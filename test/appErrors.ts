@@ -0,0 +1,153 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  AppError,
+  classifyError,
+  decodeRevert,
+  encryptionError,
+  oracleTimeoutError,
+  REVERT_RECOVERIES,
+} from "../src/errors/appErrors";
+import { ProviderPool } from "../src/network/providerPool";
+import { AttentionVote_FHE, AttentionVote_FHE__factory } from "../types";
+
+const sepolia = { name: "Sepolia", currency: "SEP" };
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (e) {
+    return e;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+describe("appErrors", function () {
+  const abi = AttentionVote_FHE__factory.createInterface();
+
+  describe("reverts", function () {
+    let attentionVote: AttentionVote_FHE;
+    let alice: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      // AttentionVote_FHE's constructor needs the fhevm coprocessor, which only the mock provides
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+      [, alice] = await ethers.getSigners();
+      attentionVote = await ((await ethers.getContractFactory("AttentionVote_FHE")) as AttentionVote_FHE__factory).deploy();
+    });
+
+    it("decodes a require reason from a failed transaction", async function () {
+      const error = classifyError(
+        await caught(attentionVote.connect(alice).setAdmissionPolicy(ethers.ZeroAddress, ethers.ZeroHash, 1)),
+        { interfaces: [abi], network: sepolia },
+      );
+
+      expect(error).to.include({
+        kind: "revert",
+        reason: "Not admin",
+        message: "The contract rejected it: Not admin",
+        recovery: REVERT_RECOVERIES["Not admin"],
+      });
+    });
+
+    it("gives reasons without a known recovery a generic one", async function () {
+      const error = classifyError(await caught(attentionVote.setThresholds(20000, 5000)), { interfaces: [abi] });
+
+      expect(error.kind).to.eq("revert");
+      expect(error.reason).to.eq("Invalid threshold");
+      expect(error.recovery).to.contain("current state");
+    });
+  });
+
+  describe("decodeRevert", function () {
+    const walletError = (data: string) => ({
+      code: -32603,
+      message: "Internal JSON-RPC error.",
+      data: { code: 3, message: "execution reverted", data },
+    });
+
+    it("decodes custom errors from the ABIs it is given", function () {
+      const data = abi.encodeErrorResult("InvalidKMSSignatures", []);
+
+      expect(decodeRevert(walletError(data), [abi])).to.eq("InvalidKMSSignatures");
+      expect(decodeRevert(walletError(data))).to.eq(`unknown error ${data.slice(0, 10)}`);
+      expect(classifyError(walletError(data), { interfaces: [abi] }).recovery).to.eq(
+        REVERT_RECOVERIES.InvalidKMSSignatures,
+      );
+    });
+
+    it("decodes Error(string) data without an ABI", function () {
+      const data = new ethers.Interface(["error Error(string)"]).encodeErrorResult("Error", ["Voting ended"]);
+
+      expect(decodeRevert({ info: { error: walletError(data) } })).to.eq("Voting ended");
+    });
+
+    it("falls back to the reason in the message", function () {
+      expect(decodeRevert(new Error('execution reverted: Not a member"'))).to.eq("Not a member");
+      expect(decodeRevert(new Error("reverted with reason string 'Already voted'"))).to.eq("Already voted");
+      expect(decodeRevert(new Error("nonce too low"))).to.eq(null);
+    });
+  });
+
+  describe("classifyError", function () {
+    it("recognises a rejection in the wallet", function () {
+      const ethersRejection = ethers.makeError("user rejected action", "ACTION_REJECTED", {
+        action: "sendTransaction",
+        reason: "rejected",
+      });
+
+      expect(classifyError(ethersRejection).kind).to.eq("userRejected");
+      expect(classifyError({ code: 4001, message: "User denied transaction signature." }).kind).to.eq("userRejected");
+    });
+
+    it("names the currency missing for gas", function () {
+      const error = classifyError(
+        ethers.makeError("insufficient funds for intrinsic transaction cost", "INSUFFICIENT_FUNDS", {
+          transaction: {},
+        }),
+        { network: sepolia },
+      );
+
+      expect(error).to.include({ kind: "insufficientFunds" });
+      expect(error.recovery).to.contain("Add SEP");
+    });
+
+    it("asks for the right network when the wallet is elsewhere", function () {
+      const error = classifyError({ code: 4902, message: "Unrecognized chain ID" }, { network: sepolia });
+
+      expect(error).to.include({ kind: "wrongNetwork", recovery: "Switch your wallet to Sepolia." });
+    });
+
+    it("reports a pool whose endpoints all failed as RPC unavailable", async function () {
+      const pool = new ProviderPool([{ url: "a", provider: null }], {
+        retry: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+      });
+      const error = classifyError(
+        await caught(pool.read(() => Promise.reject(new Error("connection refused")))),
+        { network: sepolia },
+      );
+
+      expect(error).to.include({ kind: "rpcUnavailable", message: "No RPC endpoint for Sepolia answered" });
+    });
+
+    it("keeps the message of anything else and passes app errors through", function () {
+      const unknown = classifyError(new Error("nonce too low"));
+      const timeout = oracleTimeoutError(5);
+
+      expect(unknown).to.include({ kind: "unknown", message: "nonce too low" });
+      expect(classifyError(timeout)).to.eq(timeout);
+      expect(timeout.kind).to.eq("oracleTimeout");
+    });
+
+    it("wraps relayer failures as encryption failures", function () {
+      const error = encryptionError("Encryption", new Error("Relayer didn't respond"));
+
+      expect(error).to.be.instanceOf(AppError);
+      expect(error).to.include({ kind: "encryptionFailed", message: "Encryption failed: Relayer didn't respond" });
+    });
+  });
+});
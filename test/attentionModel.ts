@@ -0,0 +1,61 @@
+import { expect } from "chai";
+
+import {
+  decayScore,
+  DecayModel,
+  DEFAULT_DECAY_MODEL,
+  scoreAfterActivity,
+} from "../src/attention/attentionModel";
+
+const HOUR = 3600;
+const model: DecayModel = { halfLife: 10 * HOUR };
+
+describe("attentionModel", function () {
+  describe("decayScore", function () {
+    it("keeps the score when no time has passed", function () {
+      expect(decayScore(1000n, 0, model)).to.eq(1000n);
+    });
+
+    it("halves the score once per half-life", function () {
+      expect(decayScore(1000n, 10 * HOUR, model)).to.eq(500n);
+      expect(decayScore(1000n, 30 * HOUR, model)).to.eq(125n);
+    });
+
+    it("decays linearly between halvings", function () {
+      expect(decayScore(1000n, 5 * HOUR, model)).to.eq(750n);
+      expect(decayScore(1000n, 15 * HOUR, model)).to.eq(375n);
+    });
+
+    it("rounds the loss down", function () {
+      // 7 loses 1.75
+      expect(decayScore(7n, 5 * HOUR, model)).to.eq(6n);
+    });
+
+    it("reaches zero after 32 half-lives", function () {
+      expect(decayScore(0xffffffffn, 32 * 10 * HOUR, model)).to.eq(0n);
+    });
+
+    it("rejects a non-positive half-life", function () {
+      expect(() => decayScore(1n, 1, { halfLife: 0 })).to.throw("Half-life must be positive");
+    });
+  });
+
+  describe("scoreAfterActivity", function () {
+    it("credits the activity at its weight after decaying", function () {
+      expect(scoreAfterActivity(1000n, 10 * HOUR, model, 3)).to.eq(503n);
+    });
+
+    it("multiplies the weight by the amount", function () {
+      expect(scoreAfterActivity(1000n, 10 * HOUR, model, 3, 4n)).to.eq(512n);
+    });
+
+    it("barely decays within an hour at the default half-life", function () {
+      expect(scoreAfterActivity(15n, HOUR, DEFAULT_DECAY_MODEL, 1)).to.eq(16n);
+    });
+
+    it("wraps like euint32 arithmetic", function () {
+      expect(scoreAfterActivity(0xffffffffn, 0, model, 3)).to.eq(2n);
+      expect(scoreAfterActivity(0n, 0, model, 0x10000, 0x10000n)).to.eq(0n);
+    });
+  });
+});
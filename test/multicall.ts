@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { MulticallRunner } from "../src/network/multicall";
+import {
+  AttentionVote_FHE,
+  AttentionVote_FHE__factory,
+  MockCredentialVerifier__factory,
+  Multicall3,
+  Multicall3__factory,
+} from "../types";
+
+describe("multicall", function () {
+  let attentionVote: AttentionVote_FHE;
+  let multicall: Multicall3;
+  let runner: MulticallRunner;
+  let batched: AttentionVote_FHE;
+
+  beforeEach(async function () {
+    // AttentionVote_FHE's constructor needs the fhevm coprocessor, which only the mock provides
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    attentionVote = await ((await ethers.getContractFactory("AttentionVote_FHE")) as AttentionVote_FHE__factory).deploy();
+    multicall = await ((await ethers.getContractFactory("Multicall3")) as Multicall3__factory).deploy();
+    runner = new MulticallRunner(ethers.provider, await multicall.getAddress());
+    batched = attentionVote.connect(runner);
+  });
+
+  it("answers reads made together from one aggregate3 call", async function () {
+    const reads = (contract: AttentionVote_FHE) =>
+      Promise.all([
+        contract.activityTypeCount(),
+        contract.proposalCount(),
+        contract.activityTypes(0),
+        contract.admissionProofId(ethers.ZeroAddress),
+      ]);
+
+    expect(await reads(batched)).to.deep.eq(await reads(attentionVote));
+    expect(runner.stats).to.deep.eq({ calls: 4, requests: 1 });
+  });
+
+  it("rethrows a failed call with its revert reason decoded and answers the rest", async function () {
+    const verifierFactory = (await ethers.getContractFactory("MockCredentialVerifier")) as MockCredentialVerifier__factory;
+    const verifier = await verifierFactory.deploy();
+    await attentionVote.setAdmissionPolicy(await verifier.getAddress(), ethers.id("kyc"), 100);
+
+    const [join, count] = await Promise.allSettled([
+      batched.joinDAO.staticCall(ethers.ZeroHash),
+      batched.activityTypeCount(),
+    ]);
+
+    expect(join.status).to.eq("rejected");
+    await expect(Promise.reject((join as PromiseRejectedResult).reason)).to.be.revertedWith("Wrong proof id");
+    expect(count).to.deep.eq({ status: "fulfilled", value: await attentionVote.activityTypeCount() });
+    expect(runner.stats.requests).to.eq(1);
+  });
+
+  it("batches separately per block tag", async function () {
+    const block = await ethers.provider.getBlockNumber();
+
+    await Promise.all([
+      batched.proposalCount(),
+      batched.activityTypeCount(),
+      batched.proposalCount({ blockTag: block }),
+      batched.activityTypeCount({ blockTag: block }),
+    ]);
+
+    expect(runner.stats).to.deep.eq({ calls: 4, requests: 2 });
+  });
+
+  it("sends calls with a sender on their own", async function () {
+    const [alice] = await ethers.getSigners();
+
+    await Promise.all([batched.proposalCount({ from: alice.address }), batched.proposalCount()]);
+
+    expect(runner.stats).to.deep.eq({ calls: 2, requests: 2 });
+  });
+
+  it("reports a network without the multicall contract", async function () {
+    const missing = attentionVote.connect(new MulticallRunner(ethers.provider, ethers.Wallet.createRandom().address));
+
+    await expect(Promise.all([missing.proposalCount(), missing.activityTypeCount()])).to.be.rejectedWith(
+      "No Multicall3 contract at",
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from "chai";
+
+import {
+  addChainParameters,
+  applyNetworkEnv,
+  defaultNetworkOf,
+  explorerLink,
+  LOCAL_CHAIN_ID,
+  networkForChain,
+  parseNetworkRegistry,
+} from "../src/network/networks";
+import { MULTICALL3_ADDRESS } from "../src/network/multicall";
+
+const DAO = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+const config = {
+  defaultNetwork: "sepolia",
+  networks: {
+    sepolia: {
+      name: "Sepolia",
+      chainId: 11155111,
+      rpcUrls: ["https://rpc.sepolia.org", "https://eth-sepolia.public.blastapi.io"],
+      explorerUrl: "https://sepolia.etherscan.io/",
+      currency: "SEP",
+      contracts: { attentionVote: DAO.toLowerCase(), multicall3: MULTICALL3_ADDRESS },
+      deployBlock: 100,
+      relayer: "sepolia",
+    },
+    localhost: {
+      name: "Hardhat",
+      chainId: LOCAL_CHAIN_ID,
+      rpcUrls: ["http://127.0.0.1:8545"],
+      explorerUrl: null,
+      contracts: { attentionVote: "" },
+    },
+  },
+};
+
+describe("networks", function () {
+  describe("parseNetworkRegistry", function () {
+    it("reads every network with its defaults filled in", function () {
+      const registry = parseNetworkRegistry(config);
+
+      expect(registry.defaultNetwork).to.eq("sepolia");
+      expect(registry.networks.sepolia.contracts).to.deep.eq({ attentionVote: DAO, multicall3: MULTICALL3_ADDRESS });
+      expect(registry.networks.sepolia.explorerUrl).to.eq("https://sepolia.etherscan.io");
+      expect(registry.networks.localhost).to.deep.eq({
+        key: "localhost",
+        name: "Hardhat",
+        chainId: LOCAL_CHAIN_ID,
+        rpcUrls: ["http://127.0.0.1:8545"],
+        explorerUrl: null,
+        currency: "ETH",
+        contracts: { attentionVote: null, multicall3: null },
+        deployBlock: null,
+        relayer: null,
+      });
+    });
+
+    it("names the field it rejects", function () {
+      const withNetwork = (network: object) => ({ networks: { sepolia: { ...config.networks.sepolia, ...network } } });
+
+      expect(() => parseNetworkRegistry(withNetwork({ chainId: "11155111" }))).to.throw(
+        "networks.sepolia.chainId: expected a positive integer",
+      );
+      expect(() => parseNetworkRegistry(withNetwork({ rpcUrls: [] }))).to.throw(
+        "networks.sepolia.rpcUrls: expected at least one RPC URL",
+      );
+      expect(() => parseNetworkRegistry(withNetwork({ contracts: { attentionVote: "0x12" } }))).to.throw(
+        'networks.sepolia.contracts.attentionVote: invalid address "0x12"',
+      );
+      expect(() => parseNetworkRegistry(withNetwork({ relayer: "mainnet" }))).to.throw("networks.sepolia.relayer");
+    });
+
+    it("rejects two networks on one chain and an unknown default", function () {
+      expect(() =>
+        parseNetworkRegistry({ networks: { ...config.networks, anvil: { ...config.networks.localhost } } }),
+      ).to.throw(`networks.anvil.chainId: ${LOCAL_CHAIN_ID} is already used by localhost`);
+      expect(() => parseNetworkRegistry({ ...config, defaultNetwork: "mainnet" })).to.throw(
+        'defaultNetwork: unknown network "mainnet"',
+      );
+    });
+  });
+
+  describe("applyNetworkEnv", function () {
+    it("overrides the default network, RPC list and addresses", function () {
+      const registry = applyNetworkEnv(parseNetworkRegistry(config), {
+        VITE_NETWORK: "localhost",
+        VITE_SEPOLIA_RPC_URLS: "https://sepolia.infura.io/v3/key, https://rpc.sepolia.org",
+        VITE_LOCALHOST_ATTENTION_VOTE: DAO,
+        VITE_LOCALHOST_MULTICALL3: MULTICALL3_ADDRESS,
+        VITE_LOCALHOST_DEPLOY_BLOCK: "12",
+      });
+
+      expect(defaultNetworkOf(registry).key).to.eq("localhost");
+      expect(registry.networks.sepolia.rpcUrls).to.deep.eq(["https://sepolia.infura.io/v3/key", "https://rpc.sepolia.org"]);
+      expect(registry.networks.localhost.contracts).to.deep.eq({ attentionVote: DAO, multicall3: MULTICALL3_ADDRESS });
+      expect(registry.networks.localhost.deployBlock).to.eq(12);
+      expect(registry.networks.sepolia.deployBlock).to.eq(100);
+    });
+
+    it("leaves the config file's values when nothing is set", function () {
+      const registry = parseNetworkRegistry(config);
+
+      expect(applyNetworkEnv(registry, {})).to.deep.eq(registry);
+    });
+
+    it("rejects an unknown network", function () {
+      expect(() => applyNetworkEnv(parseNetworkRegistry(config), { VITE_NETWORK: "mainnet" })).to.throw(
+        'VITE_NETWORK: unknown network "mainnet"',
+      );
+    });
+
+    it("rejects a deploy block that is not a block number", function () {
+      expect(() => applyNetworkEnv(parseNetworkRegistry(config), { VITE_SEPOLIA_DEPLOY_BLOCK: "latest" })).to.throw(
+        "VITE_SEPOLIA_DEPLOY_BLOCK: expected a block number",
+      );
+    });
+  });
+
+  describe("lookups", function () {
+    const registry = parseNetworkRegistry(config);
+
+    it("finds the network for a wallet's chain", function () {
+      expect(networkForChain(registry, LOCAL_CHAIN_ID)?.key).to.eq("localhost");
+      expect(networkForChain(registry, 1)).to.eq(null);
+    });
+
+    it("links to the explorer only where there is one", function () {
+      expect(explorerLink(registry.networks.sepolia, "tx", "0xabc")).to.eq("https://sepolia.etherscan.io/tx/0xabc");
+      expect(explorerLink(registry.networks.localhost, "block", 7)).to.eq(null);
+    });
+
+    it("builds wallet_addEthereumChain parameters", function () {
+      expect(addChainParameters(registry.networks.localhost)).to.deep.eq({
+        chainId: "0x7a69",
+        chainName: "Hardhat",
+        nativeCurrency: { name: "ETH", symbol: "ETH", decimals: 18 },
+        rpcUrls: ["http://127.0.0.1:8545"],
+        blockExplorerUrls: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { JsonRpcPayload, JsonRpcProvider, Network } from "ethers";
+import { ethers, fhevm, network } from "hardhat";
+
+import { LOCAL_CHAIN_ID } from "../src/network/networks";
+import { PooledRpcProvider } from "../src/network/pooledRpcProvider";
+import { ProviderPool } from "../src/network/providerPool";
+import { AttentionVote_FHE, AttentionVote_FHE__factory } from "../types";
+
+// One RPC endpoint in front of the hardhat node. Like a real endpoint, it only
+// knows the filter ids that were installed through it.
+class Endpoint {
+  down = false;
+  methods: string[] = [];
+  private readonly filters = new Set<string>();
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]) {
+    if (this.down) {
+      throw new Error("connection refused");
+    }
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(
+      requests.map(async ({ id, method, params }) => {
+        this.methods.push(method);
+        const args = params as unknown[];
+        if (method === "eth_getFilterChanges" && !this.filters.has(args[0] as string)) {
+          return { id, error: { code: -32000, message: "filter not found" } };
+        }
+        const result = await network.provider.send(method, args);
+        if (method === "eth_newFilter") {
+          this.filters.add(result);
+        }
+        return { id, result };
+      }),
+    );
+  }
+}
+
+async function waitFor(check: () => boolean) {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  expect(check()).to.eq(true);
+}
+
+describe("PooledRpcProvider", function () {
+  let attentionVote: AttentionVote_FHE;
+
+  beforeEach(async function () {
+    // AttentionVote_FHE's constructor needs the fhevm coprocessor, which only the mock provides
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    attentionVote = await ((await ethers.getContractFactory("AttentionVote_FHE")) as AttentionVote_FHE__factory).deploy();
+  });
+
+  it("keeps delivering events after failing over to another endpoint", async function () {
+    const [first, second] = [new Endpoint(), new Endpoint()];
+    const pool = new ProviderPool(
+      [
+        { url: "first", provider: first as unknown as JsonRpcProvider },
+        { url: "second", provider: second as unknown as JsonRpcProvider },
+      ],
+      { sleep: async () => {} },
+    );
+    const provider = new PooledRpcProvider(pool, new Network("hardhat", LOCAL_CHAIN_ID), 20);
+
+    const halfLives: bigint[] = [];
+    const watched = attentionVote.connect(provider);
+    await watched.on(watched.filters.DecayModelUpdated, (halfLife: bigint) => {
+      halfLives.push(halfLife);
+    });
+
+    try {
+      await attentionVote.setDecayModel(100);
+      await waitFor(() => halfLives.length === 1);
+
+      first.down = true;
+      await attentionVote.setDecayModel(200);
+      await waitFor(() => halfLives.length === 2);
+    } finally {
+      await watched.removeAllListeners();
+      provider.destroy();
+    }
+
+    expect(halfLives).to.deep.eq([100n, 200n]);
+    expect(second.methods).to.include("eth_getLogs");
+    for (const method of [...first.methods, ...second.methods]) {
+      expect(method).to.not.match(/Filter/);
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  callableFunctions,
+  decodeAction,
+  describeAction,
+  encodeAction,
+  KnownAbi,
+  parseArgument,
+  transferAction,
+} from "../src/execution/proposalActions";
+import { AttentionVote_FHE__factory } from "../types";
+
+const DAO = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const OTHER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const KNOWN: KnownAbi[] = [{ name: "AttentionVote_FHE", abi: AttentionVote_FHE__factory.abi, address: DAO }];
+
+describe("proposalActions", function () {
+  describe("encodeAction", function () {
+    it("encodes a call from form input", function () {
+      const action = encodeAction(AttentionVote_FHE__factory.abi, DAO, "setThresholds(uint16,uint16)", ["3000", "6000"]);
+      const iface = new ethers.Interface(AttentionVote_FHE__factory.abi);
+
+      expect(action).to.deep.eq({
+        target: DAO,
+        value: 0n,
+        data: iface.encodeFunctionData("setThresholds", [3000, 6000]),
+      });
+    });
+
+    it("rejects an argument count that does not match the function", function () {
+      expect(() => encodeAction(AttentionVote_FHE__factory.abi, DAO, "setThresholds(uint16,uint16)", ["3000"])).to.throw(
+        "setThresholds takes 2 arguments, got 1",
+      );
+    });
+
+    it("rejects an invalid target", function () {
+      expect(() => transferAction("0x1234", 1n)).to.throw('Invalid target address "0x1234"');
+    });
+  });
+
+  describe("parseArgument", function () {
+    const param = (type: string, name = "x") => ethers.ParamType.from(`${type} ${name}`);
+
+    it("parses integers, booleans and addresses", function () {
+      expect(parseArgument(param("uint256"), " 42 ")).to.eq(42n);
+      expect(parseArgument(param("bool"), "true")).to.eq(true);
+      expect(parseArgument(param("address"), ALICE)).to.eq(ALICE);
+    });
+
+    it("parses arrays and tuples as JSON", function () {
+      expect(parseArgument(param("uint16[]"), "[1, 2]")).to.deep.eq([1, 2]);
+    });
+
+    it("names the argument it could not parse", function () {
+      expect(() => parseArgument(param("uint32", "weight"), "lots")).to.throw('weight: expected an integer, got "lots"');
+      expect(() => parseArgument(param("address", "to"), "0x12")).to.throw('to: invalid address "0x12"');
+      expect(() => parseArgument(param("bool", "allowed"), "yes")).to.throw("allowed: expected true or false");
+    });
+  });
+
+  describe("decodeAction", function () {
+    it("decodes calldata against the known ABIs", function () {
+      const action = encodeAction(AttentionVote_FHE__factory.abi, DAO, "setReporter(address,bool)", [ALICE, "true"]);
+      const decoded = decodeAction(action, KNOWN);
+
+      expect(decoded.contract).to.eq("AttentionVote_FHE");
+      expect(decoded.signature).to.eq("setReporter(address,bool)");
+      expect(decoded.args).to.deep.eq([
+        { name: "reporter", type: "address", value: ALICE },
+        { name: "allowed", type: "bool", value: "true" },
+      ]);
+      expect(describeAction(decoded)).to.eq(`AttentionVote_FHE.setReporter(reporter: ${ALICE}, allowed: true) on ${DAO}`);
+    });
+
+    it("leaves unknown calldata raw", function () {
+      const decoded = decodeAction({ target: DAO, value: 0n, data: "0xdeadbeef" }, KNOWN);
+
+      expect(decoded.signature).to.eq(null);
+      expect(describeAction(decoded)).to.eq(`Call ${DAO} with 0xdeadbeef`);
+    });
+
+    it("names the contract only for its own deployment when selectors collide", function () {
+      const lookalike: KnownAbi = { name: "Lookalike", abi: ["function setReporter(address who, bool on)"], address: ALICE };
+      const action = encodeAction(AttentionVote_FHE__factory.abi, DAO, "setReporter(address,bool)", [ALICE, "true"]);
+
+      expect(decodeAction(action, [lookalike, ...KNOWN]).contract).to.eq("AttentionVote_FHE");
+
+      const elsewhere = decodeAction({ ...action, target: OTHER }, [lookalike, ...KNOWN]);
+      expect(elsewhere.contract).to.eq(null);
+      expect(describeAction(elsewhere)).to.eq(`setReporter(who: ${ALICE}, on: true) on unverified contract ${OTHER}`);
+
+      const setActivityWeight = encodeAction(AttentionVote_FHE__factory.abi, ALICE, "setActivityWeight(uint256,uint32)", [
+        "2",
+        "3",
+      ]);
+      expect(decodeAction(setActivityWeight, [lookalike, ...KNOWN]).signature).to.eq(null);
+    });
+
+    it("leaves calldata with a known selector but truncated arguments raw", function () {
+      const action = encodeAction(AttentionVote_FHE__factory.abi, DAO, "setReporter(address,bool)", [ALICE, "true"]);
+      const truncated = { ...action, data: ethers.dataSlice(action.data, 0, 20) };
+
+      const decoded = decodeAction(truncated, KNOWN);
+      expect(decoded.signature).to.eq(null);
+      expect(describeAction(decoded)).to.eq(`Call ${DAO} with ${truncated.data}`);
+    });
+
+    it("describes plain transfers", function () {
+      const decoded = decodeAction(transferAction(ALICE, ethers.parseEther("1.5")), KNOWN);
+
+      expect(describeAction(decoded)).to.eq(`Transfer to ${ALICE} sending 1.5 ETH`);
+    });
+  });
+
+  describe("callableFunctions", function () {
+    it("lists only state-changing functions", function () {
+      const names = callableFunctions(AttentionVote_FHE__factory.abi).map((fragment) => fragment.name);
+
+      expect(names).to.include("setThresholds");
+      expect(names).not.to.include("quorumBps");
+      expect(names).not.to.include("getActions");
+    });
+  });
+});
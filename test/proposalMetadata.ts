@@ -0,0 +1,81 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { FileContentStore } from "../src/metadata/fileContentStore";
+import {
+  canonicalizeProposal,
+  hashProposal,
+  loadProposal,
+  MemoryContentStore,
+  ProposalDocument,
+  publishProposal,
+} from "../src/metadata/proposalMetadata";
+
+const document: ProposalDocument = {
+  title: "Adopt the new weight curve",
+  body: "Switch from sqrt to capped-linear weighting.",
+  options: ["For", "Against", "Abstain"],
+  links: ["https://forum.example/t/7"],
+};
+
+describe("proposalMetadata", function () {
+  describe("canonicalizeProposal", function () {
+    it("produces sorted keys without whitespace", function () {
+      expect(canonicalizeProposal({ title: "T", body: "B", options: ["x"], links: [] })).to.eq(
+        '{"body":"B","links":[],"options":["x"],"title":"T","version":1}',
+      );
+    });
+
+    it("ignores surrounding whitespace, empty entries and Unicode composition", async function () {
+      const messy: ProposalDocument = {
+        title: `  ${document.title}\n`,
+        body: document.body,
+        options: ["For ", "", "Against", " Abstain"],
+        links: [...document.links, "  "],
+      };
+      expect(await hashProposal(messy)).to.eq(await hashProposal(document));
+
+      const composed = { ...document, title: "Caf\u00e9" };
+      const decomposed = { ...document, title: "Cafe\u0301" };
+      expect(await hashProposal(composed)).to.eq(await hashProposal(decomposed));
+    });
+
+    it("changes the hash when content changes", async function () {
+      const edited = { ...document, options: ["For", "Against"] };
+      expect(await hashProposal(edited)).to.not.eq(await hashProposal(document));
+    });
+
+    it("rejects a blank title", function () {
+      expect(() => canonicalizeProposal({ ...document, title: "   " })).to.throw("Proposal title is required");
+    });
+  });
+
+  describe("content stores", function () {
+    it("round-trips through the in-memory store", async function () {
+      const store = new MemoryContentStore();
+      const hash = await publishProposal(store, document);
+
+      expect(hash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await loadProposal(store, hash)).to.deep.eq({ document, verified: true });
+    });
+
+    it("returns null for unknown hashes", async function () {
+      expect(await loadProposal(new MemoryContentStore(), `0x${"00".repeat(32)}`)).to.eq(null);
+    });
+
+    it("round-trips through the filesystem store", async function () {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "proposal-metadata-"));
+      try {
+        const store = new FileContentStore(dir);
+        const hash = await publishProposal(store, document);
+
+        expect(await fs.readdir(dir)).to.deep.eq([`${hash}.json`]);
+        expect(await loadProposal(new FileContentStore(dir), hash)).to.deep.eq({ document, verified: true });
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { expect } from "chai";
+
+import { ProviderPool, ProviderPoolOptions, retry, retryDelay, withTimeout } from "../src/network/providerPool";
+
+// An endpoint whose answers the test scripts: a latency in ms, or an error
+type Answer = number | Error;
+
+class FakeEndpoint {
+  calls = 0;
+  constructor(
+    readonly name: string,
+    private readonly clock: { now: number },
+    private readonly answers: Answer[],
+  ) {}
+
+  async call(): Promise<string> {
+    const answer = this.answers[Math.min(this.calls++, this.answers.length - 1)];
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    this.clock.now += answer;
+    return this.name;
+  }
+}
+
+describe("providerPool", function () {
+  let clock: { now: number };
+  let sleeps: number[];
+
+  beforeEach(function () {
+    clock = { now: 0 };
+    sleeps = [];
+  });
+
+  const poolOf = (endpoints: FakeEndpoint[], options: Partial<ProviderPoolOptions> = {}) =>
+    new ProviderPool(
+      endpoints.map((provider) => ({ url: provider.name, provider })),
+      {
+        now: () => clock.now,
+        sleep: async (ms) => {
+          sleeps.push(ms);
+        },
+        ...options,
+      },
+    );
+
+  const down = () => new Error("connection refused");
+
+  describe("read", function () {
+    it("routes reads to the fastest endpoint once it has measured them", async function () {
+      const slow = new FakeEndpoint("slow", clock, [300]);
+      const fast = new FakeEndpoint("fast", clock, [50]);
+      const pool = poolOf([slow, fast], { unknownLatencyMs: 0 });
+
+      // Untried endpoints tie, so the configured order decides first
+      expect(await pool.read((p) => p.call())).to.eq("slow");
+      expect(await pool.read((p) => p.call())).to.eq("fast");
+      expect(await pool.read((p) => p.call())).to.eq("fast");
+      expect(pool.health().map((h) => [h.url, h.latencyMs])).to.deep.eq([
+        ["fast", 50],
+        ["slow", 300],
+      ]);
+    });
+
+    it("fails over within a read and ranks the failing endpoint lower", async function () {
+      const flaky = new FakeEndpoint("flaky", clock, [down(), 10]);
+      const backup = new FakeEndpoint("backup", clock, [100]);
+      const pool = poolOf([flaky, backup]);
+
+      expect(await pool.read((p) => p.call())).to.eq("backup");
+
+      const [first, second] = pool.health();
+      expect(first.url).to.eq("backup");
+      expect(second).to.include({ url: "flaky", status: "degraded", errorRate: 1, lastError: "connection refused" });
+    });
+
+    it("cools an endpoint down after consecutive failures and lets it recover", async function () {
+      const flaky = new FakeEndpoint("flaky", clock, [down(), down(), 10]);
+      const backup = new FakeEndpoint("backup", clock, [down(), 100]);
+      const pool = poolOf([flaky, backup], { failureThreshold: 2, cooldownMs: 1000 });
+
+      // Both fail on the first pass; the retry finds backup
+      expect(await pool.read((p) => p.call())).to.eq("backup");
+      expect(sleeps).to.deep.eq([1000]);
+      expect(pool.health()[1]).to.include({ url: "flaky", status: "cooling" });
+
+      clock.now += 1000;
+      const recovered = pool.health().find((h) => h.url === "flaky");
+      expect(recovered).to.include({ status: "degraded", coolingUntil: null });
+    });
+
+    it("backs off between passes and reports the last error", async function () {
+      const a = new FakeEndpoint("a", clock, [down()]);
+      const b = new FakeEndpoint("b", clock, [down()]);
+      const pool = poolOf([a, b], { retry: { retries: 2, baseDelayMs: 100, maxDelayMs: 150 } });
+
+      await expect(pool.read((p) => p.call())).to.be.rejectedWith("All 2 RPC endpoints failed: connection refused");
+      expect(sleeps).to.deep.eq([100, 150]);
+      expect(a.calls + b.calls).to.eq(6);
+    });
+
+    it("passes request errors through without failing over", async function () {
+      const a = new FakeEndpoint("a", clock, [new Error("execution reverted: Not a member")]);
+      const b = new FakeEndpoint("b", clock, [10]);
+      const pool = poolOf([a, b], { isEndpointError: (e) => !(e as Error).message.startsWith("execution reverted") });
+
+      await expect(pool.read((p) => p.call())).to.be.rejectedWith("Not a member");
+      expect(b.calls).to.eq(0);
+      expect(pool.health().find((h) => h.url === "a")).to.include({ status: "healthy", failures: 0 });
+    });
+
+    it("asks several endpoints at once and records each answer", async function () {
+      const a = new FakeEndpoint("a", clock, [10]);
+      const b = new FakeEndpoint("b", clock, [down()]);
+      const c = new FakeEndpoint("c", clock, [10]);
+      const pool = poolOf([a, b, c]);
+
+      const answers = await pool.readEach(2, (p) => p.call());
+
+      expect(answers.map((answer) => [answer.url, answer.ok])).to.deep.eq([
+        ["a", true],
+        ["b", false],
+      ]);
+      expect(c.calls).to.eq(0);
+      expect(sleeps).to.deep.eq([]);
+      expect(pool.health().find((h) => h.url === "b")).to.include({ failures: 1 });
+    });
+
+    it("notifies subscribers after every request", async function () {
+      const pool = poolOf([new FakeEndpoint("a", clock, [10])]);
+      const seen: string[] = [];
+      const unsubscribe = pool.subscribe((health) => seen.push(health[0].status));
+
+      await pool.read((p) => p.call());
+      unsubscribe();
+      await pool.read((p) => p.call());
+
+      expect(seen).to.deep.eq(["healthy"]);
+    });
+  });
+
+  describe("retry", function () {
+    it("retries with exponential backoff up to the cap", async function () {
+      let calls = 0;
+      const result = await retry(
+        async () => {
+          if (++calls < 4) throw down();
+          return calls;
+        },
+        { retries: 3, baseDelayMs: 100, maxDelayMs: 300 },
+        async (ms) => {
+          sleeps.push(ms);
+        },
+      );
+
+      expect(result).to.eq(4);
+      expect(sleeps).to.deep.eq([100, 200, 300]);
+      expect(retryDelay({ retries: 3, baseDelayMs: 100, maxDelayMs: 300 }, 5)).to.eq(300);
+    });
+  });
+
+  describe("withTimeout", function () {
+    it("rejects a request that does not settle in time", async function () {
+      await expect(withTimeout(new Promise(() => {}), 5)).to.be.rejectedWith("Request timed out after 5 ms");
+    });
+  });
+});
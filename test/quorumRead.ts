@@ -0,0 +1,63 @@
+import { expect } from "chai";
+
+import type { EndpointAnswer } from "../src/network/providerPool";
+import { canonicalAnswer, compareAnswers } from "../src/network/quorumRead";
+
+const ok = <T>(url: string, value: T): EndpointAnswer<T> => ({ url, ok: true, value });
+const failed = (url: string, message: string): EndpointAnswer<never> => ({ url, ok: false, error: new Error(message) });
+
+const options = { what: "the status of proposal 3", blockTag: 120 };
+
+describe("quorumRead", function () {
+  it("accepts an answer every endpoint agrees on", function () {
+    const status = { votingEnded: true, isExecuted: false };
+    const result = compareAnswers([ok("a", status), ok("b", { ...status }), ok("c", { ...status })], options);
+
+    expect(result.value).to.deep.eq(status);
+    expect(result.agreeing).to.deep.eq(["a", "b", "c"]);
+    expect(result.dissenting).to.deep.eq([]);
+    expect(result.warning).to.eq(null);
+  });
+
+  it("takes the majority and names the dissenting endpoint", function () {
+    const result = compareAnswers([ok("a", 4n), ok("b", 5n), ok("c", 5n)], { ...options, what: "the proposal count" });
+
+    expect(result.value).to.eq(5n);
+    expect(result.dissenting).to.deep.eq([{ url: "a", answer: '"4"' }]);
+    expect(result.warning).to.eq(
+      'RPC endpoints disagree on the proposal count at block 120: a returned "4"; b, c returned "5". Showing "5".',
+    );
+  });
+
+  it("prefers the healthiest endpoint's answer on a tie", function () {
+    const result = compareAnswers([ok("a", 1), ok("b", 2)], { ...options, label: (url) => url.toUpperCase() });
+
+    expect(result.value).to.eq(1);
+    expect(result.warning).to.contain("A returned 1; B returned 2");
+  });
+
+  it("warns when only one endpoint answered", function () {
+    const result = compareAnswers([failed("a", "timeout"), ok("b", null)], options);
+
+    expect(result.value).to.eq(null);
+    expect(result.dissenting).to.deep.eq([{ url: "a", answer: "error: timeout" }]);
+    expect(result.warning).to.eq("Only b answered the status of proposal 3 at block 120, so it could not be cross-checked.");
+  });
+
+  it("tolerates a failed endpoint while the rest agree", function () {
+    const result = compareAnswers([ok("a", 7), failed("b", "timeout"), ok("c", 7)], options);
+
+    expect(result.value).to.eq(7);
+    expect(result.warning).to.eq(null);
+  });
+
+  it("throws the first error when no endpoint answered", function () {
+    expect(() => compareAnswers([failed("a", "execution reverted"), failed("b", "timeout")], options)).to.throw(
+      "execution reverted",
+    );
+  });
+
+  it("compares bigints by value", function () {
+    expect(canonicalAnswer({ forWeight: 10n })).to.eq(canonicalAnswer({ forWeight: 10n }));
+  });
+});
@@ -0,0 +1,176 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { formatFromPath, parseActivityExport } from "../src/reporter/activityExport";
+import { attestationIdOf, submitActivity } from "../src/reporter/reporter";
+import { AttentionVote_FHE, AttentionVote_FHE__factory } from "../types";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("reporter", function () {
+  describe("parseActivityExport", function () {
+    it("reads CSV with columns in any order", function () {
+      const csv = `member,id,amount,activity\n${ALICE},post-1,2,comment\n\n${ALICE},post-2,1,Comment\n`;
+
+      expect(parseActivityExport(csv, "csv")).to.deep.eq([
+        { id: "post-1", member: ALICE, activity: "comment", amount: 2 },
+        { id: "post-2", member: ALICE, activity: "Comment", amount: 1 },
+      ]);
+    });
+
+    it("reads a JSON array", function () {
+      const json = JSON.stringify([{ id: "call-7", member: ALICE, activity: "attendance", amount: 1 }]);
+
+      expect(parseActivityExport(json, "json")).to.deep.eq([
+        { id: "call-7", member: ALICE, activity: "attendance", amount: 1 },
+      ]);
+    });
+
+    it("names the line of an invalid CSV record", function () {
+      const csv = `id,member,activity,amount\npost-1,${ALICE},comment,1\npost-2,not-an-address,comment,1`;
+
+      expect(() => parseActivityExport(csv, "csv")).to.throw('Line 3: invalid member address "not-an-address"');
+    });
+
+    it("rejects amounts that do not fit a uint32", function () {
+      const json = JSON.stringify([{ id: "a", member: ALICE, activity: "comment", amount: 1.5 }]);
+
+      expect(() => parseActivityExport(json, "json")).to.throw("Record 0: amount must be a uint32");
+    });
+
+    it("rejects a CSV header without the required columns", function () {
+      expect(() => parseActivityExport("id,member\n", "csv")).to.throw("CSV header is missing activity, amount");
+    });
+
+    it("rejects duplicate record ids", function () {
+      const csv = `id,member,activity,amount\npost-1,${ALICE},comment,1\npost-1,${ALICE},comment,1`;
+
+      expect(() => parseActivityExport(csv, "csv")).to.throw('Duplicate record id "post-1"');
+    });
+
+    it("picks the format from the file extension", function () {
+      expect(formatFromPath("exports/forum.CSV")).to.eq("csv");
+      expect(formatFromPath("calls.json")).to.eq("json");
+      expect(() => formatFromPath("activity.xlsx")).to.throw("Unsupported export file");
+    });
+  });
+
+  describe("submitActivity", function () {
+    let attentionVote: AttentionVote_FHE;
+    let admin: HardhatEthersSigner;
+    let reporter: HardhatEthersSigner;
+    let members: HardhatEthersSigner[];
+
+    const createEncryptedInput = (contractAddress: string, userAddress: string) =>
+      fhevm.createEncryptedInput(contractAddress, userAddress);
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+
+      [admin, reporter, ...members] = await ethers.getSigners();
+      const factory = (await ethers.getContractFactory("AttentionVote_FHE")) as AttentionVote_FHE__factory;
+      attentionVote = (await factory.deploy()) as AttentionVote_FHE;
+
+      await attentionVote.connect(admin).registerActivityType("comment", 1);
+      await attentionVote.connect(admin).setReporter(reporter.address, true);
+      for (const member of members.slice(0, 2)) {
+        await attentionVote.connect(member).joinDAO(ethers.ZeroHash);
+      }
+    });
+
+    const records = (ids: string[]) =>
+      ids.map((id, i) => ({ id, member: members[i % 2].address, activity: "comment", amount: i + 1 }));
+
+    async function decryptComments(member: HardhatEthersSigner) {
+      const handle = await attentionVote.getEngagement(member.address, 2);
+      return fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+    }
+
+    it("encrypts and submits records in batches", async function () {
+      const result = await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a", "b", "c"]), {
+        source: "forum",
+        batchSize: 2,
+      });
+
+      expect(result.submitted.map(({ attestations }) => attestations.length)).to.deep.eq([2, 1]);
+      expect(result.skipped).to.deep.eq([]);
+      expect(result.rejected).to.deep.eq([]);
+      // a (1) and c (3) belong to the first member, b (2) to the second
+      expect(await decryptComments(members[0])).to.eq(4n);
+      expect(await decryptComments(members[1])).to.eq(2n);
+    });
+
+    it("skips records attested by an earlier run", async function () {
+      await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a"]), { source: "forum" });
+      const result = await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a", "b"]), {
+        source: "forum",
+      });
+
+      expect(result.skipped.map(({ record }) => record.id)).to.deep.eq(["a"]);
+      expect(await attentionVote.attestationUsed(attestationIdOf("forum", "b"))).to.eq(true);
+      expect(await decryptComments(members[0])).to.eq(1n);
+    });
+
+    it("treats the same record id from another source as a new record", async function () {
+      await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a"]), { source: "forum" });
+      const result = await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a"]), {
+        source: "calls",
+      });
+
+      expect(result.skipped).to.deep.eq([]);
+      expect(await decryptComments(members[0])).to.eq(2n);
+    });
+
+    it("rejects records for non-members and submits the rest", async function () {
+      const outsider = members[2];
+      const result = await submitActivity(
+        attentionVote,
+        reporter,
+        createEncryptedInput,
+        [...records(["a"]), { id: "b", member: outsider.address, activity: "comment", amount: 1 }],
+        { source: "forum" },
+      );
+
+      expect(result.rejected.map(({ record, reason }) => [record.id, reason])).to.deep.eq([["b", "Not a member"]]);
+      expect(await attentionVote.attestationUsed(attestationIdOf("forum", "a"))).to.eq(true);
+      expect(await attentionVote.attestationUsed(attestationIdOf("forum", "b"))).to.eq(false);
+    });
+
+    it("rejects records over the reporter's daily limit", async function () {
+      await attentionVote.connect(admin).setReporterLimits(3, 10);
+      await submitActivity(attentionVote, reporter, createEncryptedInput, records(["a"]), { source: "forum" });
+      const result = await submitActivity(attentionVote, reporter, createEncryptedInput, records(["b", "c", "d"]), {
+        source: "forum",
+        batchSize: 2,
+      });
+
+      expect(result.submitted.flatMap(({ attestations }) => attestations.map(({ record }) => record.id))).to.deep.eq([
+        "b",
+        "c",
+      ]);
+      expect(result.rejected.map(({ record, reason }) => [record.id, reason])).to.deep.eq([
+        ["d", "Daily limit reached"],
+      ]);
+    });
+
+    it("refuses to submit for an account that is not a reporter", async function () {
+      await expect(
+        submitActivity(attentionVote, members[0], createEncryptedInput, records(["a"]), { source: "forum" }),
+      ).to.be.rejectedWith(`${members[0].address} is not a registered reporter`);
+    });
+
+    it("rejects activities that are not registered or not attestable", async function () {
+      for (const activity of ["review", "vote"]) {
+        await expect(
+          submitActivity(attentionVote, reporter, createEncryptedInput, [{ ...records(["a"])[0], activity }], {
+            source: "forum",
+          }),
+        ).to.be.rejectedWith(`"${activity}" is not an attestable activity type`);
+      }
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from "chai";
+
+import { CurveKind, sampleCurve, validateCurve, votingWeight, WeightCurve } from "../src/attention/weightCurves";
+
+const piecewise: WeightCurve = {
+  kind: CurveKind.Piecewise,
+  segments: [
+    { start: 0, slopeBps: 10000 },
+    { start: 10, slopeBps: 5000 },
+    { start: 30, slopeBps: 0 },
+  ],
+};
+
+describe("weightCurves", function () {
+  describe("votingWeight", function () {
+    it("takes the integer square root by default", function () {
+      expect([0n, 1n, 3n, 4n, 99n, 100n].map((score) => votingWeight(score))).to.deep.eq([0n, 1n, 1n, 2n, 9n, 10n]);
+    });
+
+    it("clamps scores above 16 bits before the square root", function () {
+      expect(votingWeight(1_000_000n)).to.eq(255n);
+    });
+
+    it("passes the score through on the linear curve", function () {
+      expect(votingWeight(1_000_000n, { kind: CurveKind.Linear })).to.eq(1_000_000n);
+    });
+
+    it("caps the capped linear curve", function () {
+      const curve: WeightCurve = { kind: CurveKind.CappedLinear, cap: 50 };
+      expect([49n, 50n, 51n].map((score) => votingWeight(score, curve))).to.deep.eq([49n, 50n, 50n]);
+    });
+
+    it("weighs the bit length on the logarithmic curve", function () {
+      const curve: WeightCurve = { kind: CurveKind.Log2, scale: 3 };
+      expect([0n, 1n, 2n, 3n, 4n, 1023n, 1024n, 1_000_000n].map((score) => votingWeight(score, curve))).to.deep.eq([
+        0n,
+        3n,
+        6n,
+        6n,
+        9n,
+        30n,
+        33n,
+        48n,
+      ]);
+    });
+
+    it("sums the piecewise segments, rounding each down", function () {
+      // 10 at full slope, then 7 at half slope = 3.5
+      expect(votingWeight(17n, piecewise)).to.eq(13n);
+      // The last segment has no upper bound but a zero slope
+      expect(votingWeight(1000n, piecewise)).to.eq(20n);
+    });
+  });
+
+  describe("validateCurve", function () {
+    it("accepts the default and well-formed curves", function () {
+      expect(() => validateCurve({ kind: CurveKind.Sqrt })).not.to.throw();
+      expect(() => validateCurve(piecewise)).not.to.throw();
+    });
+
+    it("rejects a zero cap or scale", function () {
+      expect(() => validateCurve({ kind: CurveKind.CappedLinear, cap: 0 })).to.throw("positive cap");
+      expect(() => validateCurve({ kind: CurveKind.Log2, scale: 0 })).to.throw("positive scale");
+    });
+
+    it("rejects malformed piecewise segments", function () {
+      const segments = (...starts: number[]) => starts.map((start) => ({ start, slopeBps: 10000 }));
+      expect(() => validateCurve({ kind: CurveKind.Piecewise, segments: [] })).to.throw("1 to 4 segments");
+      expect(() => validateCurve({ kind: CurveKind.Piecewise, segments: segments(0, 1, 2, 3, 4) })).to.throw(
+        "1 to 4 segments",
+      );
+      expect(() => validateCurve({ kind: CurveKind.Piecewise, segments: segments(1) })).to.throw("start at 0");
+      expect(() => validateCurve({ kind: CurveKind.Piecewise, segments: segments(0, 5, 5) })).to.throw("must increase");
+    });
+  });
+
+  describe("sampleCurve", function () {
+    it("samples from zero to the maximum score inclusive", function () {
+      const samples = sampleCurve({ kind: CurveKind.Linear }, 100, 11);
+
+      expect(samples.map(({ score }) => score)).to.deep.eq([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+      expect(samples.every(({ score, weight }) => score === weight)).to.eq(true);
+    });
+  });
+});
@@ -0,0 +1,2235 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace AttentionVote_FHE {
+  export type AttestationStruct = {
+    member: AddressLike;
+    activityType: BigNumberish;
+    amount: BytesLike;
+    attestationId: BytesLike;
+  };
+
+  export type AttestationStructOutput = [
+    member: string,
+    activityType: bigint,
+    amount: string,
+    attestationId: string
+  ] & {
+    member: string;
+    activityType: bigint;
+    amount: string;
+    attestationId: string;
+  };
+
+  export type ActionStruct = {
+    target: AddressLike;
+    value: BigNumberish;
+    data: BytesLike;
+  };
+
+  export type ActionStructOutput = [
+    target: string,
+    value: bigint,
+    data: string
+  ] & { target: string; value: bigint; data: string };
+
+  export type CurveSegmentStruct = {
+    start: BigNumberish;
+    slopeBps: BigNumberish;
+  };
+
+  export type CurveSegmentStructOutput = [start: bigint, slopeBps: bigint] & {
+    start: bigint;
+    slopeBps: bigint;
+  };
+
+  export type RevealedTallyStruct = {
+    revealed: boolean;
+    forWeight: BigNumberish;
+    againstWeight: BigNumberish;
+    abstainWeight: BigNumberish;
+    turnoutWeight: BigNumberish;
+  };
+
+  export type RevealedTallyStructOutput = [
+    revealed: boolean,
+    forWeight: bigint,
+    againstWeight: bigint,
+    abstainWeight: bigint,
+    turnoutWeight: bigint
+  ] & {
+    revealed: boolean;
+    forWeight: bigint;
+    againstWeight: bigint;
+    abstainWeight: bigint;
+    turnoutWeight: bigint;
+  };
+}
+
+export interface AttentionVote_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ACTIVITY_PROPOSAL"
+      | "ACTIVITY_VOTE"
+      | "CHOICE_ABSTAIN"
+      | "CHOICE_AGAINST"
+      | "CHOICE_FOR"
+      | "MAX_ACTIONS"
+      | "MAX_BPS"
+      | "MAX_CURVE_SEGMENTS"
+      | "activityTypeCount"
+      | "activityTypes"
+      | "admin"
+      | "admissionProofId"
+      | "admissionScore"
+      | "approvalBps"
+      | "attestActivities"
+      | "attestationUsed"
+      | "attestationsPerDay"
+      | "castVote"
+      | "changeVote"
+      | "createProposal"
+      | "credentialVerifier"
+      | "currentSnapshotId"
+      | "curveParam"
+      | "decryptVoteCount"
+      | "delegate"
+      | "delegateOf"
+      | "encryptedVotes"
+      | "executeProposal"
+      | "getActions"
+      | "getBallotWeight"
+      | "getCurveSegments"
+      | "getDelegation"
+      | "getEngagement"
+      | "getProposalStatus"
+      | "getReceivedWeight"
+      | "getRevealedTally"
+      | "getVotingPower"
+      | "halfLife"
+      | "hasVoted"
+      | "joinDAO"
+      | "maxAttestedAmount"
+      | "members"
+      | "proposalCount"
+      | "proposals"
+      | "protocolId"
+      | "quorumBps"
+      | "registerActivityType"
+      | "reporterDailyLimit"
+      | "reporters"
+      | "requestOutcomeDecryption"
+      | "requestVoteCountDecryption"
+      | "requiredCredentialType"
+      | "resolveOutcome"
+      | "revokeDelegation"
+      | "setActivityWeight"
+      | "setAdmissionPolicy"
+      | "setDecayModel"
+      | "setPiecewiseCurve"
+      | "setReporter"
+      | "setReporterLimits"
+      | "setThresholds"
+      | "setTimelockDelay"
+      | "setWeightCurve"
+      | "timelockDelay"
+      | "transferAdmin"
+      | "weightCurve"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ActionExecuted"
+      | "ActivityAttested"
+      | "ActivityTypeRegistered"
+      | "ActivityWeightUpdated"
+      | "AdminTransferred"
+      | "AdmissionPolicyUpdated"
+      | "DecayModelUpdated"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DelegationChanged"
+      | "MemberJoined"
+      | "OutcomeRequested"
+      | "OutcomeRevealed"
+      | "ProposalCreated"
+      | "ProposalExecuted"
+      | "ProposalQueued"
+      | "ReporterLimitsUpdated"
+      | "ReporterUpdated"
+      | "TallyRevealed"
+      | "ThresholdsUpdated"
+      | "TimelockDelayUpdated"
+      | "VoteCast"
+      | "VoteChanged"
+      | "WeightCurveUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ACTIVITY_PROPOSAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ACTIVITY_VOTE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHOICE_ABSTAIN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHOICE_AGAINST",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CHOICE_FOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ACTIONS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_BPS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CURVE_SEGMENTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activityTypeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activityTypes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "admissionProofId",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "admissionScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approvalBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestActivities",
+    values: [AttentionVote_FHE.AttestationStruct[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestationUsed",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attestationsPerDay",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createProposal",
+    values: [BigNumberish, BytesLike, AttentionVote_FHE.ActionStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "credentialVerifier",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentSnapshotId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "curveParam",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptVoteCount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delegate",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delegateOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedVotes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBallotWeight",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurveSegments",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDelegation",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEngagement",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProposalStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReceivedWeight",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedTally",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVotingPower",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "halfLife", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "joinDAO", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "maxAttestedAmount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "members",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "quorumBps", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "registerActivityType",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reporterDailyLimit",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reporters",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestOutcomeDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestVoteCountDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requiredCredentialType",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveOutcome",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeDelegation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setActivityWeight",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAdmissionPolicy",
+    values: [AddressLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecayModel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPiecewiseCurve",
+    values: [AttentionVote_FHE.CurveSegmentStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReporter",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReporterLimits",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setThresholds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTimelockDelay",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setWeightCurve",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "weightCurve",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ACTIVITY_PROPOSAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ACTIVITY_VOTE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CHOICE_ABSTAIN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CHOICE_AGAINST",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "CHOICE_FOR", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ACTIONS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_BPS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CURVE_SEGMENTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activityTypeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activityTypes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "admissionProofId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "admissionScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approvalBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestActivities",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestationUsed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attestationsPerDay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "changeVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "credentialVerifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentSnapshotId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "curveParam", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptVoteCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "delegate", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "delegateOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getActions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBallotWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurveSegments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDelegation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEngagement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProposalStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReceivedWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedTally",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVotingPower",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "halfLife", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "joinDAO", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxAttestedAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "members", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proposals", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "quorumBps", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerActivityType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reporterDailyLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reporters", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestOutcomeDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestVoteCountDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requiredCredentialType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeDelegation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setActivityWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAdmissionPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecayModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPiecewiseCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReporter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReporterLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTimelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setWeightCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "weightCurve",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ActionExecutedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    index: BigNumberish,
+    target: AddressLike,
+    value: BigNumberish,
+    data: BytesLike
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    index: bigint,
+    target: string,
+    value: bigint,
+    data: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    index: bigint;
+    target: string;
+    value: bigint;
+    data: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActivityAttestedEvent {
+  export type InputTuple = [
+    attestationId: BytesLike,
+    reporter: AddressLike,
+    member: AddressLike,
+    activityType: BigNumberish
+  ];
+  export type OutputTuple = [
+    attestationId: string,
+    reporter: string,
+    member: string,
+    activityType: bigint
+  ];
+  export interface OutputObject {
+    attestationId: string;
+    reporter: string;
+    member: string;
+    activityType: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActivityTypeRegisteredEvent {
+  export type InputTuple = [
+    activityType: BigNumberish,
+    name: string,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [
+    activityType: bigint,
+    name: string,
+    weight: bigint
+  ];
+  export interface OutputObject {
+    activityType: bigint;
+    name: string;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActivityWeightUpdatedEvent {
+  export type InputTuple = [activityType: BigNumberish, weight: BigNumberish];
+  export type OutputTuple = [activityType: bigint, weight: bigint];
+  export interface OutputObject {
+    activityType: bigint;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AdminTransferredEvent {
+  export type InputTuple = [previousAdmin: AddressLike, newAdmin: AddressLike];
+  export type OutputTuple = [previousAdmin: string, newAdmin: string];
+  export interface OutputObject {
+    previousAdmin: string;
+    newAdmin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AdmissionPolicyUpdatedEvent {
+  export type InputTuple = [
+    verifier: AddressLike,
+    credentialType: BytesLike,
+    initialScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    verifier: string,
+    credentialType: string,
+    initialScore: bigint
+  ];
+  export interface OutputObject {
+    verifier: string;
+    credentialType: string;
+    initialScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecayModelUpdatedEvent {
+  export type InputTuple = [halfLife: BigNumberish];
+  export type OutputTuple = [halfLife: bigint];
+  export interface OutputObject {
+    halfLife: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DelegationChangedEvent {
+  export type InputTuple = [
+    delegator: AddressLike,
+    fromDelegate: AddressLike,
+    toDelegate: AddressLike
+  ];
+  export type OutputTuple = [
+    delegator: string,
+    fromDelegate: string,
+    toDelegate: string
+  ];
+  export interface OutputObject {
+    delegator: string;
+    fromDelegate: string;
+    toDelegate: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MemberJoinedEvent {
+  export type InputTuple = [member: AddressLike];
+  export type OutputTuple = [member: string];
+  export interface OutputObject {
+    member: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomeRequestedEvent {
+  export type InputTuple = [proposalId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomeRevealedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    quorumReached: boolean,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    quorumReached: boolean,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    quorumReached: boolean;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCreatedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    endTime: BigNumberish,
+    metadataHash: BytesLike
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    endTime: bigint,
+    metadataHash: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    endTime: bigint;
+    metadataHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalExecutedEvent {
+  export type InputTuple = [proposalId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalQueuedEvent {
+  export type InputTuple = [proposalId: BigNumberish, eta: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, eta: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    eta: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReporterLimitsUpdatedEvent {
+  export type InputTuple = [dailyLimit: BigNumberish, maxAmount: BigNumberish];
+  export type OutputTuple = [dailyLimit: bigint, maxAmount: bigint];
+  export interface OutputObject {
+    dailyLimit: bigint;
+    maxAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReporterUpdatedEvent {
+  export type InputTuple = [reporter: AddressLike, allowed: boolean];
+  export type OutputTuple = [reporter: string, allowed: boolean];
+  export interface OutputObject {
+    reporter: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRevealedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    forWeight: BigNumberish,
+    againstWeight: BigNumberish,
+    abstainWeight: BigNumberish,
+    turnoutWeight: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    forWeight: bigint,
+    againstWeight: bigint,
+    abstainWeight: bigint,
+    turnoutWeight: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    forWeight: bigint;
+    againstWeight: bigint;
+    abstainWeight: bigint;
+    turnoutWeight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdsUpdatedEvent {
+  export type InputTuple = [quorumBps: BigNumberish, approvalBps: BigNumberish];
+  export type OutputTuple = [quorumBps: bigint, approvalBps: bigint];
+  export interface OutputObject {
+    quorumBps: bigint;
+    approvalBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimelockDelayUpdatedEvent {
+  export type InputTuple = [delay: BigNumberish];
+  export type OutputTuple = [delay: bigint];
+  export interface OutputObject {
+    delay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [voter: AddressLike, proposalId: BigNumberish];
+  export type OutputTuple = [voter: string, proposalId: bigint];
+  export interface OutputObject {
+    voter: string;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteChangedEvent {
+  export type InputTuple = [voter: AddressLike, proposalId: BigNumberish];
+  export type OutputTuple = [voter: string, proposalId: bigint];
+  export interface OutputObject {
+    voter: string;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WeightCurveUpdatedEvent {
+  export type InputTuple = [curve: BigNumberish, param: BigNumberish];
+  export type OutputTuple = [curve: bigint, param: bigint];
+  export interface OutputObject {
+    curve: bigint;
+    param: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AttentionVote_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AttentionVote_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AttentionVote_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ACTIVITY_PROPOSAL: TypedContractMethod<[], [bigint], "view">;
+
+  ACTIVITY_VOTE: TypedContractMethod<[], [bigint], "view">;
+
+  CHOICE_ABSTAIN: TypedContractMethod<[], [bigint], "view">;
+
+  CHOICE_AGAINST: TypedContractMethod<[], [bigint], "view">;
+
+  CHOICE_FOR: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ACTIONS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CURVE_SEGMENTS: TypedContractMethod<[], [bigint], "view">;
+
+  activityTypeCount: TypedContractMethod<[], [bigint], "view">;
+
+  activityTypes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { name: string; weight: bigint }],
+    "view"
+  >;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  admissionProofId: TypedContractMethod<
+    [joiner: AddressLike],
+    [string],
+    "view"
+  >;
+
+  admissionScore: TypedContractMethod<[], [bigint], "view">;
+
+  approvalBps: TypedContractMethod<[], [bigint], "view">;
+
+  attestActivities: TypedContractMethod<
+    [
+      attestations: AttentionVote_FHE.AttestationStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  attestationUsed: TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+
+  attestationsPerDay: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  castVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  changeVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createProposal: TypedContractMethod<
+    [
+      duration: BigNumberish,
+      metadataHash: BytesLike,
+      actions: AttentionVote_FHE.ActionStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  credentialVerifier: TypedContractMethod<[], [string], "view">;
+
+  currentSnapshotId: TypedContractMethod<[], [bigint], "view">;
+
+  curveParam: TypedContractMethod<[], [bigint], "view">;
+
+  decryptVoteCount: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  delegate: TypedContractMethod<
+    [to: AddressLike, encryptedShareBps: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  delegateOf: TypedContractMethod<[member: AddressLike], [string], "view">;
+
+  encryptedVotes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  executeProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getActions: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [AttentionVote_FHE.ActionStructOutput[]],
+    "view"
+  >;
+
+  getBallotWeight: TypedContractMethod<
+    [proposalId: BigNumberish, voter: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getCurveSegments: TypedContractMethod<
+    [],
+    [AttentionVote_FHE.CurveSegmentStructOutput[]],
+    "view"
+  >;
+
+  getDelegation: TypedContractMethod<
+    [member: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+
+  getEngagement: TypedContractMethod<
+    [member: AddressLike, activityType: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getProposalStatus: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [[boolean, boolean]],
+    "view"
+  >;
+
+  getReceivedWeight: TypedContractMethod<
+    [member: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getRevealedTally: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [AttentionVote_FHE.RevealedTallyStructOutput],
+    "view"
+  >;
+
+  getVotingPower: TypedContractMethod<[member: AddressLike], [string], "view">;
+
+  halfLife: TypedContractMethod<[], [bigint], "view">;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  joinDAO: TypedContractMethod<[proofId: BytesLike], [void], "nonpayable">;
+
+  maxAttestedAmount: TypedContractMethod<[], [bigint], "view">;
+
+  members: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, boolean] & {
+        encryptedActivityScore: string;
+        encryptedVotingWeight: string;
+        lastActive: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        bigint
+      ] & {
+        encryptedForWeight: string;
+        encryptedAgainstWeight: string;
+        encryptedAbstainWeight: string;
+        encryptedTurnoutWeight: string;
+        encryptedEligibleWeight: string;
+        endTime: bigint;
+        isExecuted: boolean;
+        metadataHash: string;
+        quorumBps: bigint;
+        approvalBps: bigint;
+        outcomeRevealed: boolean;
+        quorumReached: boolean;
+        approved: boolean;
+        weightSnapshotId: bigint;
+        eta: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  quorumBps: TypedContractMethod<[], [bigint], "view">;
+
+  registerActivityType: TypedContractMethod<
+    [name: string, weight: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  reporterDailyLimit: TypedContractMethod<[], [bigint], "view">;
+
+  reporters: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  requestOutcomeDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestVoteCountDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requiredCredentialType: TypedContractMethod<[], [string], "view">;
+
+  resolveOutcome: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeDelegation: TypedContractMethod<[], [void], "nonpayable">;
+
+  setActivityWeight: TypedContractMethod<
+    [activityType: BigNumberish, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setAdmissionPolicy: TypedContractMethod<
+    [
+      verifier: AddressLike,
+      credentialType: BytesLike,
+      initialScore: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecayModel: TypedContractMethod<
+    [newHalfLife: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPiecewiseCurve: TypedContractMethod<
+    [segments: AttentionVote_FHE.CurveSegmentStruct[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setReporter: TypedContractMethod<
+    [reporter: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setReporterLimits: TypedContractMethod<
+    [dailyLimit: BigNumberish, maxAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setThresholds: TypedContractMethod<
+    [newQuorumBps: BigNumberish, newApprovalBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTimelockDelay: TypedContractMethod<
+    [newDelay: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setWeightCurve: TypedContractMethod<
+    [curve: BigNumberish, param: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  timelockDelay: TypedContractMethod<[], [bigint], "view">;
+
+  transferAdmin: TypedContractMethod<
+    [newAdmin: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  weightCurve: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ACTIVITY_PROPOSAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ACTIVITY_VOTE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHOICE_ABSTAIN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHOICE_AGAINST"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "CHOICE_FOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ACTIONS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CURVE_SEGMENTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activityTypeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activityTypes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { name: string; weight: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "admissionProofId"
+  ): TypedContractMethod<[joiner: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "admissionScore"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approvalBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "attestActivities"
+  ): TypedContractMethod<
+    [
+      attestations: AttentionVote_FHE.AttestationStruct[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "attestationUsed"
+  ): TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "attestationsPerDay"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "changeVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createProposal"
+  ): TypedContractMethod<
+    [
+      duration: BigNumberish,
+      metadataHash: BytesLike,
+      actions: AttentionVote_FHE.ActionStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "credentialVerifier"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "currentSnapshotId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "curveParam"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptVoteCount"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "delegate"
+  ): TypedContractMethod<
+    [to: AddressLike, encryptedShareBps: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "delegateOf"
+  ): TypedContractMethod<[member: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedVotes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "executeProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getActions"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [AttentionVote_FHE.ActionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBallotWeight"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, voter: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCurveSegments"
+  ): TypedContractMethod<
+    [],
+    [AttentionVote_FHE.CurveSegmentStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDelegation"
+  ): TypedContractMethod<
+    [member: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEngagement"
+  ): TypedContractMethod<
+    [member: AddressLike, activityType: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProposalStatus"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [[boolean, boolean]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReceivedWeight"
+  ): TypedContractMethod<[member: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRevealedTally"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [AttentionVote_FHE.RevealedTallyStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVotingPower"
+  ): TypedContractMethod<[member: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "halfLife"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinDAO"
+  ): TypedContractMethod<[proofId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "maxAttestedAmount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "members"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint, boolean] & {
+        encryptedActivityScore: string;
+        encryptedVotingWeight: string;
+        lastActive: bigint;
+        isActive: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        bigint
+      ] & {
+        encryptedForWeight: string;
+        encryptedAgainstWeight: string;
+        encryptedAbstainWeight: string;
+        encryptedTurnoutWeight: string;
+        encryptedEligibleWeight: string;
+        endTime: bigint;
+        isExecuted: boolean;
+        metadataHash: string;
+        quorumBps: bigint;
+        approvalBps: bigint;
+        outcomeRevealed: boolean;
+        quorumReached: boolean;
+        approved: boolean;
+        weightSnapshotId: bigint;
+        eta: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorumBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerActivityType"
+  ): TypedContractMethod<
+    [name: string, weight: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reporterDailyLimit"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reporters"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "requestOutcomeDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestVoteCountDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requiredCredentialType"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "resolveOutcome"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeDelegation"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setActivityWeight"
+  ): TypedContractMethod<
+    [activityType: BigNumberish, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAdmissionPolicy"
+  ): TypedContractMethod<
+    [
+      verifier: AddressLike,
+      credentialType: BytesLike,
+      initialScore: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecayModel"
+  ): TypedContractMethod<[newHalfLife: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPiecewiseCurve"
+  ): TypedContractMethod<
+    [segments: AttentionVote_FHE.CurveSegmentStruct[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReporter"
+  ): TypedContractMethod<
+    [reporter: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReporterLimits"
+  ): TypedContractMethod<
+    [dailyLimit: BigNumberish, maxAmount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setThresholds"
+  ): TypedContractMethod<
+    [newQuorumBps: BigNumberish, newApprovalBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTimelockDelay"
+  ): TypedContractMethod<[newDelay: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setWeightCurve"
+  ): TypedContractMethod<
+    [curve: BigNumberish, param: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "timelockDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferAdmin"
+  ): TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "weightCurve"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "ActionExecuted"
+  ): TypedContractEvent<
+    ActionExecutedEvent.InputTuple,
+    ActionExecutedEvent.OutputTuple,
+    ActionExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActivityAttested"
+  ): TypedContractEvent<
+    ActivityAttestedEvent.InputTuple,
+    ActivityAttestedEvent.OutputTuple,
+    ActivityAttestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActivityTypeRegistered"
+  ): TypedContractEvent<
+    ActivityTypeRegisteredEvent.InputTuple,
+    ActivityTypeRegisteredEvent.OutputTuple,
+    ActivityTypeRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActivityWeightUpdated"
+  ): TypedContractEvent<
+    ActivityWeightUpdatedEvent.InputTuple,
+    ActivityWeightUpdatedEvent.OutputTuple,
+    ActivityWeightUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AdminTransferred"
+  ): TypedContractEvent<
+    AdminTransferredEvent.InputTuple,
+    AdminTransferredEvent.OutputTuple,
+    AdminTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "AdmissionPolicyUpdated"
+  ): TypedContractEvent<
+    AdmissionPolicyUpdatedEvent.InputTuple,
+    AdmissionPolicyUpdatedEvent.OutputTuple,
+    AdmissionPolicyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecayModelUpdated"
+  ): TypedContractEvent<
+    DecayModelUpdatedEvent.InputTuple,
+    DecayModelUpdatedEvent.OutputTuple,
+    DecayModelUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DelegationChanged"
+  ): TypedContractEvent<
+    DelegationChangedEvent.InputTuple,
+    DelegationChangedEvent.OutputTuple,
+    DelegationChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MemberJoined"
+  ): TypedContractEvent<
+    MemberJoinedEvent.InputTuple,
+    MemberJoinedEvent.OutputTuple,
+    MemberJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomeRequested"
+  ): TypedContractEvent<
+    OutcomeRequestedEvent.InputTuple,
+    OutcomeRequestedEvent.OutputTuple,
+    OutcomeRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomeRevealed"
+  ): TypedContractEvent<
+    OutcomeRevealedEvent.InputTuple,
+    OutcomeRevealedEvent.OutputTuple,
+    OutcomeRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCreated"
+  ): TypedContractEvent<
+    ProposalCreatedEvent.InputTuple,
+    ProposalCreatedEvent.OutputTuple,
+    ProposalCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalExecuted"
+  ): TypedContractEvent<
+    ProposalExecutedEvent.InputTuple,
+    ProposalExecutedEvent.OutputTuple,
+    ProposalExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalQueued"
+  ): TypedContractEvent<
+    ProposalQueuedEvent.InputTuple,
+    ProposalQueuedEvent.OutputTuple,
+    ProposalQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReporterLimitsUpdated"
+  ): TypedContractEvent<
+    ReporterLimitsUpdatedEvent.InputTuple,
+    ReporterLimitsUpdatedEvent.OutputTuple,
+    ReporterLimitsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReporterUpdated"
+  ): TypedContractEvent<
+    ReporterUpdatedEvent.InputTuple,
+    ReporterUpdatedEvent.OutputTuple,
+    ReporterUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRevealed"
+  ): TypedContractEvent<
+    TallyRevealedEvent.InputTuple,
+    TallyRevealedEvent.OutputTuple,
+    TallyRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdsUpdated"
+  ): TypedContractEvent<
+    ThresholdsUpdatedEvent.InputTuple,
+    ThresholdsUpdatedEvent.OutputTuple,
+    ThresholdsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimelockDelayUpdated"
+  ): TypedContractEvent<
+    TimelockDelayUpdatedEvent.InputTuple,
+    TimelockDelayUpdatedEvent.OutputTuple,
+    TimelockDelayUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteChanged"
+  ): TypedContractEvent<
+    VoteChangedEvent.InputTuple,
+    VoteChangedEvent.OutputTuple,
+    VoteChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WeightCurveUpdated"
+  ): TypedContractEvent<
+    WeightCurveUpdatedEvent.InputTuple,
+    WeightCurveUpdatedEvent.OutputTuple,
+    WeightCurveUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "ActionExecuted(uint256,uint256,address,uint256,bytes)": TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+    ActionExecuted: TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+
+    "ActivityAttested(bytes32,address,address,uint256)": TypedContractEvent<
+      ActivityAttestedEvent.InputTuple,
+      ActivityAttestedEvent.OutputTuple,
+      ActivityAttestedEvent.OutputObject
+    >;
+    ActivityAttested: TypedContractEvent<
+      ActivityAttestedEvent.InputTuple,
+      ActivityAttestedEvent.OutputTuple,
+      ActivityAttestedEvent.OutputObject
+    >;
+
+    "ActivityTypeRegistered(uint256,string,uint32)": TypedContractEvent<
+      ActivityTypeRegisteredEvent.InputTuple,
+      ActivityTypeRegisteredEvent.OutputTuple,
+      ActivityTypeRegisteredEvent.OutputObject
+    >;
+    ActivityTypeRegistered: TypedContractEvent<
+      ActivityTypeRegisteredEvent.InputTuple,
+      ActivityTypeRegisteredEvent.OutputTuple,
+      ActivityTypeRegisteredEvent.OutputObject
+    >;
+
+    "ActivityWeightUpdated(uint256,uint32)": TypedContractEvent<
+      ActivityWeightUpdatedEvent.InputTuple,
+      ActivityWeightUpdatedEvent.OutputTuple,
+      ActivityWeightUpdatedEvent.OutputObject
+    >;
+    ActivityWeightUpdated: TypedContractEvent<
+      ActivityWeightUpdatedEvent.InputTuple,
+      ActivityWeightUpdatedEvent.OutputTuple,
+      ActivityWeightUpdatedEvent.OutputObject
+    >;
+
+    "AdminTransferred(address,address)": TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+    AdminTransferred: TypedContractEvent<
+      AdminTransferredEvent.InputTuple,
+      AdminTransferredEvent.OutputTuple,
+      AdminTransferredEvent.OutputObject
+    >;
+
+    "AdmissionPolicyUpdated(address,bytes32,uint32)": TypedContractEvent<
+      AdmissionPolicyUpdatedEvent.InputTuple,
+      AdmissionPolicyUpdatedEvent.OutputTuple,
+      AdmissionPolicyUpdatedEvent.OutputObject
+    >;
+    AdmissionPolicyUpdated: TypedContractEvent<
+      AdmissionPolicyUpdatedEvent.InputTuple,
+      AdmissionPolicyUpdatedEvent.OutputTuple,
+      AdmissionPolicyUpdatedEvent.OutputObject
+    >;
+
+    "DecayModelUpdated(uint32)": TypedContractEvent<
+      DecayModelUpdatedEvent.InputTuple,
+      DecayModelUpdatedEvent.OutputTuple,
+      DecayModelUpdatedEvent.OutputObject
+    >;
+    DecayModelUpdated: TypedContractEvent<
+      DecayModelUpdatedEvent.InputTuple,
+      DecayModelUpdatedEvent.OutputTuple,
+      DecayModelUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DelegationChanged(address,address,address)": TypedContractEvent<
+      DelegationChangedEvent.InputTuple,
+      DelegationChangedEvent.OutputTuple,
+      DelegationChangedEvent.OutputObject
+    >;
+    DelegationChanged: TypedContractEvent<
+      DelegationChangedEvent.InputTuple,
+      DelegationChangedEvent.OutputTuple,
+      DelegationChangedEvent.OutputObject
+    >;
+
+    "MemberJoined(address)": TypedContractEvent<
+      MemberJoinedEvent.InputTuple,
+      MemberJoinedEvent.OutputTuple,
+      MemberJoinedEvent.OutputObject
+    >;
+    MemberJoined: TypedContractEvent<
+      MemberJoinedEvent.InputTuple,
+      MemberJoinedEvent.OutputTuple,
+      MemberJoinedEvent.OutputObject
+    >;
+
+    "OutcomeRequested(uint256)": TypedContractEvent<
+      OutcomeRequestedEvent.InputTuple,
+      OutcomeRequestedEvent.OutputTuple,
+      OutcomeRequestedEvent.OutputObject
+    >;
+    OutcomeRequested: TypedContractEvent<
+      OutcomeRequestedEvent.InputTuple,
+      OutcomeRequestedEvent.OutputTuple,
+      OutcomeRequestedEvent.OutputObject
+    >;
+
+    "OutcomeRevealed(uint256,bool,bool)": TypedContractEvent<
+      OutcomeRevealedEvent.InputTuple,
+      OutcomeRevealedEvent.OutputTuple,
+      OutcomeRevealedEvent.OutputObject
+    >;
+    OutcomeRevealed: TypedContractEvent<
+      OutcomeRevealedEvent.InputTuple,
+      OutcomeRevealedEvent.OutputTuple,
+      OutcomeRevealedEvent.OutputObject
+    >;
+
+    "ProposalCreated(uint256,uint256,bytes32)": TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+    ProposalCreated: TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+
+    "ProposalExecuted(uint256)": TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+    ProposalExecuted: TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+
+    "ProposalQueued(uint256,uint256)": TypedContractEvent<
+      ProposalQueuedEvent.InputTuple,
+      ProposalQueuedEvent.OutputTuple,
+      ProposalQueuedEvent.OutputObject
+    >;
+    ProposalQueued: TypedContractEvent<
+      ProposalQueuedEvent.InputTuple,
+      ProposalQueuedEvent.OutputTuple,
+      ProposalQueuedEvent.OutputObject
+    >;
+
+    "ReporterLimitsUpdated(uint32,uint32)": TypedContractEvent<
+      ReporterLimitsUpdatedEvent.InputTuple,
+      ReporterLimitsUpdatedEvent.OutputTuple,
+      ReporterLimitsUpdatedEvent.OutputObject
+    >;
+    ReporterLimitsUpdated: TypedContractEvent<
+      ReporterLimitsUpdatedEvent.InputTuple,
+      ReporterLimitsUpdatedEvent.OutputTuple,
+      ReporterLimitsUpdatedEvent.OutputObject
+    >;
+
+    "ReporterUpdated(address,bool)": TypedContractEvent<
+      ReporterUpdatedEvent.InputTuple,
+      ReporterUpdatedEvent.OutputTuple,
+      ReporterUpdatedEvent.OutputObject
+    >;
+    ReporterUpdated: TypedContractEvent<
+      ReporterUpdatedEvent.InputTuple,
+      ReporterUpdatedEvent.OutputTuple,
+      ReporterUpdatedEvent.OutputObject
+    >;
+
+    "TallyRevealed(uint256,uint32,uint32,uint32,uint32)": TypedContractEvent<
+      TallyRevealedEvent.InputTuple,
+      TallyRevealedEvent.OutputTuple,
+      TallyRevealedEvent.OutputObject
+    >;
+    TallyRevealed: TypedContractEvent<
+      TallyRevealedEvent.InputTuple,
+      TallyRevealedEvent.OutputTuple,
+      TallyRevealedEvent.OutputObject
+    >;
+
+    "ThresholdsUpdated(uint16,uint16)": TypedContractEvent<
+      ThresholdsUpdatedEvent.InputTuple,
+      ThresholdsUpdatedEvent.OutputTuple,
+      ThresholdsUpdatedEvent.OutputObject
+    >;
+    ThresholdsUpdated: TypedContractEvent<
+      ThresholdsUpdatedEvent.InputTuple,
+      ThresholdsUpdatedEvent.OutputTuple,
+      ThresholdsUpdatedEvent.OutputObject
+    >;
+
+    "TimelockDelayUpdated(uint32)": TypedContractEvent<
+      TimelockDelayUpdatedEvent.InputTuple,
+      TimelockDelayUpdatedEvent.OutputTuple,
+      TimelockDelayUpdatedEvent.OutputObject
+    >;
+    TimelockDelayUpdated: TypedContractEvent<
+      TimelockDelayUpdatedEvent.InputTuple,
+      TimelockDelayUpdatedEvent.OutputTuple,
+      TimelockDelayUpdatedEvent.OutputObject
+    >;
+
+    "VoteCast(address,uint256)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+
+    "VoteChanged(address,uint256)": TypedContractEvent<
+      VoteChangedEvent.InputTuple,
+      VoteChangedEvent.OutputTuple,
+      VoteChangedEvent.OutputObject
+    >;
+    VoteChanged: TypedContractEvent<
+      VoteChangedEvent.InputTuple,
+      VoteChangedEvent.OutputTuple,
+      VoteChangedEvent.OutputObject
+    >;
+
+    "WeightCurveUpdated(uint8,uint32)": TypedContractEvent<
+      WeightCurveUpdatedEvent.InputTuple,
+      WeightCurveUpdatedEvent.OutputTuple,
+      WeightCurveUpdatedEvent.OutputObject
+    >;
+    WeightCurveUpdated: TypedContractEvent<
+      WeightCurveUpdatedEvent.InputTuple,
+      WeightCurveUpdatedEvent.OutputTuple,
+      WeightCurveUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { AttentionVote_FHE } from "./AttentionVote_FHE";
+export type { ICredentialVerifier } from "./ICredentialVerifier";
+export type { Multicall3 } from "./Multicall3";
@@ -0,0 +1,117 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockCredentialVerifierInterface extends Interface {
+  getFunction(
+    nameOrSignature: "getProofResult" | "setProofResult"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getProofResult",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProofResult",
+    values: [BytesLike, boolean]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "getProofResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProofResult",
+    data: BytesLike
+  ): Result;
+}
+
+export interface MockCredentialVerifier extends BaseContract {
+  connect(runner?: ContractRunner | null): MockCredentialVerifier;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockCredentialVerifierInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getProofResult: TypedContractMethod<
+    [proofId: BytesLike],
+    [[boolean, bigint]],
+    "view"
+  >;
+
+  setProofResult: TypedContractMethod<
+    [proofId: BytesLike, isValid: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getProofResult"
+  ): TypedContractMethod<[proofId: BytesLike], [[boolean, bigint]], "view">;
+  getFunction(
+    nameOrSignature: "setProofResult"
+  ): TypedContractMethod<
+    [proofId: BytesLike, isValid: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
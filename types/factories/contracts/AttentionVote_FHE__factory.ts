@@ -0,0 +1,1891 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AttentionVote_FHE,
+  AttentionVote_FHEInterface,
+} from "../../contracts/AttentionVote_FHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "ActionExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "attestationId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reporter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "activityType",
+        type: "uint256",
+      },
+    ],
+    name: "ActivityAttested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "activityType",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "ActivityTypeRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "activityType",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "ActivityWeightUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousAdmin",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "AdminTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "credentialType",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "initialScore",
+        type: "uint32",
+      },
+    ],
+    name: "AdmissionPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "halfLife",
+        type: "uint32",
+      },
+    ],
+    name: "DecayModelUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "delegator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "fromDelegate",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "toDelegate",
+        type: "address",
+      },
+    ],
+    name: "DelegationChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "MemberJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "OutcomeRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "quorumReached",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "OutcomeRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "dailyLimit",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxAmount",
+        type: "uint32",
+      },
+    ],
+    name: "ReporterLimitsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reporter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ReporterUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "forWeight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "againstWeight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "abstainWeight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "turnoutWeight",
+        type: "uint32",
+      },
+    ],
+    name: "TallyRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "quorumBps",
+        type: "uint16",
+      },
+      {
+        indexed: false,
+        internalType: "uint16",
+        name: "approvalBps",
+        type: "uint16",
+      },
+    ],
+    name: "ThresholdsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "delay",
+        type: "uint32",
+      },
+    ],
+    name: "TimelockDelayUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "VoteChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum AttentionVote_FHE.WeightCurve",
+        name: "curve",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "param",
+        type: "uint32",
+      },
+    ],
+    name: "WeightCurveUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ACTIVITY_PROPOSAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ACTIVITY_VOTE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHOICE_ABSTAIN",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHOICE_AGAINST",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CHOICE_FOR",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ACTIONS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BPS",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CURVE_SEGMENTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activityTypeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activityTypes",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "joiner",
+        type: "address",
+      },
+    ],
+    name: "admissionProofId",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admissionScore",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "approvalBps",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "member",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "activityType",
+            type: "uint256",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "amount",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "attestationId",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.Attestation[]",
+        name: "attestations",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "attestActivities",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "attestationUsed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "attestationsPerDay",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedChoice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedChoice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "changeVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.Action[]",
+        name: "actions",
+        type: "tuple[]",
+      },
+    ],
+    name: "createProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "credentialVerifier",
+    outputs: [
+      {
+        internalType: "contract ICredentialVerifier",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentSnapshotId",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "curveParam",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptVoteCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint16",
+        name: "encryptedShareBps",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "delegate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "delegateOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "encryptedVotes",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "executeProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "getActions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.Action[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+    ],
+    name: "getBallotWeight",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCurveSegments",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "start",
+            type: "uint32",
+          },
+          {
+            internalType: "uint16",
+            name: "slopeBps",
+            type: "uint16",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.CurveSegment[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "getDelegation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "euint16",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "activityType",
+        type: "uint256",
+      },
+    ],
+    name: "getEngagement",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "getProposalStatus",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "getReceivedWeight",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "getRevealedTally",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "revealed",
+            type: "bool",
+          },
+          {
+            internalType: "uint32",
+            name: "forWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "againstWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "abstainWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "turnoutWeight",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.RevealedTally",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "member",
+        type: "address",
+      },
+    ],
+    name: "getVotingPower",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "halfLife",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "proofId",
+        type: "bytes32",
+      },
+    ],
+    name: "joinDAO",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxAttestedAmount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "members",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedActivityScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedVotingWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "lastActive",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposals",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedForWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAgainstWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedAbstainWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTurnoutWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedEligibleWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isExecuted",
+        type: "bool",
+      },
+      {
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint16",
+        name: "quorumBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "approvalBps",
+        type: "uint16",
+      },
+      {
+        internalType: "bool",
+        name: "outcomeRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "quorumReached",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "weightSnapshotId",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "quorumBps",
+    outputs: [
+      {
+        internalType: "uint16",
+        name: "",
+        type: "uint16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "registerActivityType",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reporterDailyLimit",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "reporters",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestOutcomeDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestVoteCountDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requiredCredentialType",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "resolveOutcome",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revokeDelegation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "activityType",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "setActivityWeight",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract ICredentialVerifier",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "credentialType",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "initialScore",
+        type: "uint32",
+      },
+    ],
+    name: "setAdmissionPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newHalfLife",
+        type: "uint32",
+      },
+    ],
+    name: "setDecayModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "start",
+            type: "uint32",
+          },
+          {
+            internalType: "uint16",
+            name: "slopeBps",
+            type: "uint16",
+          },
+        ],
+        internalType: "struct AttentionVote_FHE.CurveSegment[]",
+        name: "segments",
+        type: "tuple[]",
+      },
+    ],
+    name: "setPiecewiseCurve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "reporter",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setReporter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "dailyLimit",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "maxAmount",
+        type: "uint32",
+      },
+    ],
+    name: "setReporterLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint16",
+        name: "newQuorumBps",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "newApprovalBps",
+        type: "uint16",
+      },
+    ],
+    name: "setThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newDelay",
+        type: "uint32",
+      },
+    ],
+    name: "setTimelockDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum AttentionVote_FHE.WeightCurve",
+        name: "curve",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "param",
+        type: "uint32",
+      },
+    ],
+    name: "setWeightCurve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newAdmin",
+        type: "address",
+      },
+    ],
+    name: "transferAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "weightCurve",
+    outputs: [
+      {
+        internalType: "enum AttentionVote_FHE.WeightCurve",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604090808252346200029e57620000188162000309565b5f81525f60606020928284820152828582015201528151906200003b8262000309565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80835273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69928383820152606073a02cda4ca3a71d7c46997716f4283aa851c28812918287820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac918291015260018060a01b0319917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970093838554161784557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970186848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560ff1960015416600155640a0000006460018060401b0319601354161760135533692a30000278d00138807d60a41b175f55835190639cd07acb60e01b825282826044815f600498818a8401528960248401525af1918215620002ff575f92620002a2575b506003829055546001600160a01b031690813b156200029e575f916044839287519485938492635ca4b5b160e11b8452898401523060248401525af18015620002945762000262575b509063766f746560e01b62000253926200023985516200021f8162000339565b60088152671c1c9bdc1bdcd85b60c21b8382015262000355565b50845192620002488462000339565b835282015262000355565b5051615e8b90816200063d8239f35b6001600160401b0381116200028157835263766f746560e01b620001ff565b604183634e487b7160e01b5f525260245ffd5b84513d5f823e3d90fd5b5f80fd5b909150823d8411620002f7575b601f8101601f191682016001600160401b03811183821017620002e457849183918852810103126200029e5751905f620001b6565b604186634e487b7160e01b5f525260245ffd5b503d620002af565b85513d5f823e3d90fd5b608081019081106001600160401b038211176200032557604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b038211176200032557604052565b5f546001600160a01b031633036200060b57805115620005d757604051906200037e8262000339565b80825260209081830160019384825260115468010000000000000000811015620003255785810180601155811015620005c35760115f52845f2090861b019051805160018060401b03811162000325578254918783811c93168015620005b8575b87841014620005a45782601f89941162000552575b508690601f8311600114620004e55763ffffffff9492915f9183620004d9575b50505f19600383901b1c191690831b1781555b0191511663ffffffff19825416179055601154925f198401938411620004c55783919260405191604083528451918260408501525f955b838710620004ab57507fd4f82d7807051c839da742e1efc6caca17855ab80bb1fc86ba2df39b2b2f7f489495509183916060935f858486010152830152601f80199101168101030190a290565b86810182015187860160600152958101958795506200045e565b634e487b7160e01b5f52601160045260245ffd5b015190505f8062000414565b90601f19831691855f52885f20925f5b8a8282106200053b575050918593918563ffffffff9896941062000522575b505050811b01815562000427565b01515f1960f88460031b161c191690555f808062000514565b8385015186558c97909501949384019301620004f5565b90919250835f52865f20601f840160051c81019188851062000599575b90601f8a959493920160051c01905b8181106200058d5750620003f4565b5f81558994016200057e565b90915081906200056f565b634e487b7160e01b5f52602260045260245ffd5b92607f1692620003df565b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260206004820152600c60248201526b4d697373696e67206e616d6560a01b6044820152606490fd5b60405162461bcd60e51b81526020600482015260096024820152682737ba1030b236b4b760b91b6044820152606490fdfe60a080604052600436101561001c575b50361561001a575f80fd5b005b5f3560e01c908163013cf08b14613c845750806308ae4b0c14613c255780630d61b519146138ee5780630efa915b1461382257806310febf28146131bd578063122013aa1461095b5780631398d7df146130f95780631dc9e8a614612f7b5780631eabe6cc14612f4c57806323b6500414612f0857806329fd5c9a14612cec5780632b29376814612c9a5780632c5df10e14612c775780632cc1cd9e14612c3a578063324578f814612c14578063328dd98214612ad2578063376e104214612a885780633cee5922146125f95780633ed8fe50146125675780633f25e0a514612523578063401853b7146124d4578063438596321461248b5780634b813d101461240057806354d1f5be146120d45780635511b6cc146120165780635576104c14611ff9578063619da94e14611d175780636833935714611cdf5780636d70216314611c8057806375829def14611bdc5780637bc90d1c14611bb75780637d4ab01114611b9457806384590c1f146118955780638589c7a514611626578063871c88de1461137b5780638784eafe1461130a5780638be506f81461135e5780638d22ea2a146113255780638ea7a2741461130a578063940c372b14610d9157806396def70914610d76578063970875ce14610d505780639887581714610bfb5780639aa22f2a14610ae55780639d8a56e414610ac05780639f87959714610a42578063a4d3180514610998578063b290293d14610975578063b5770c331461095b578063b613f40814610938578063bb4d44361461090d578063c2b23dbd146108e6578063cbe4282214610691578063cc9f0089146105e4578063cd2ddd0c146105c1578063d0ebe0b1146105a6578063d90292a31461058b578063d9f1250314610563578063da1f12ab14610547578063da35c6641461052a578063df1224e214610435578063e1bb5133146103a8578063e665809b14610364578063eef09bad14610345578063f851a4401461031e5763fd967f47146102fe575f61000f565b3461031a575f36600319011261031a5760206040516127108152f35b5f80fd5b3461031a575f36600319011261031a575f546040516001600160a01b039091168152602090f35b3461031a575f36600319011261031a5760205f5460e01c604051908152f35b3461031a57604036600319011261031a5761037d613d7b565b6004355f52600c60205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461031a57604036600319011261031a576103c1613d65565b602435908115159081830361031a577f3852f36d292dc71d9e7d1a5a7612b2cf3d10b1772f1909c3bf23aac036db7e189161042c60209260018060a01b039061040e825f5416331461422a565b1694855f526012845260405f209060ff801983541691151516179055565b604051908152a2005b3461031a57604036600319011261031a5760043561ffff80821680830361031a5760243591821680830361031a575f549361047a336001600160a01b0387161461422a565b61271080841115908161051f575b50156104e6577f2fe2c57726bfb5a247069708fb60e2985cebb7f745d44be3c7183a98ca6c4bf19460409461ffff60b01b9060b01b169161ffff60a01b9060a01b169063ffffffff60a01b191617175f5582519182526020820152a1005b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081d1a1c995cda1bdb19607a1b6044820152606490fd5b905082111586610488565b3461031a575f36600319011261031a576020600754604051908152f35b3461031a575f36600319011261031a5760206040516127118152f35b3461031a575f36600319011261031a576004546040516001600160a01b039091168152602090f35b3461031a575f36600319011261031a57602060405160028152f35b3461031a575f36600319011261031a57602060405160048152f35b3461031a575f36600319011261031a57602061ffff5f5460a01c16604051908152f35b3461031a57606036600319011261031a576004356001600160a01b038181169182900361031a576024359160443563ffffffff811680910361031a577f6f1385450d24dd5cdf8c5262b11baecbe92d97dc96cff3dd39a5c21d847225a4936106526060945f5416331461422a565b826bffffffffffffffffffffffff60a01b6004541617600455806005558163ffffffff19600654161760065560405192835260208301526040820152a1005b3461031a57604036600319011261031a576001600160401b0360043581811161031a573660238201121561031a576106d460249136908381600401359101613e3c565b6106dc613da4565b906106f160018060a01b035f5416331461422a565b8051156108b35760405161070481613dd2565b8181526020948582019163ffffffff918286168452601154600160401b8110156108a05761073a60019160018101601155613f7f565b93909361088e5751805192831161087b5761075f836107598654613fd0565b866141db565b8991601f84116001146108115750918061079292600195945f92610806575b50508160011b915f199060031b1c19161790565b81555b0191511663ffffffff19825416179055601154925f1984019384116107f3575082917fd4f82d7807051c839da742e1efc6caca17855ab80bb1fc86ba2df39b2b2f7f48916107e860405192839283614099565b0390a2604051908152f35b634e487b7160e01b5f9081526011600452fd5b015190508b8061077e565b9190601f198416855f528b5f20935f905b8d8383106108635750505091600195949291838795931061084b575b505050811b018155610795565b01515f1960f88460031b161c191690558a808061083e565b84860151875595810195948501949190910190610822565b88634e487b7160e01b5f5260416004525ffd5b88634e487b7160e01b5f525f6004525ffd5b87634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b815260206004820152600c818501526b4d697373696e67206e616d6560a01b6044820152606490fd5b3461031a575f36600319011261031a57602060ff6001541661090b60405180926140bd565bf35b3461031a57602036600319011261031a57602061093061092b613d65565b614566565b604051908152f35b3461031a57602036600319011261031a576020610930610956613d65565b614522565b3461031a575f36600319011261031a5760206040515f8152f35b3461031a575f36600319011261031a57602061ffff5f5460b01c16604051908152f35b3461031a575f36600319011261031a57335f5260086020526109c360ff600360405f200154166140de565b6001600160a01b036109d433614791565b168015610a0d575f906109e63361494c565b337fdc66b2a0c2e9f8ef38f442117eb813788791a117772b1a45985da7988e8c485c8380a4005b60405162461bcd60e51b815260206004820152600d60248201526c139bdd0819195b1959d85d1959609a1b6044820152606490fd5b3461031a57602036600319011261031a577fc9f246681a99c5105b61ff037c8d1768f2da0443f8f39983289d0cd3c1a390316020610a7e613d91565b5f54610a94336001600160a01b0383161461422a565b6001600160e01b031660e082901b6001600160e01b031916175f5560405163ffffffff919091168152a1005b3461031a575f36600319011261031a57602060135463ffffffff60405191831c168152f35b3461031a57604036600319011261031a57600435600581101561031a57610b0a613da4565b610b1e60018060a01b035f5416331461422a565b60048214610bbe578163ffffffff60409260027f6c086c4803982fd5c80b01451cb491983ce795812f5ef8c589132356ee6299fa95141580610bb3575b8015610ba8575b610b6b906142ee565b6001805464ffffffffff191660ff851617600883901b64ffffffff0016179055610b9361434b565b610b9f845180946140bd565b166020820152a1005b508082161515610b62565b506003831415610b5b565b60405162461bcd60e51b815260206004820152601560248201527455736520736574506965636577697365437572766560581b6044820152606490fd5b3461031a57610c2f610c0c36613e90565b825f9492939452601a6020528260405f205494610c2a861515614262565b6145a8565b815f52600960205260405f209060088201805490610c5360ff8360201c16156143dc565b60408380518101031261031a5764010000000091610cc391610c836040610c7c602088016144f7565b96016144f7565b66ffffff000000001990921666ffff0000000000199094169390931765ff000000000085151560281b161781151560301b66ff0000000000001617909255565b604080518315158152821515602082015285917f30a21d5be254215dc5fad0a64a8429536999dc72ccd18d17ef32331960ad378a91a281610d48575b50610d0657005b602060097f9a2e42fd6722813d69113e7d0079d3d940171428df7373df9c7f7617cfda289292610d3a5f5460e01c426141ba565b9182910155604051908152a2005b905083610cff565b3461031a575f36600319011261031a5760206001600160401b03600d5416604051908152f35b3461031a575f36600319011261031a576020604051600a8152f35b3461031a57604036600319011261031a576001600160401b03806004351161031a5736602360043501121561031a5780600435600401351161031a573660246004356004013560071b60043501011161031a5760243590811161031a57610dfc903690600401613f1c565b90335f52601260205260ff60405f205416156112d657620151804204335f52601560205260405f20815f52602052610e446004356004013563ffffffff60405f2054166141ba565b63ffffffff601354161061129b57335f52601560205260405f20905f5260205260405f20805463ffffffff600435600401351663ffffffff82160163ffffffff81116112875763ffffffff169063ffffffff19161790555f5b600435600401358110610eac57005b6001600160a01b03610ec8600435600784901b016024016141c7565b165f526008602052610ee360ff600360405f200154166140de565b610efb60115460448360071b60043501013510614438565b600160448260071b60043501013511156112495760848160071b6004350101355f52601460205260ff60405f20541661120d5760848160071b6004350101355f52601460205260405f20600160ff1982541617905560649060206004610f62368787613e3c565b610fb75f60018060a01b035f80516020615e3f8339815191525416926040519788958694859363196d0b9b60e01b8552838b60071b843501013583860152336024860152608060448601526084850190613ef7565b9183015203925af19182156111ce575f926111d9575b505f80516020615e5f833981519152546001600160a01b0316803b1561031a57604051630f8e573b60e21b815260048101849052336024820152905f908290604490829084905af180156111ce5760019361113f92611044926111bf575b5063ffffffff60135460201c169080156111b15761532b565b61105760248460071b60043501016141c7565b90848060a01b03821690815f5260168060205260405f2060448760071b6004350101355f5260205261108d8260405f2054614fe8565b5f84815260209283526040808220604460078b901b6004350101358352909352919091208190556110c99084906110c4308261515e565b61515e565b815f52600860205261112760405f20916111216110f684546110f06002809701544261439a565b90615017565b9163ffffffff8a61111160448c60071b600435010135613f7f565b500154169080156111a357615c6b565b90614fe8565b915f52600860205260405f2091825542910155614dc2565b818060a01b0361115860248360071b60043501016141c7565b1660405160448360071b600435010135815233907fce4a9906354341c218f63143d4a2acdb914d6dda7a7358df40141610c76c6abc602060848660071b60043501013592a401610e9d565b506111ac614ef0565b615c6b565b506111ba614ef0565b61532b565b6111c890613ded565b8761102b565b6040513d5f823e3d90fd5b9091506020813d602011611205575b816111f560209383613e00565b8101031261031a57519084610fcd565b3d91506111e8565b60405162461bcd60e51b8152602060048201526014602482015273105d1d195cdd185d1a5bdb881c995c1b185e595960621b6044820152606490fd5b60405162461bcd60e51b81526020600482015260166024820152755265736572766564206163746976697479207479706560501b6044820152606490fd5b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152601360248201527214985d19481b1a5b5a5d08195e18d959591959606a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600c60248201526b2737ba103932b837b93a32b960a11b6044820152606490fd5b3461031a575f36600319011261031a57602060405160018152f35b3461031a57602036600319011261031a5760206001600160a01b0380611349613d65565b165f526017825260405f205416604051908152f35b3461031a575f36600319011261031a576020601154604051908152f35b3461031a5760208060031936011261031a5760043590335f526008815260ff600360405f200154166115f1576004546001600160a01b039290831690816114f7575b5050805f92604463ffffffff60065416915f80516020615e3f8339815191525416916040519586938492639cd07acb60e01b84526004840152600460248401525af19182156111ce575f926114c8575b50611416614ef0565b6040519160808301918383106001600160401b038411176114b45761148494600393604052845281840190815260408401904282526008606086019360018552335f525260405f209451855551600185015551600284015551151591019060ff801983541691151516179055565b61148d33614dc2565b337f0abf3b3f643594d958297062a019458e27d7766629590ac621aa1000fa1298ab5f80a2005b634e487b7160e01b5f52604160045260245ffd5b9080925081813d83116114f0575b6114e08183613e00565b8101031261031a5751908261140d565b503d6114d6565b61150033614522565b81036115bb5760409060248251809481936358edbcc960e11b835260048301525afa9081156111ce575f91611581575b501561153d5782806113bd565b6064906040519062461bcd60e51b82526004820152601760248201527f43726564656e7469616c206e6f742076657269666965640000000000000000006044820152fd5b90506040813d6040116115b3575b8161159c60409383613e00565b8101031261031a576115ad906144f7565b83611530565b3d915061158f565b60405162461bcd60e51b815260048101849052600e60248201526d15dc9bdb99c81c1c9bdbd9881a5960921b6044820152606490fd5b6064906040519062461bcd60e51b82526004820152600e60248201526d20b63932b0b23c9036b2b6b132b960911b6044820152fd5b3461031a5761163436613f49565b90335f526020926008845261165260ff600360405f200154166140de565b845f526009845261166c600560405f20015442111561447c565b845f526009845261168760ff600660405f20015416156144b7565b845f52600b845260405f20335f52845260ff60405f20541661186057916116b19161173193614a97565b835f52600a835260405f20335f5283528060405f2055835f52600b835260405f20335f52835260405f20600160ff19825416179055835f526009835261170a6001600160401b03600860405f20015460381c1633614d18565b90845f52600c845260405f20335f5284528160405f2055845f526009845260405f20614ba6565b611739614e73565b90335f526016815260405f2060015f5281526117598260405f2054614fe8565b335f526016825260405f2060015f52825260405f2055335f526016815260405f2060015f52815261179960405f2054611792308261515e565b339061515e565b335f52600881526117b760405f206110f0600282549201544261439a565b916011546001101561184c577fa36cc2bebb74db33e9f88110a07ef56e1b31b24b4c4f51b54b1664266e29f45b926111216118249260115f5263ffffffff7f31ecc21a745e3968a04e9570e4425bc18fa8019c68028196b546d1669c200c6b54169080156111a357615c6b565b335f526008825260405f2090815560024291015561184133614dc2565b6040519283523392a2005b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260048101859052600d60248201526c105b1c9958591e481d9bdd1959609a1b6044820152606490fd5b3461031a5760208060031936011261031a57600435335f52600882526118c460ff600360405f200154166140de565b805f526009825260405f20916118df60058401544211614119565b815f52600f81526118f760ff60405f205416156142a0565b60405161190381613db7565b60048152818101906080368337845461191b8261441b565b52600194600181015461192d83614428565b5260028101549082516002101561184c576003916060840152015481516003101561184c5760808201525f917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549360018060a01b03805f80516020615e5f8339815191525416803b1561031a575f6040518092637d6e912360e11b82528a60048301528183816119c3602482018b6151c5565b03925af180156111ce57611b81575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15611b7d57816040518092633263b83b60e01b825288600483015260606024830152818381611a2a606482018a6151c5565b630ee4f45360e11b604483015203925af18015611b7257908291611b5b575b508590527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018087526040822054611b49578582528652604081209151926001600160401b038411611b3557600160401b8411611b35578254848455808510611b0e575b50918152858120905b838110611afd57876019888888611acc81546141ac565b90555f52528060405f20557f692f7082be436727c1eb360ad57f2116cf8e2d16001837c08adafb7e0fa2f8f95f80a2005b825182820155918601918801611ab5565b838352898589852092830192015b828110611b2a575050611aac565b5f8155018a90611b1c565b634e487b7160e01b82526041600452602482fd5b604051633f06d22b60e01b8152600490fd5b611b6490613ded565b611b6f578089611a49565b80fd5b6040513d84823e3d90fd5b5080fd5b611b8c919250613ded565b5f90896119d2565b3461031a575f36600319011261031a57602063ffffffff60135416604051908152f35b3461031a575f36600319011261031a57602063ffffffff5f5460c01c16604051908152f35b3461031a57602036600319011261031a57611bf5613d65565b5f546001600160a01b0380821692611c0e33851461422a565b16918215611c4b5782907ff8ccb027dfcd135e000e9d45e6cc2d662578a8825d4c45b5e32e0adf67e79ec65f80a36001600160a01b031916175f55005b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21030b236b4b760991b6044820152606490fd5b3461031a57602036600319011261031a5760043560115481101561031a57611ca790613f7f565b5063ffffffff600160405192611cc884611cc18184614008565b0385613e00565b01541690611cdb60405192839283614099565b0390f35b3461031a57602036600319011261031a576001600160a01b03611d00613d65565b165f526018602052602060405f2054604051908152f35b3461031a57611d2536613f49565b90335f5260209260088452611d4360ff600360405f200154166140de565b845f5260098452611d5d600560405f20015442111561447c565b845f5260098452611d7860ff600660405f20015416156144b7565b845f52600b845260405f20335f52845260ff60405f20541615611fc85790611da09291614a97565b90825f52600a815260405f20335f52815260405f205491835f52600a825260405f20335f5282528060405f2055835f52600c825260405f20335f52825260405f205490845f526009835260405f2093611df7614ef0565b5f611e0183615403565b60018060a01b03905f80516020615e3f833981519152918881845416606460405180978193637702dcff60e01b9788845260048401528d60248401528a60448401525af19586156111ce5789945f97611f90575b5060649291611e645f9261547b565b9454166040519687958694855260048501528a602485015260448401525af19081156111ce575f91611f3b575b507fdb4e01591136bd37e9b2e5158361e4bd2e204311d8f3afee9fb42a59180c165a95611f2383611f2384611ee2611eda611f2b97611ed58c9b9a6118419d615221565b615221565b938654615221565b8555611ef360018601918254615221565b8155611f0460028601938454615221565b8355611f236003860195611f198a8854615221565b875554309061515e565b30905461515e565b855f526009845260405f20614ba6565b93929190508484813d8311611f89575b611f558183613e00565b8101031261031a579251919290917fdb4e01591136bd37e9b2e5158361e4bd2e204311d8f3afee9fb42a59180c165a611e91565b503d611f4b565b8581969298509392933d8311611fc1575b611fab8183613e00565b8101031261031a57925194889391906064611e55565b503d611fa1565b60405162461bcd60e51b8152600481018590526009602482015268139bdd081d9bdd195960ba1b6044820152606490fd5b3461031a575f36600319011261031a576020600554604051908152f35b3461031a57602036600319011261031a575f608060405161203681613db7565b82815282602082015282604082015282606082015201526004355f52600f60205260a060405f206040519061206a82613db7565b549060ff821615159182825263ffffffff82816020819501818560081c168152816040840191818760281c1683528160806060870196828a60481c168852019760681c16875260405198895251166020880152511660408601525116606084015251166080820152f35b3461031a57606036600319011261031a576120ed613d65565b6044356001600160401b03811161031a5761210c903690600401613f1c565b9190335f5260206008815261212a60ff600360405f200154166140de565b6001600160a01b03928316933385146123c957845f526008825261215760ff600360405f200154166140de565b61218e61216333614791565b93335f526017845260405f2092876bffffffffffffffffffffffff60a01b8554161784553691613e3c565b5f836121d95f80516020615e3f83398151915293888554169060405194858094819363196d0b9b60e01b83526024356004840152336024840152608060448401526084830190613ef7565b6003606483015203925af19081156111ce575f9161239c575b50855f80516020615e5f833981519152541690813b1561031a57604051630f8e573b60e21b815260048101829052336024820152915f908390604490829084905af19182156111ce57859261238d575b50868115612318575b6064905f9454169160405194859384926304559f7160e01b845260048401526127106024840152600160f81b60448401525af19283156111ce575f936122e5575b50506001018181556122ab916122a390309061515e565b33905461515e565b6122b4336147f9565b6122bd3361494c565b16337fdc66b2a0c2e9f8ef38f442117eb813788791a117772b1a45985da7988e8c485c5f80a4005b90809350813d8311612311575b6122fc8183613e00565b8101031261031a579051906122a3600161228c565b503d6122f2565b5f929150835416604460405180948193639cd07acb60e01b8352816004840152600360248401525af19081156111ce57849187915f9161235a575b509061224b565b928092508391503d8311612386575b6123738183613e00565b8101031261031a5751839086905f612353565b503d612369565b61239690613ded565b88612242565b90508381813d83116123c2575b6123b38183613e00565b8101031261031a5751876121f2565b503d6123a9565b60405162461bcd60e51b815260048101839052600f60248201526e29b2b633103232b632b3b0ba34b7b760891b6044820152606490fd5b3461031a57604036600319011261031a576004357fd6de7487df4a151a86f252ba47dc434cf34c50efb0eae0b2426be45df15d56f8602061243f613da4565b61245360018060a01b035f5416331461422a565b6124606011548510614438565b63ffffffff600161247086613f7f565b50019116908163ffffffff19825416179055604051908152a2005b3461031a57604036600319011261031a576124a4613d7b565b6004355f52600b60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461031a57602036600319011261031a576004355f52600960205260405f2060ff6006600583015442119201541690611cdb604051928392839092916020906040830194151583521515910152565b3461031a57604036600319011261031a576001600160a01b03612544613d65565b165f52601660205260405f206024355f52602052602060405f2054604051908152f35b3461031a57604036600319011261031a577fa288cee3dceca9b9c9cf1221c80bfb9ec4ac6516a3a18e0e4b81e337c199563f60406125a3613d91565b6125ab613da4565b906125c060018060a01b035f5416331461422a565b63ffffffff809116916013548367ffffffff000000008360201b16916001600160401b03191617176013558351928352166020820152a1005b3461031a5760208060031936011261031a57600435335f526008825261262860ff600360405f200154166140de565b805f526009825260405f209161264360058401544211614119565b6008830161265760ff8254841c16156143dc565b6126618454615cca565b6126f960019561267d6126776001830154615cca565b846151f8565b9061268b6003820154615cca565b8015612a6a575b6126ab60046126a36126d693615c0d565b930154615cca565b916126c361ffff9384895416908015612a3057615c6b565b908015612a5c575b8115612a4c57615d6c565b938015612a39575b6126e790615c0d565b945460101c16908015612a3057615c6b565b908215612a20575b8115612a0d575b5f908460018060a01b03946064865f80516020615e3f83398151915254169160405195869384926385362ee760e01b84526004840152602498898401528160448401525af19182156111ce575f926129de575b50612766308261515e565b612770308361515e565b6040519060608201926001600160401b0393838110858211176129cb57604052600283528683019160403684376127a68461441b565b526127b083614428565b525f907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0094855496805f80516020615e5f8339815191525416803b1561031a575f6040518092637d6e912360e11b82528c60048301528183816128158982018d6151c5565b03925af180156111ce576129b8575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156129b457836040518092633263b83b60e01b82528a600483015260608583015281838161287b606482018c6151c5565b639887581760e01b604483015203925af180156129a957908491612991575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018089526040842054611b4957878452885260408320935194851161297f57600160401b851161297f57508254848455808510612958575b50918152858120905b8381106129475787601a88888861291681546141ac565b90555f52528060405f20557fc186ffde60b72d82e602f2d1bc1cb4c3b6b7fdac793ab8a888709a70ae72cddb5f80a2005b8251828201559186019188016128ff565b838352898589852092830192015b8281106129745750506128f6565b5f8155018a90612966565b634e487b7160e01b8352604160045282fd5b61299a90613ded565b6129a557828b61289a565b8280fd5b6040513d86823e3d90fd5b8380fd5b6129c3919450613ded565b5f928b612824565b85634e487b7160e01b5f5260416004525ffd5b9091508481813d8311612a06575b6129f68183613e00565b8101031261031a5751908761275b565b503d6129ec565b90505f612a18614f42565b919050612708565b9150612a2a614f42565b91612701565b506111ac614f42565b506126e7612a45614f42565b90506126de565b9050612a56614f42565b90615d6c565b50612a65614f42565b6126cb565b506126d66126ab60046126a3612a7e614f42565b9350505050612692565b3461031a57604036600319011261031a576001600160a01b03612aa9613d65565b165f52601560205260405f206024355f52602052602063ffffffff60405f205416604051908152f35b3461031a5760208060031936011261031a576004355f526010815260405f2090815491612afe8361416f565b92612b0c6040519485613e00565b8084525f91825282822083850192835b838210612ba55750505050604051918083019381845251809452604083019360408160051b85010192915f955b828710612b565785850386f35b909192938280612b95600193603f198a820301865288516040606091878060a01b03815116845285810151868501520151918160408201520190613ef7565b9601920196019592919092612b49565b604096959651606081018181106001600160401b038211176114b457604090815284546001600160a01b031682526001858101548a840152905190926003928a92612bfe81612bf78160028c01614008565b0382613e00565b6040820152815201930191019091959495612b1c565b3461031a575f36600319011261031a57602063ffffffff60015460081c16604051908152f35b3461031a57602036600319011261031a576001600160a01b03612c5b613d65565b165f526012602052602060ff60405f2054166040519015158152f35b3461031a575f36600319011261031a57602063ffffffff60065416604051908152f35b3461031a57602036600319011261031a5760606001600160a01b0380612cbe613d65565b165f52601760205260405f209081541690600260018201549101549060405192835260208301526040820152f35b3461031a5760208060031936011261031a57600435906001600160401b039081831161031a573660238401121561031a57826004013591821161031a57602492838101908436918560061b01011161031a57612d5260018060a01b035f5416331461422a565b8215801580612efd575b612d65906142ee565b612eea5763ffffffff93612d8385612d7c8461433a565b16156142ee565b612d8b61434b565b5f5b848110612de7577f6c086c4803982fd5c80b01451cb491983ce795812f5ef8c589132356ee6299fa60408688600460015464ffffffff008460081b169064ffffffffff1916171760015582519160048352166020820152a1005b80158015612e99575b612df9906142ee565b612e0481868561432a565b906002805490600160401b821015612e8657600182019055612e25906143a7565b612e745787612e338461433a565b1692868254918563ffffffff19841617845501359361ffff8516850361031a5765ffff00000000600195891b169165ffffffffffff19161717905501612d8d565b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b50612ead612ea882878661432a565b61433a565b5f198201828111612ed757908780612ecc612ea8612df9958b8a61432a565b169116119050612df0565b83634e487b7160e01b5f5260116004525ffd5b83634e487b7160e01b5f5260326004525ffd5b506004841115612d5c565b3461031a57604036600319011261031a57612f21613d7b565b6004355f52600a60205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461031a57602036600319011261031a576004355f526014602052602060ff60405f2054166040519015158152f35b3461031a57612f8936613e90565b90825f52612fa9602092601984528260405f205495610c2a871515614262565b825f52600f8252612fc160ff60405f205416156142a0565b60808180518101031261031a578181612ffe7ffeebb1ea42fd45c1aa21511d237061d3ba1f43870bf71a29045b201411ca116194608094016142dd565b61300a604083016142dd565b916130228561301b606084016142dd565b92016142dd565b9360405161302f81613db7565b600181528181019463ffffffff80951696878752856040840192169485835286606085019116968782528a85019216978883528c5f52600f865261308660405f2095511515869060ff801983541691151516179055565b519264ffffffff006cffffffff00000000000000000068ffffffff00000000008754935160281b16935160481b169363ffffffff60681b905160681b169460081b169070ffffffffffffffffffffffffffffffff00191617171717905560405194855284015260408301526060820152a2005b3461031a57602036600319011261031a57613112613d91565b5f5490613129336001600160a01b0384161461422a565b63ffffffff811680156131825763ffffffff60c01b1990921660c09190911b63ffffffff60c01b16175f556040519081527fa62dfa83480a5bff4dae9963dc8eaadc08a7d0eadf989f9f865ee8e82316a14d90602090a1005b60405162461bcd60e51b8152602060048201526013602482015272125b9d985b1a5908191958d85e481b5bd9195b606a1b6044820152606490fd5b3461031a57606036600319011261031a576001600160401b036044351161031a5736602360443501121561031a576001600160401b03604435600401351161031a573660246044356004013560051b60443501011161031a57335f52600860205261323160ff600360405f200154166140de565b602435156137ea57600a60443560040135116137b25761324f614e73565b335f52601660205260405f205f805260205261326f8160405f2054614fe8565b335f908152601660209081526040808320838052909152902081905561329990611792308261515e565b335f5260086020526132b860405f206110f0600282549201544261439a565b6011541561184c576111216132ff9260115f5263ffffffff7f31ecc21a745e3968a04e9570e4425bc18fa8019c68028196b546d1669c200c6954169080156111a357615c6b565b335f52600860205260405f2090815560024291015561331d33614dc2565b600d546001600160401b0380821614611287576001600160401b03600181831601166001600160401b0319821617600d556133596007546141ac565b600755613364614ef0565b9061336f308361515e565b6003549061337f600435426141ba565b925f5460405194856101e08101106001600160401b036101e0880111176114b4576001600160401b039461ffff936101e088016040528088528060208901528060408901526060880152608087015260a08601525f60c086015260243560e0860152818160a01c1661010086015260b01c166101208401525f6101408401525f6101608401525f610180840152166101a08201525f6101c08201526007545f52600960205260096101c060405f2092805184556020810151600185015560408101516002850155606081015160038501556080810151600485015560a0810151600585015561348360c08201511515600686019060ff801983541691151516179055565b60e081015160078501556008840161ffff6101008301511681549063ffff00006101208501519164ff00000000610140870151151560201b169364ffffffffff1916179160101b16171781556134fb6101608301511515829065ff0000000000825491151560281b169065ff00000000001916179055565b610180820151815466ff000000000000191690151560301b66ff000000000000161781556101a082015167ffffffffffffffff60381b82549160381b169067ffffffffffffffff60381b191617905501519101555f5b6044356004013581106135a0576007547fcb8e75414e8ce6fbc0576f05fa1fb29c2ef16ee7fda35c7414889779d8286dae6040613590600435426141ba565b81519081526024356020820152a2005b6007545f52601060205260405f209060248160051b6044350101359160821960443536030183121561031a578054600160401b8110156114b4576135e991600182018155614156565b61379f576001600160a01b0361360560443585016024016141c7565b82546001600160a01b03191691161781556044803584019081013560018301556064810135939036036042190184121561031a576001600160401b0360248583604435010101351161031a5760448035820185016024810135360391011361031a5761368b60248583604435010101356136826002850154613fd0565b600285016141db565b5f93601f6024828460443501010135116001146136fd576002916001956136dd925f9160248285604435010101356136e7575b506024919260443501010135908160011b915f199060031b1c19161790565b9101555b01613551565b60249250604490828583350101010135916136be565b9193600285015f5260205f20905f5b6044358401850160240135601f1916811061377f575060019593600293879360249360443583018401850135601f19811610613757575b505060443501010135811b019101556136e1565b604480358401850191820101355f199186013560031b60f8169190911c191690558880613743565b90916020600181926044868989833501010101358155019301910161370c565b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152601060248201526f546f6f206d616e7920616374696f6e7360801b6044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f4d697373696e67206d6574616461746160801b6044820152606490fd5b3461031a575f36600319011261031a5760025461383e8161416f565b61384b6040519182613e00565b818152602090818101928360025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace5f915b8383106138d2576040805187815286518189018190528992820190895f5b8281106138a95784840385f35b8551805163ffffffff16855282015161ffff16848301529481019460409093019260010161389c565b60018681926138e085614186565b81520192019201919061387e565b3461031a57602036600319011261031a57335f52600860205261391a60ff600360405f200154166140de565b6004355f52600960205260405f2061393760058201544211614119565b6006810180549160ff8316613bed57600881015460ff8160201c1615613bb65760ff8160281c169081613ba8575b5015613b7157600901544210613b3a5760019182918260ff198093161790556004355f52601060205260405f205f925b6139c3575b6004357f712ae1383f79ac853f8d882153778e0260ef8f03b504e2866e0593e04d2b291f5f80a2005b8054831015613b35576139d68382614156565b5060018060a01b0381541685820154604051905f60028501546139f881613fd0565b90888b821691825f14613b23575050600114613aee575b50915f939181859403925af13d15613ae9573d613a2b81613e21565b90613a396040519283613e00565b81525f60203d92013e5b15613ab457849384917fc10cc01d7e93974a80eff013ee9811ad05fc4c8ac099e28859c4dd3ff5b68d9360018060a01b038254169184810154613aaa6040519283926080968885526020850152604084015285606084015260026004359684019101614008565b0390a20192613995565b60405162461bcd60e51b815260206004820152600d60248201526c1058dd1a5bdb8819985a5b1959609a1b6044820152606490fd5b613a43565b9050600285015f5260205f20895f915b838310613b105750505082015f613a0f565b8181602092548589015201920191613afe565b1685525080151502830190505f613a0f565b61399a565b60405162461bcd60e51b815260206004820152600f60248201526e54696d656c6f636b2061637469766560881b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e141c9bdc1bdcd85b0819985a5b1959608a1b6044820152606490fd5b60ff915060301c1684613965565b60405162461bcd60e51b815260206004820152600f60248201526e4f7574636f6d652070656e64696e6760881b6044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e48195e1958dd5d195960821b6044820152606490fd5b3461031a57602036600319011261031a576001600160a01b03613c46613d65565b165f526008602052608060405f2080549060018101549060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b3461031a57602036600319011261031a576101e0906004355f52600960205260405f206001600160401b0381549160018101549060028101546003820154600483015460058401549060ff60068601541692600786015494600887015497600961ffff9801549a8c5260208c015260408b015260608a0152608089015260a0880152151560c087015260e08601528082166101008601528160101c1661012085015260ff8160201c16151561014085015260ff8160281c16151561016085015260ff8160301c16151561018085015260381c166101a08301526101c0820152f35b600435906001600160a01b038216820361031a57565b602435906001600160a01b038216820361031a57565b6004359063ffffffff8216820361031a57565b6024359063ffffffff8216820361031a57565b60a081019081106001600160401b038211176114b457604052565b604081019081106001600160401b038211176114b457604052565b6001600160401b0381116114b457604052565b90601f801991011681019081106001600160401b038211176114b457604052565b6001600160401b0381116114b457601f01601f191660200190565b929192613e4882613e21565b91613e566040519384613e00565b82948184528183011161031a578281602093845f960137010152565b9080601f8301121561031a57816020613e8d93359101613e3c565b90565b606060031982011261031a57600435916001600160401b0360243581811161031a5783613ebf91600401613e72565b9260443591821161031a57613e8d91600401613e72565b5f5b838110613ee75750505f910152565b8181015183820152602001613ed8565b90602091613f1081518092818552858086019101613ed6565b601f01601f1916010190565b9181601f8401121561031a578235916001600160401b03831161031a576020838186019501011161031a57565b606060031982011261031a576004359160243591604435906001600160401b03821161031a57613f7b91600401613f1c565b9091565b60115481101561184c5760115f5260011b7f31ecc21a745e3968a04e9570e4425bc18fa8019c68028196b546d1669c200c6801905f90565b805482101561184c575f5260205f209060011b01905f90565b90600182811c92168015613ffe575b6020831014613fea57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613fdf565b80545f939261401682613fd0565b918282526020936001916001811690815f1461407a575060011461403c575b5050505050565b90939495505f92919252835f2092845f945b83861061406657505050500101905f80808080614035565b80548587018301529401938590820161404e565b60ff19168685015250505090151560051b010191505f80808080614035565b9063ffffffff6140b6602092959495604085526040850190613ef7565b9416910152565b9060058210156140ca5752565b634e487b7160e01b5f52602160045260245ffd5b156140e557565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba10309036b2b6b132b960a11b6044820152606490fd5b1561412057565b60405162461bcd60e51b815260206004820152600e60248201526d566f74696e67206f6e676f696e6760901b6044820152606490fd5b805482101561184c575f52600360205f20910201905f90565b6001600160401b0381116114b45760051b60200190565b9060405161419381613dd2565b602061ffff82945463ffffffff81168452821c16910152565b5f1981146112875760010190565b9190820180921161128757565b356001600160a01b038116810361031a5790565b601f82116141e857505050565b5f5260205f20906020601f840160051c83019310614220575b601f0160051c01905b818110614215575050565b5f815560010161420a565b9091508190614201565b1561423157565b60405162461bcd60e51b81526020600482015260096024820152682737ba1030b236b4b760b91b6044820152606490fd5b1561426957565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b156142a757565b60405162461bcd60e51b815260206004820152600e60248201526d15185b1b1e481c995d99585b195960921b6044820152606490fd5b519063ffffffff8216820361031a57565b156142f557565b60405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420637572766560981b6044820152606490fd5b919081101561184c5760061b0190565b3563ffffffff8116810361031a5790565b6002545f6002558061435a5750565b60025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace908101905b81811061438f575050565b5f8155600101614384565b9190820391821161128757565b60025481101561184c5760025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace01905f90565b156143e357565b60405162461bcd60e51b815260206004820152601060248201526f13dd5d18dbdb59481c995d99585b195960821b6044820152606490fd5b80511561184c5760200190565b80516001101561184c5760400190565b1561443f57565b60405162461bcd60e51b8152602060048201526015602482015274556e6b6e6f776e206163746976697479207479706560581b6044820152606490fd5b1561448357565b60405162461bcd60e51b815260206004820152600c60248201526b159bdd1a5b99c8195b99195960a21b6044820152606490fd5b156144be57565b60405162461bcd60e51b8152602060048201526011602482015270141c9bdc1bdcd85b08195e1958dd5d1959607a1b6044820152606490fd5b5190811515820361031a57565b811561450e570490565b634e487b7160e01b5f52601260045260245ffd5b60055460405190602082019230845260018060a01b03166040830152606082015260608152608081018181106001600160401b038211176114b45760405251902090565b6001600160a01b03165f908152600e6020526040902080549081156145a2575f1982019182116112875760019161459c91613fb7565b50015490565b50505f90565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f20541561478057855f528352835f209084518083868295549384815201905f52865f20925f5b8882821061476a5750505061461792500383613e00565b805180850190818611611287578601809111611287576146b85f8694614666896146cb968151968161465289935180928d8087019101613ed6565b8201908a8201520388810187520185613e00565b6146da60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906151c5565b6003199384878303016024880152613ef7565b91848303016044850152613ef7565b03925af1918215614760575f9261472a575b50501561471a57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311614759575b6147418183613e00565b8101031261031a57614752906144f7565b5f806146ec565b503d614737565b83513d5f823e3d90fd5b8554845260019586019588955093019201614600565b845163d66ca67560e01b8152600490fd5b6001600160a01b039081165f81815260176020526040902080549092169291836147b9575050565b6147d86147de91855f526018602052600260405f205491015490615221565b846152a5565b5f5260176020525f6002604082208281558260018201550155565b60018060a01b03908181165f526020906017825260405f2090838254161561494657600282019182549160088552614837600160405f200154615cca565b856148456001850154615cca565b8215614936575b8015614928575b6064895f80516020615e3f8339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156111ce575f916148ed575b506148eb966148dd936148cc6148e59796946148bf6148ba60189661538a565b615d1d565b8089556110c4308261515e565b541695865f525260405f2054615221565b905490614fe8565b906152a5565b565b9294939190508583813d8311614921575b6149088183613e00565b8101031261031a579151929390929091906148eb61489a565b503d6148fe565b50614931614f42565b614853565b9150614940614f42565b9161484c565b50505050565b60018060a01b039081811690815f526008602052600160405f20015492601860205260405f205480614a86575b50825f52601760205260405f2090815416614a6c575b506149a49061499e308561515e565b8361515e565b5f52600e60205260405f2080549081151580614a3e575b156149dc575f198201918211611287576001916149d791613fb7565b500155565b916001600160401b039283600d541692604051936149f985613dd2565b845260208401928352600160401b8110156114b457614a1d91600182018155613fb7565b93909361379f5760019251166001600160401b031984541617835551910155565b505f19820182811161128757614a549082613fb7565b506001600160401b038091541690600d5416146149bb565b6149a491936002614a7f92015490615221565b929061498f565b614a909194614fe8565b925f614979565b90614aaa602091614af495943691613e3c565b60018060a01b0392835f80516020615e3f8339815191525416905f60405180988195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613ef7565b6002606483015203925af19283156111ce575f93614b72575b505f80516020615e5f8339815191525416803b1561031a57604051630f8e573b60e21b815260048101849052336024820152905f908290604490829084905af180156111ce57614b63575b506148eb308361515e565b614b6c90613ded565b5f614b58565b9092506020813d602011614b9e575b81614b8e60209383613e00565b8101031261031a5751915f614b0d565b3d9150614b81565b5f90929192614bb3614ef0565b614bbc85615403565b60018060a01b03905f80516020615e3f83398151915291808354169760405198637702dcff60e01b93848b5260048b01528860248b01528560448b01528960648160209a8b945af19889156111ce575f99614ce3575b50915f606492614c2389969561547b565b9454166040519687958694855260048501528a602485015260448401525af19283156111ce575f93614cad575b505092611f2382611f236148eb96614c7a614c72611f2397611ed5888b615221565b958254614fe8565b8155614c8b60018201938454614fe8565b8355614c9c60028201958654614fe8565b8555611f1960038201978854614fe8565b908095929350813d8311614cdc575b614cc68183613e00565b8101031261031a57925190611f236148eb614c50565b503d614cbc565b93929098508684813d8311614d11575b614cfd8183613e00565b8101031261031a579251979192915f614c12565b503d614cf3565b60018060a01b0381165f52600e60205260405f20905f9282545b808510614d785750508215614d5957505f1982019182116112875760019161459c91613fb7565b915050613e8d614d67614ef0565b91614d72308461515e565b8261515e565b614d8281866141ba565b90600191821c91614d938387613fb7565b50546001600160401b039081169085161015614db0575050614d32565b90955081018091116112875793614d32565b6148eb9060018060a01b038116805f526008602052614e1e614e0860405f20614df0600182015491546154f3565b845f526008602052600160405f200155600354615221565b825f526008602052600160405f20015490614fe8565b600355805f526008602052614e3c8260405f20546110c4308261515e565b5f526008602052614e5981600160405f2001546110c4308261515e565b614e653060035461515e565b614e6e816147f9565b61494c565b5f602060018060a01b035f80516020615e3f8339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af19081156111ce575f91614ec1575090565b90506020813d602011614ee8575b81614edc60209383613e00565b8101031261031a575190565b3d9150614ecf565b5f80516020615e3f83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156111ce575f91614ec1575090565b5f80516020615e3f83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156111ce575f91614ec1575090565b5f80516020615e3f83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af19081156111ce575f91614ec1575090565b90613e8d918015615009575b81615bb9579050615003614ef0565b90615bb9565b50615012614ef0565b614ff4565b9063ffffffff61502d815f5460c01c1683614504565b9260208410156151525760ff936020918015615140575b5f80516020615e3f833981519152546040516348fcc7ff60e11b81526004810192909252919095166024860152600160f81b6044860152849060649082905f906001600160a01b03165af19283156111ce575f9361510c575b505f5460c01c1690811561450e5781900661138890818102918183041490151715611287576001600160401b03916150d491614504565b16801561510857906151026148ba6150fd613e8d946150f285615cca565b8015612a3057615c6b565b61538a565b90615221565b5090565b9092506020813d602011615138575b8161512860209383613e00565b8101031261031a5751915f61509d565b3d915061511b565b50606461514b614ef0565b9050615044565b50505050613e8d614ef0565b5f80516020615e5f833981519152546001600160a01b031691823b1561031a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156111ce576151bc5750565b6148eb90613ded565b9081518082526020808093019301915f5b8281106151e4575050505090565b8351855293810193928101926001016151d6565b90613e8d918015615213575b81615bb9579050615003614f42565b5061521c614f42565b615204565b908115615295575b8015615283575b602090606460018060a01b035f80516020615e3f8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156111ce575f91614ec1575090565b50602061528e614ef0565b9050615230565b905061529f614ef0565b90615229565b614e6e816148eb9360018060a01b0382165f5260186020528060405f20556110c4308261515e565b5f80516020615e3f833981519152546040516304559f7160e01b8152600481019290925261ffff6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b5f80516020615e3f833981519152546040516304559f7160e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b80156153ef575b5f80516020615e3f83398151915254604051635a53accb60e01b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b505f60206153fb614f42565b915050615391565b8015615467575b5f80516020615e3f8339815191525460405163f77f3f1d60e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b505f6020615473614f95565b91505061540a565b80156154df575b5f80516020615e3f8339815191525460405163f77f3f1d60e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af19081156111ce575f91614ec1575090565b505f60206154eb614f95565b915050615482565b600190815460ff811660058110156140ca57838114615bb257600214615b80575060ff82541660058110156140ca57600314615a2b5760ff8254169060058210156140ca57600480921461579b578015615788575b615554909392936152cd565b9061555d614ef0565b93614000925b63ffffffff84166155745750505050565b61557e8487615dc0565b906155a06155998383841561577a575b811561577057615d6c565b9282615221565b5f60018060a01b03925f80516020615e3f83398151915292848454169360409586519c8d96637702dcff60e01b958689528a8d8a0152602495868a015260446080526080518901526020978891816064998a925af1801561571e578b9c9d9e5f91615738575b508a9392918789929d8215615728575b5f858754168d5198899586946348fcc7ff60e11b86528501528a840152600160f81b6080518401525af192831561571e57918c9593918e899896945f946156e2575b50906156688493925f9695615dc0565b915416928a519b8c98899788528701528501526080518401525af19182156156d957505f916156a7575b50959460021c633fffffff1693929050615563565b905081813d83116156d2575b6156bd8183613e00565b8101031261031a57633fffffff90515f615692565b503d6156b3565b513d5f823e3d90fd5b989297505092915086813d8311615717575b6156fe8183613e00565b8101031261031a57945186958c9590928e615668615658565b503d6156f4565b88513d5f823e3d90fd5b9150615732614ef0565b91615616565b9b509092919050868b813d8111615769575b6157548183613e00565b8101031261031a5799518b9a9192908a615606565b503d61574a565b9050612a56614ef0565b50615783614ef0565b61558e565b50615554615794614ef0565b9050615548565b918091926157a7614f42565b935f925b6157bd575b50505050613e8d90615d1d565b60029593949554831015615a22576157dd6157d7846143a7565b50614186565b9563ffffffff965f8882511698858615615a14575b60018060a01b03905f80516020615e3f833981519152908282541691604093845192630d8c635960e21b84528a84015260249e8f840152600160f81b938460448501528360648160209a8b945af1928315615a0a578f94928894928c925f946159d2575b50888b51169184156159b7575b945f929160649596541691895198899788966303056db360e31b885287015285015260448401525af19182156156d957505f9161598a575b5080918a8901808a11615978579b8b9c60029c9a9b9c5481106158f7575b505050506150fd6158ec9361ffff8996946158d66158e695615cca565b92015116908015612a3057615c6b565b906151f8565b9401929394956157ab565b61590b919395969798999a508294506143a7565b5054168286511690039082821161596657508a979695929461ffff6158ec956158d6615949896158e6976150fd978f9c9215615956575b169061532b565b95505094968296506158b9565b9150615960614ef0565b91615942565b634e487b7160e01b5f90815260118952fd5b8c601189634e487b7160e01b5f52525ffd5b90508281813d83116159b0575b6159a18183613e00565b8101031261031a57515f61589b565b503d615997565b94606494505f92916159c7614ef0565b955091925094615863565b9650925093905084813d8311615a03575b6159ed8183613e00565b8101031261031a57898f9493889451925f615856565b503d6159e3565b85513d5f823e3d90fd5b50615a1d614ef0565b6157f2565b839594506157b0565b8015615b6d575b615a3e909291926152cd565b91615a47614ef0565b92815f918015915b615a73575b5050509163ffffffff613e8d92935460081c169080156111a357615c6b565b63ffffffff93929395868516966010881015615b6257835f918491615b52575b60018060a01b035f80516020615e3f8339815191525416908760409b8c5194631391547f60e01b865260048601521b166024830152600160f81b60448301528160648160209586945af1918215615b485786979899505f92615b0f575b5050615b0563ffffffff926111218793615d1d565b9796011692615a4f565b819396508092503d8311615b41575b615b288183613e00565b8101031261031a5751849390615b0563ffffffff615af0565b503d615b1e565b89513d5f823e3d90fd5b9050615b5c614ef0565b90615a93565b509550829350615a54565b50615a3e615b79614ef0565b9050615a32565b613e8d92508115615b9b575b60081c63ffffffff169061532b565b905063ffffffff615baa614ef0565b919050615b8c565b5050905090565b90602090606460018060a01b035f80516020615e3f8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156111ce575f91614ec1575090565b5f80516020615e3f83398151915254604051630afe14ad60e31b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b5f80516020615e3f83398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b5f80516020615e3f833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b60205f91604460018060a01b035f80516020615e3f83398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af19081156111ce575f91614ec1575090565b90602090606460018060a01b035f80516020615e3f8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af19081156111ce575f91614ec1575090565b63ffffffff916020918015615e2c575b5f80516020615e3f8339815191525460405163022f65e760e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156111ce575f91614ec1575090565b506064615e37614ef0565b9050615dd056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type AttentionVote_FHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AttentionVote_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AttentionVote_FHE__factory extends ContractFactory {
+  constructor(...args: AttentionVote_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AttentionVote_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AttentionVote_FHE__factory {
+    return super.connect(runner) as AttentionVote_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AttentionVote_FHEInterface {
+    return new Interface(_abi) as AttentionVote_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AttentionVote_FHE {
+    return new Contract(address, _abi, runner) as unknown as AttentionVote_FHE;
+  }
+}
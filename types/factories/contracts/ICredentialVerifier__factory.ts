@@ -0,0 +1,53 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  ICredentialVerifier,
+  ICredentialVerifierInterface,
+} from "../../contracts/ICredentialVerifier";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "proofId",
+        type: "bytes32",
+      },
+    ],
+    name: "getProofResult",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "verifiedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class ICredentialVerifier__factory {
+  static readonly abi = _abi;
+  static createInterface(): ICredentialVerifierInterface {
+    return new Interface(_abi) as ICredentialVerifierInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ICredentialVerifier {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ICredentialVerifier;
+  }
+}
@@ -0,0 +1,112 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../contracts/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576103a4908161001b8239f35b5f80fdfe6040608081526004906004361015610015575f80fd5b5f3560e01c6382ad56cb14610028575f80fd5b34610295576020806003193601126102955767ffffffffffffffff90600435828111610295573660238201121561029557806004013590838211610295576024936024820191602436918560051b0101116102955761009361008e849896959798610335565b61030f565b948386526100a084610335565b601f19959086015f5b8181106102b25750505f5b8581106101605750505050505083519280840191818552835180935285850182878560051b8801019501965f925b8584106100ef5787870388f35b909192939495603f1988820301845285808a51805115158452015191848282015282519283868301525f5b84811061014b575050600192829185601f6060935f858286010152011601019a0194019401929795949391906100e2565b8181018401518382016060015289930161011a565b6101708187879c9b999a9c61034d565b356001600160a01b03811681036102955761018c82888861034d565b8a81013590601e198136030182121561029557019081359186831161029557890190823603821361029557825f80949381948f519384928337810182815203925af13d156102ab573d858111610299576101ec898b601f8401160161030f565b9081523d5f8a83013e5b8115918261027c575b1561023a5790600192916102116102db565b9115825289820152610223828d610383565b5261022e818c610383565b500198969597986100b4565b8a5162461bcd60e51b81528086018a90526017818601527f4d756c746963616c6c333a2063616c6c206661696c65640000000000000000006044820152606490fd5b5088610289848a8a61034d565b013580151581146101ff575b5f80fd5b83604186634e487b7160e01b5f52525ffd5b60606101f6565b98898982809a9b9d9c6102c36102db565b925f84526060838501520101520199979698996100a9565b604051906040820182811067ffffffffffffffff8211176102fb57604052565b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff8111838210176102fb57604052565b67ffffffffffffffff81116102fb5760051b60200190565b919081101561036f5760051b81013590605e1981360301821215610295570190565b634e487b7160e01b5f52603260045260245ffd5b805182101561036f5760209160051b01019056fea164736f6c6343000818000a";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as mocks from "./mocks";
+export { AttentionVote_FHE__factory } from "./AttentionVote_FHE__factory";
+export { ICredentialVerifier__factory } from "./ICredentialVerifier__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
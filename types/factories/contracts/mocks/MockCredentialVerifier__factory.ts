@@ -0,0 +1,115 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockCredentialVerifier,
+  MockCredentialVerifierInterface,
+} from "../../../contracts/mocks/MockCredentialVerifier";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "proofId",
+        type: "bytes32",
+      },
+    ],
+    name: "getProofResult",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "proofId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isValid",
+        type: "bool",
+      },
+    ],
+    name: "setProofResult",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100155760a0908161001a8239f35b5f80fdfe60406080815260043610156011575f80fd5b5f3560e01c80639ecef2ac14605c5763b1db799214602d575f80fd5b3460585760203660031901126058576004355f525f602052805f205481519080151582526020820152f35b5f80fd5b503460585780600319360112605857602435801515810360585715608d5742905b6004355f525f6020525f20555f80f35b5f90607d56fea164736f6c6343000818000a";
+
+type MockCredentialVerifierConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockCredentialVerifierConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockCredentialVerifier__factory extends ContractFactory {
+  constructor(...args: MockCredentialVerifierConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockCredentialVerifier & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): MockCredentialVerifier__factory {
+    return super.connect(runner) as MockCredentialVerifier__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockCredentialVerifierInterface {
+    return new Interface(_abi) as MockCredentialVerifierInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockCredentialVerifier {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as MockCredentialVerifier;
+  }
+}
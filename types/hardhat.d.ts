@@ -46,9 +46,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "AttentionVote_FHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.AttentionVote_FHE__factory>;
+    getContractFactory(
+      name: "ICredentialVerifier",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ICredentialVerifier__factory>;
+    getContractFactory(
+      name: "MockCredentialVerifier",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockCredentialVerifier__factory>;
+    getContractFactory(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.Multicall3__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -91,10 +103,25 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "AttentionVote_FHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AttentionVote_FHE>;
+    getContractAt(
+      name: "ICredentialVerifier",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ICredentialVerifier>;
+    getContractAt(
+      name: "MockCredentialVerifier",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockCredentialVerifier>;
+    getContractAt(
+      name: "Multicall3",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.Multicall3>;
 
     deployContract(
       name: "EthereumConfig",
@@ -129,9 +156,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "AttentionVote_FHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.AttentionVote_FHE>;
+    deployContract(
+      name: "ICredentialVerifier",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ICredentialVerifier>;
+    deployContract(
+      name: "MockCredentialVerifier",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockCredentialVerifier>;
+    deployContract(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
 
     deployContract(
       name: "EthereumConfig",
@@ -174,10 +213,25 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "AttentionVote_FHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AttentionVote_FHE>;
+    deployContract(
+      name: "ICredentialVerifier",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ICredentialVerifier>;
+    deployContract(
+      name: "MockCredentialVerifier",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockCredentialVerifier>;
+    deployContract(
+      name: "Multicall3",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.Multicall3>;
 
     // default types
     getContractFactory(
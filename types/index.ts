@@ -22,5 +22,11 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { AttentionVote_FHE } from "./contracts/AttentionVote_FHE";
+export { AttentionVote_FHE__factory } from "./factories/contracts/AttentionVote_FHE__factory";
+export type { ICredentialVerifier } from "./contracts/ICredentialVerifier";
+export { ICredentialVerifier__factory } from "./factories/contracts/ICredentialVerifier__factory";
+export type { MockCredentialVerifier } from "./contracts/mocks/MockCredentialVerifier";
+export { MockCredentialVerifier__factory } from "./factories/contracts/mocks/MockCredentialVerifier__factory";
+export type { Multicall3 } from "./contracts/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/Multicall3__factory";